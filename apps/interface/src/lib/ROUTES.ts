@@ -17,6 +17,13 @@ const PAGES = {
  * SERVERS
  */
 const SERVERS = {
+  "GET /api/relayer/fee": `/api/relayer/fee`,
+  "GET /api/relayer/info": `/api/relayer/info`,
+  "POST /api/relayer/relay": `/api/relayer/relay`,
+  "GET /api/relayer/txs/[txHash]": (params: { txHash: (string | number) }) => {
+    return `/api/relayer/txs/${params.txHash}`
+  },
+  "GET /api/rollup": `/api/rollup`,
   "POST /api/rollup": `/api/rollup`,
   "POST /api/trees": `/api/trees`
 }
@@ -133,8 +140,8 @@ export function route<T extends keyof AllTypes>(key: T, ...params: any[]): strin
 */
 export type KIT_ROUTES = {
   PAGES: { '/': never, '/connect': never }
-  SERVERS: { 'POST /api/rollup': never, 'POST /api/trees': never }
+  SERVERS: { 'GET /api/relayer/fee': never, 'GET /api/relayer/info': never, 'POST /api/relayer/relay': never, 'GET /api/relayer/txs/[txHash]': 'txHash', 'GET /api/rollup': never, 'POST /api/rollup': never, 'POST /api/trees': never }
   ACTIONS: Record<string, never>
   LINKS: Record<string, never>
-  Params: Record<string, never>
+  Params: { txHash: never }
 }
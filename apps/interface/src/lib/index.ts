@@ -8,7 +8,9 @@ import { ReownService } from "./reown.js";
 import { route } from "./ROUTES.js";
 import { CurrencyListService } from "./services/CurrencyListService.svelte.js";
 import { EvmAccountService } from "./services/EvmAccountService.svelte.js";
+import { PoolTxsService } from "./services/PoolTxsService.svelte.js";
 import { QueriesService } from "./services/QueriesService.svelte.js";
+import { ShieldedAccountsService } from "./services/ShieldedAccountsService.svelte.js";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -27,24 +29,51 @@ const chainId = 31337;
 
 const currencyList = new CurrencyListService(chainId);
 
-const relayer = new ethers.Wallet(
-  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
-  provider,
-);
+// shielded txs are sent and paid for by the relayer server
+const relayer = new sdk.RelayerClient("/api/relayer");
 const contract = PoolERC20__factory.connect(
   deployments[chainId].contracts.PoolERC20,
-  relayer,
+  relayer.connect(provider),
 );
 const coreSdk = sdk.createCoreSdk(contract);
-const trees = new sdk.RemoteTreesService(route("POST /api/trees"));
-const interfaceSdk = sdk.createInterfaceSdk(coreSdk, trees, {
-  shield: import("@repo/contracts/noir/target/erc20_shield.json"),
-  unshield: import("@repo/contracts/noir/target/erc20_unshield.json"),
-  join: import("@repo/contracts/noir/target/erc20_join.json"),
-  transfer: import("@repo/contracts/noir/target/erc20_transfer.json"),
-});
+const treeData = new sdk.RemoteTreeDataSource(route("POST /api/trees"));
+const trees = new sdk.ClientTreesService(treeData);
+const noteStore = browser
+  ? new sdk.IndexedDbNoteStore()
+  : new sdk.InMemoryNoteStore();
+const interfaceSdk = sdk.createInterfaceSdk(
+  coreSdk,
+  trees,
+  {
+    shield: import("@repo/contracts/noir/target/erc20_shield.json"),
+    unshield: import("@repo/contracts/noir/target/erc20_unshield.json"),
+    join: import("@repo/contracts/noir/target/erc20_join.json"),
+    transfer: import("@repo/contracts/noir/target/erc20_transfer.json"),
+    transfer1x3: import("@repo/contracts/noir/target/erc20_transfer_1x3.json"),
+    transfer2x4: import("@repo/contracts/noir/target/erc20_transfer_2x4.json"),
+    transfer4x8: import("@repo/contracts/noir/target/erc20_transfer_4x8.json"),
+  },
+  noteStore,
+);
+const incomeProofs = new sdk.IncomeProofService(
+  contract,
+  treeData,
+  sdk.getCircuit(import("@repo/contracts/noir/target/erc20_income_proof.json")),
+);
+const poolTxs = new PoolTxsService(interfaceSdk.txTracker);
 const reown = new ReownService(contract);
-const evm = new EvmAccountService();
+const domain = {
+  chainId,
+  pool: deployments[chainId].contracts.PoolERC20,
+};
+const evm = new EvmAccountService(domain);
+const accounts = new ShieldedAccountsService(evm);
+const employees = new sdk.EmployeeRegistryService(
+  domain,
+  browser
+    ? new sdk.LocalStorageEmployeeRegistryStore()
+    : new sdk.InMemoryEmployeeRegistryStore(),
+);
 
 export const lib = {
   queries,
@@ -54,6 +83,10 @@ export const lib = {
   provider,
   reown,
   evm,
+  accounts,
+  employees,
+  incomeProofs,
+  poolTxs,
   ...coreSdk,
   ...interfaceSdk,
 };
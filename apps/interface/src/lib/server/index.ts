@@ -1,13 +1,77 @@
+import { building } from "$app/environment";
+import { env } from "$env/dynamic/private";
 import { lib } from "$lib";
+import { sdk } from "@repo/contracts/sdk";
 import { createBackendSdk } from "@repo/contracts/sdk/backendSdk";
-import { TreesService } from "@repo/contracts/sdk/serverSdk";
+import { RelayerService, TreesService } from "@repo/contracts/sdk/serverSdk";
+import { utils } from "@repo/utils";
+import { ethers } from "ethers";
+import { mapValues } from "lodash-es";
 
-const trees = new TreesService(lib.contract);
-const backendSdk = createBackendSdk(lib, trees, {
-  rollup: import("@repo/contracts/noir/target/rollup.json"),
+utils.assert(
+  building || env.RELAYER_PRIVATE_KEY,
+  "RELAYER_PRIVATE_KEY is not set",
+);
+// pays for relayed txs and rollups. Shared, so both use the same nonces
+const relayerWallet = new ethers.NonceManager(
+  building
+    ? ethers.Wallet.createRandom(lib.provider)
+    : new ethers.Wallet(env.RELAYER_PRIVATE_KEY!, lib.provider),
+);
+const contract = lib.contract.connect(relayerWallet);
+
+// shares events with the interface sdk, so each log is only fetched once
+const trees = new TreesService(contract, {
+  dataDir: env.TREES_DATA_DIR,
+  indexer: lib.indexer,
 });
+const backendSdk = createBackendSdk(
+  { ...lib, contract },
+  trees,
+  {
+    rollup: import("@repo/contracts/noir/target/rollup.json"),
+  },
+  {
+    rollupScheduler: {
+      ...(env.ROLLUP_FILL_THRESHOLD && {
+        fillThreshold: Number(env.ROLLUP_FILL_THRESHOLD),
+      }),
+      ...(env.ROLLUP_MAX_WAIT && { maxWait: env.ROLLUP_MAX_WAIT }),
+    },
+    prover: {
+      ...(env.ROLLUP_PROVER_WORKERS && {
+        workers: Number(env.ROLLUP_PROVER_WORKERS),
+      }),
+      timeout: env.ROLLUP_PROVER_TIMEOUT,
+      remoteUrl: env.ROLLUP_PROVER_URL,
+    },
+  },
+);
+if (!building && env.ROLLUP_SCHEDULER !== "off") {
+  backendSdk.rollupScheduler.start();
+}
+
+// fees are only charged if the relayer has a shielded account to receive them
+const relayerFees = env.RELAYER_FEE_VIEWING_KEY
+  ? {
+      viewingKey: sdk.ViewingKey.fromString(env.RELAYER_FEE_VIEWING_KEY),
+      // e.g., `{"0x<usdc>": "100000"}`
+      amounts: mapValues(
+        JSON.parse(env.RELAYER_FEE_AMOUNTS ?? "{}") as Record<string, string>,
+        (amount) => BigInt(amount),
+      ),
+    }
+  : undefined;
+const relayer = new RelayerService(contract, relayerWallet, trees, relayerFees);
+
+// `/api/trees` is served by a standalone indexer(`pnpm indexer:serve`) if set. Rollups and the relayer keep using `trees`
+const poolIndexer = env.POOL_INDEXER_URL
+  ? new sdk.PoolIndexerClient(env.POOL_INDEXER_URL)
+  : undefined;
 
 export const serverLib = {
   ...backendSdk,
   trees,
+  relayer,
+  poolIndexer,
 };
@@ -1,14 +1,14 @@
-import { utils } from "@repo/utils";
+import { sdk, type SecretKeyDomain } from "@repo/contracts/sdk";
 import { ethers } from "ethers";
-import { keccak256ToFr } from "../utils";
 
 export class EvmAccountService {
   readonly provider!: ethers.BrowserProvider;
   address: string | undefined = $state();
 
   #secretKeys: Record<string, Promise<string>> = {};
+  #legacySecretKeys: Record<string, Promise<string>> = {};
 
-  constructor() {
+  constructor(private domain: SecretKeyDomain) {
     if (typeof window !== "undefined") {
       this.provider = new ethers.BrowserProvider((window as any).ethereum);
       this.#fetchAddress();
@@ -40,20 +40,21 @@ export class EvmAccountService {
   }
 
   async getSecretKey(account: ethers.Signer) {
-    const message = "Sign this message to derive a Mezcal secret key"; // TODO(security): put the correct domain here
     const address = (await account.getAddress()).toLowerCase();
     if (!this.#secretKeys[address]) {
-      this.#secretKeys[address] = utils.iife(async () => {
-        const signature0 = await account.signMessage(message);
-        const signature1 = await account.signMessage(message);
-        if (signature0 !== signature1) {
-          throw new Error(
-            "Secret key cannot be generated because your wallet signatures are not deterministic",
-          );
-        }
-        return (await keccak256ToFr(signature0)).toString();
-      });
+      this.#secretKeys[address] = sdk.deriveSecretKey(account, this.domain);
     }
     return this.#secretKeys[address];
   }
+
+  /**
+   * Key derived from the old undomained message. Only used to migrate notes
+   */
+  async getLegacySecretKey(account: ethers.Signer) {
+    const address = (await account.getAddress()).toLowerCase();
+    if (!this.#legacySecretKeys[address]) {
+      this.#legacySecretKeys[address] = sdk.deriveLegacySecretKey(account);
+    }
+    return this.#legacySecretKeys[address];
+  }
 }
@@ -0,0 +1,27 @@
+import type { PoolTxState, PoolTxTrackerService } from "@repo/contracts/sdk";
+import type { ethers } from "ethers";
+
+/**
+ * Shielded txs sent from this page and how far they are from being spendable. Reactive view of {@link PoolTxTrackerService}
+ */
+export class PoolTxsService {
+  txs: PoolTxState[] = $state([]);
+
+  constructor(private tracker: PoolTxTrackerService) {
+    tracker.subscribe((txs) => {
+      this.txs = txs;
+    });
+  }
+
+  track(tx: ethers.TransactionResponse) {
+    return this.tracker.track(tx);
+  }
+
+  async waitForRollup(txHash: string) {
+    return await this.tracker.waitForRollup(txHash);
+  }
+
+  clearSettled() {
+    this.tracker.clearSettled();
+  }
+}
@@ -0,0 +1,110 @@
+import { sdk } from "@repo/contracts/sdk";
+import { utils } from "@repo/utils";
+import type { ethers } from "ethers";
+import { z } from "zod";
+import type { EvmAccountService } from "./EvmAccountService.svelte";
+
+export type ShieldedAccount = {
+  path: string;
+  label: string;
+};
+
+const DEFAULT_ACCOUNTS: ShieldedAccount[] = [
+  { path: sdk.ROOT_ACCOUNT_PATH, label: "Main" },
+];
+
+/**
+ * Shielded sub-accounts of the connected wallet. All of them are derived from the wallet's secret key (see {@link sdk.deriveAccountSecretKey}), so only paths and labels are stored (in local storage).
+ */
+export class ShieldedAccountsService {
+  #accounts: Record<string, ShieldedAccount[]> = $state({});
+  #activePaths: Record<string, string> = $state({});
+
+  constructor(private evm: EvmAccountService) {
+    if (typeof window !== "undefined") {
+      const stored = zStoredAccounts.safeParse(
+        JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}"),
+      );
+      if (stored.success) {
+        this.#accounts = stored.data.accounts;
+        this.#activePaths = stored.data.activePaths;
+      }
+    }
+  }
+
+  get accounts(): ShieldedAccount[] {
+    const address = this.evm.address?.toLowerCase();
+    return (address && this.#accounts[address]) || DEFAULT_ACCOUNTS;
+  }
+
+  get active(): ShieldedAccount {
+    const address = this.evm.address?.toLowerCase();
+    const path = address ? this.#activePaths[address] : undefined;
+    return this.accounts.find((a) => a.path === path) ?? this.accounts[0]!;
+  }
+
+  select(path: string) {
+    const address = this.#requireAddress();
+    utils.assert(
+      this.accounts.some((a) => a.path === path),
+      `unknown account: ${path}`,
+    );
+    this.#activePaths[address] = path;
+    this.#save();
+  }
+
+  /**
+   * Adds the next unused sub-account `m/<index>` and returns it
+   */
+  add(label: string) {
+    const address = this.#requireAddress();
+    const indices = this.accounts.flatMap((a) =>
+      sdk.parseAccountPath(a.path).slice(0, 1),
+    );
+    const account = {
+      path: sdk.formatAccountPath([Math.max(-1, ...indices) + 1]),
+      label,
+    };
+    this.#accounts[address] = [...this.accounts, account];
+    this.#save();
+    return account;
+  }
+
+  rename(path: string, label: string) {
+    const address = this.#requireAddress();
+    this.#accounts[address] = this.accounts.map((a) =>
+      a.path === path ? { ...a, label } : a,
+    );
+    this.#save();
+  }
+
+  async getSecretKey(signer: ethers.Signer, path: string = this.active.path) {
+    const rootSecretKey = await this.evm.getSecretKey(signer);
+    return await sdk.deriveAccountSecretKey(rootSecretKey, path);
+  }
+
+  #requireAddress() {
+    const address = this.evm.address?.toLowerCase();
+    utils.assertConnected(address);
+    return address;
+  }
+
+  #save() {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        accounts: this.#accounts,
+        activePaths: this.#activePaths,
+      }),
+    );
+  }
+}
+
+const STORAGE_KEY = "shieldedAccounts";
+
+const zStoredAccounts = z.object({
+  accounts: z.record(
+    z.array(z.object({ path: z.string(), label: z.string() })),
+  ),
+  activePaths: z.record(z.string()),
+});
@@ -1,5 +1,3 @@
-import type { Fr } from "@aztec/aztec.js";
-import { ethers } from "ethers";
 import ky from "ky";
 import { assert } from "ts-essentials";
 import { route } from "./ROUTES";
@@ -9,6 +7,15 @@ export function requestRollup() {
   return ky.post(route("POST /api/rollup"));
 }
 
+export function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export function printPublicInputs(publicInputs: string[]) {
   console.log("publicInputs js", publicInputs.length);
   for (const publicInput of publicInputs) {
@@ -17,13 +24,6 @@ export function printPublicInputs(publicInputs: string[]) {
   console.log();
 }
 
-export async function keccak256ToFr(value: string): Promise<Fr> {
-  const { Fr } = await import("@aztec/aztec.js");
-  const { truncateAndPad } = await import("@aztec/foundation/serialize");
-  const hash = ethers.keccak256(value);
-  return Fr.fromBuffer(truncateAndPad(Buffer.from(ethers.getBytes(hash))));
-}
-
 function splitBigIntToLimbs(
   bigInt: bigint,
   limbSize: number,
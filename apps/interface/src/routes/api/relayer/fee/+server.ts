@@ -0,0 +1,12 @@
+import { serverLib } from "$lib/server";
+import { utils } from "@repo/utils";
+
+export async function GET({ url }) {
+  try {
+    const token = url.searchParams.get("token");
+    utils.assert(token, "token is required");
+    return Response.json(await serverLib.relayer.quoteFee(token));
+  } catch (e) {
+    return Response.json({ error: utils.errorToString(e) }, { status: 400 });
+  }
+}
@@ -0,0 +1,5 @@
+import { serverLib } from "$lib/server";
+
+export async function GET() {
+  return Response.json(await serverLib.relayer.getInfo());
+}
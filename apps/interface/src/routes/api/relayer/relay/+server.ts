@@ -0,0 +1,12 @@
+import { serverLib } from "$lib/server";
+import { zRelayRequest } from "@repo/contracts/sdk/serverSdk";
+import { utils } from "@repo/utils";
+
+export async function POST({ request }) {
+  const inputs = zRelayRequest.parse(await request.json());
+  try {
+    return Response.json(await serverLib.relayer.relay(inputs));
+  } catch (e) {
+    return Response.json({ error: utils.errorToString(e) }, { status: 400 });
+  }
+}
@@ -0,0 +1,10 @@
+import { serverLib } from "$lib/server";
+import { utils } from "@repo/utils";
+
+export async function GET({ params }) {
+  try {
+    return Response.json(await serverLib.relayer.getTxStatus(params.txHash));
+  } catch (e) {
+    return Response.json({ error: utils.errorToString(e) }, { status: 404 });
+  }
+}
@@ -1,6 +1,10 @@
 import { serverLib } from "$lib/server";
 
+export async function GET() {
+  return Response.json(serverLib.rollupScheduler.getMetrics());
+}
+
 export async function POST() {
-  serverLib.rollup.rollup();
-  return new Response("", { status: 200 });
+  const tx = await serverLib.rollupScheduler.rollupNow();
+  return Response.json({ txHash: tx?.hash });
 }
@@ -3,11 +3,19 @@ import { sdk } from "@repo/contracts/sdk/index.js";
 import { z } from "zod";
 
 const schema = z.object({
-  method: z.enum(sdk.REMOTE_TREES_ALLOWED_METHODS),
+  method: z.enum(sdk.TREES_SERVER_METHODS),
   args: z.array(z.any()),
 });
 export async function POST({ request }) {
   const inputs = schema.parse(await request.json());
+  if (serverLib.poolIndexer) {
+    const response = await fetch(serverLib.poolIndexer.treesUrl, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(inputs),
+    });
+    return Response.json(await response.json(), { status: response.status });
+  }
   const result = await serverLib.trees[inputs.method](
     ...(inputs.args as [any, any, any]),
   );
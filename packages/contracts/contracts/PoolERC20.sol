@@ -10,6 +10,13 @@ import {PoolGeneric} from "./PoolGeneric.sol";
 // Note: keep in sync with other languages
 uint32 constant MAX_NOTES_TO_JOIN = 2;
 
+/// Verifier of an `erc20_transfer_<inputs>x<outputs>` circuit
+struct TransferVerifier {
+    uint32 inputs;
+    uint32 outputs;
+    IVerifier verifier;
+}
+
 contract PoolERC20 is PoolGeneric {
     using SafeERC20 for IERC20;
     using FrLib for Fr;
@@ -21,6 +28,8 @@ contract PoolERC20 is PoolGeneric {
         IVerifier joinVerifier;
         IVerifier transferVerifier;
         IVerifier swapVerifier;
+        // by `_transferArity`
+        mapping(uint256 => IVerifier) transferManyVerifiers;
     }
 
     // __LatticA__: Event for audit log linking (wa_commitment only, ciphertext off-chain)
@@ -35,6 +44,7 @@ contract PoolERC20 is PoolGeneric {
         IVerifier joinVerifier,
         IVerifier transferVerifier,
         IVerifier swapVerifier,
+        TransferVerifier[] memory transferManyVerifiers,
         IVerifier rollupVerifier,
         bytes32 lwePublicKeyHash
     ) PoolGeneric(rollupVerifier, lwePublicKeyHash) {
@@ -43,6 +53,12 @@ contract PoolERC20 is PoolGeneric {
         _poolErc20Storage().joinVerifier = joinVerifier;
         _poolErc20Storage().transferVerifier = transferVerifier;
         _poolErc20Storage().swapVerifier = swapVerifier;
+        for (uint256 i = 0; i < transferManyVerifiers.length; i++) {
+            TransferVerifier memory v = transferManyVerifiers[i];
+            _poolErc20Storage().transferManyVerifiers[
+                _transferArity(v.inputs, v.outputs)
+            ] = v.verifier;
+        }
     }
 
     function shield(
@@ -87,6 +103,7 @@ contract PoolERC20 is PoolGeneric {
         uint256 amount,
         bytes32 nullifier,
         NoteInput calldata changeNote,
+        NoteInput calldata feeNote,
         bytes32 waCommitment  // __LatticA__: for audit proof linking
     ) external {
         // Circuit public inputs:
@@ -95,16 +112,18 @@ contract PoolERC20 is PoolGeneric {
         // 3. amount.token
         // 4. amount.amount (U256)
         // Circuit public outputs:
-        // 5. note_hashes[0]
-        // 6. nullifiers[0]
-        // 7. wa_commitment
+        // 5. note_hashes[0] (change)
+        // 6. note_hashes[1] (relayer fee, zero if none)
+        // 7. nullifiers[0]
+        // 8. wa_commitment
 
-        PublicInputs.Type memory pi = PublicInputs.create(1 + 1 + 1 + 1 + 1 + 1 + 1);
+        PublicInputs.Type memory pi = PublicInputs.create(1 + 1 + 1 + 1 + 1 + 1 + 1 + 1);
         pi.push(getNoteHashTree().root);
         pi.push(to);
         pi.push(address(token));
         pi.pushUint256Limbs(amount);
         pi.push(changeNote.noteHash);
+        pi.push(feeNote.noteHash);
         pi.push(nullifier);
         pi.push(waCommitment);
 
@@ -117,8 +136,9 @@ contract PoolERC20 is PoolGeneric {
         emit UnshieldAuditLog(nullifier, waCommitment);
 
         {
-            NoteInput[] memory noteInputs = new NoteInput[](1);
+            NoteInput[] memory noteInputs = new NoteInput[](2);
             noteInputs[0] = changeNote;
+            noteInputs[1] = feeNote;
             bytes32[] memory nullifiers = new bytes32[](1);
             nullifiers[0] = nullifier;
             _PoolGeneric_addPendingTx(noteInputs, nullifiers);
@@ -160,12 +180,14 @@ contract PoolERC20 is PoolGeneric {
         bytes calldata proof,
         bytes32 nullifier,
         NoteInput calldata changeNote,
-        NoteInput calldata toNote
+        NoteInput calldata toNote,
+        NoteInput calldata feeNote
     ) external {
-        PublicInputs.Type memory pi = PublicInputs.create(4);
+        PublicInputs.Type memory pi = PublicInputs.create(5);
         pi.push(getNoteHashTree().root);
         pi.push(changeNote.noteHash);
         pi.push(toNote.noteHash);
+        pi.push(feeNote.noteHash);
         pi.push(nullifier);
 
         require(
@@ -174,15 +196,58 @@ contract PoolERC20 is PoolGeneric {
         );
 
         {
-            NoteInput[] memory noteInputs = new NoteInput[](2);
+            NoteInput[] memory noteInputs = new NoteInput[](3);
             noteInputs[0] = changeNote;
             noteInputs[1] = toNote;
+            noteInputs[2] = feeNote;
             bytes32[] memory nullifiers = new bytes32[](1);
             nullifiers[0] = nullifier;
             _PoolGeneric_addPendingTx(noteInputs, nullifiers);
         }
     }
 
+    /**
+     * @notice Spends many notes and pays many recipients with one proof, e.g., net salary, tax withholding and pension. The arity must match one of the deployed `erc20_transfer_<inputs>x<outputs>` circuits. Unused slots are zero
+     */
+    function transferMany(
+        bytes calldata proof,
+        bytes32[] calldata nullifiers,
+        NoteInput calldata changeNote,
+        NoteInput[] calldata toNotes
+    ) external {
+        IVerifier verifier = _poolErc20Storage().transferManyVerifiers[
+            _transferArity(nullifiers.length, toNotes.length)
+        ];
+        require(address(verifier) != address(0), "unsupported transfer arity");
+
+        PublicInputs.Type memory pi = PublicInputs.create(
+            1 + 1 + toNotes.length + nullifiers.length
+        );
+        pi.push(getNoteHashTree().root);
+        pi.push(changeNote.noteHash);
+        for (uint256 i = 0; i < toNotes.length; i++) {
+            pi.push(toNotes[i].noteHash);
+        }
+        for (uint256 i = 0; i < nullifiers.length; i++) {
+            pi.push(nullifiers[i]);
+        }
+        require(
+            verifier.verify(proof, pi.finish()),
+            "Invalid transfer many proof"
+        );
+
+        {
+            NoteInput[] memory noteInputs = new NoteInput[](
+                1 + toNotes.length
+            );
+            noteInputs[0] = changeNote;
+            for (uint256 i = 0; i < toNotes.length; i++) {
+                noteInputs[1 + i] = toNotes[i];
+            }
+            _PoolGeneric_addPendingTx(noteInputs, nullifiers);
+        }
+    }
+
     function swap(
         bytes calldata proof,
         NoteInput[4] calldata notes,
@@ -215,6 +280,13 @@ contract PoolERC20 is PoolGeneric {
         }
     }
 
+    function _transferArity(
+        uint256 inputs,
+        uint256 outputs
+    ) private pure returns (uint256) {
+        return (inputs << 32) | outputs;
+    }
+
     function _poolErc20Storage()
         private
         pure
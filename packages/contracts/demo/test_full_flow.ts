@@ -148,6 +148,9 @@ async function main() {
     unshield: loadCircuitJson("erc20_unshield"),
     join: loadCircuitJson("erc20_join"),
     transfer: loadCircuitJson("erc20_transfer"),
+    transfer1x3: loadCircuitJson("erc20_transfer_1x3"),
+    transfer2x4: loadCircuitJson("erc20_transfer_2x4"),
+    transfer4x8: loadCircuitJson("erc20_transfer_4x8"),
     swap: loadCircuitJson("lob_router_swap"),
   });
 
@@ -209,7 +209,14 @@ async function main() {
     },
 
     // Change randomness
-    change_randomness: toHex(0xCAFEBABEn)
+    change_randomness: toHex(0xCAFEBABEn),
+
+    // No relayer fee: an empty note
+    fee_note: {
+      owner: { x: '0x0', y: '0x0' },
+      amount: { token: { inner: '0x0' }, amount: { value: '0x0' } },
+      randomness: '0x0'
+    }
     // NOTE: No lattica_rlwe_witness - noise is generated internally during proof!
   };
 
@@ -39,6 +39,19 @@ const deploy: DeployFunction = async ({
     "LobRouterSwapVerifier",
     "lob_router_swap",
   );
+  // Note: keep in sync with `TRANSFER_ARITIES` in the SDK
+  const transferManyVerifiers = [];
+  for (const [inputs, outputs] of [
+    [1, 3],
+    [2, 4],
+    [4, 8],
+  ]) {
+    const verifier = await deployVerifier(
+      `Erc20Transfer${inputs}x${outputs}Verifier`,
+      `erc20_transfer_${inputs}x${outputs}`,
+    );
+    transferManyVerifiers.push({ inputs, outputs, verifier: verifier.address });
+  }
   const rollupVerifier = await deployVerifier("RollupVerifier", "rollup");
 
   // __LatticA__: Mock LWE public key hash for testing
@@ -54,6 +67,7 @@ const deploy: DeployFunction = async ({
       joinVerifier.address,
       transferVerifier.address,
       swapVerifier.address,
+      transferManyVerifiers,
       rollupVerifier.address,
       lwePublicKeyHash,  // __LatticA__: RLWE public key hash for audit log verification
     ],
@@ -135,6 +135,9 @@ async function main() {
     unshield: noir.getCircuitJson("erc20_unshield"),
     join: noir.getCircuitJson("erc20_join"),
     transfer: noir.getCircuitJson("erc20_transfer"),
+    transfer1x3: noir.getCircuitJson("erc20_transfer_1x3"),
+    transfer2x4: noir.getCircuitJson("erc20_transfer_2x4"),
+    transfer4x8: noir.getCircuitJson("erc20_transfer_4x8"),
     swap: noir.getCircuitJson("lob_router_swap"),
   });
 
@@ -198,7 +201,7 @@ async function main() {
   printHeader("Step 2: Shield rollup to add note to Merkle tree");
 
   const shieldRollupStartTime = Date.now();
-  const shieldRollupTx = await backendSdk.rollup.rollup();
+  const shieldRollupTx = (await backendSdk.rollup.rollup())!;
   const shieldRollupReceipt = await shieldRollupTx.wait();
   const shieldRollupDuration = Date.now() - shieldRollupStartTime;
 
@@ -280,7 +283,7 @@ async function main() {
   printHeader("Step 4: Transfer rollup to update tree state");
 
   const transferRollupStartTime = Date.now();
-  const transferRollupTx = await backendSdk.rollup.rollup();
+  const transferRollupTx = (await backendSdk.rollup.rollup())!;
   const transferRollupReceipt = await transferRollupTx.wait();
   const transferRollupDuration = Date.now() - transferRollupStartTime;
 
@@ -405,7 +408,7 @@ async function main() {
   console.log(`   - Rollup bundles 3 pending unshield transactions into a single rollup to update tree state`);
 
   const unshieldRollupStartTime = Date.now();
-  const unshieldRollupTx = await backendSdk.rollup.rollup();
+  const unshieldRollupTx = (await backendSdk.rollup.rollup())!;
   const unshieldRollupReceipt = await unshieldRollupTx.wait();
   const unshieldRollupDuration = Date.now() - unshieldRollupStartTime;
 
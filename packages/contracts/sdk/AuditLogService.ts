@@ -2,6 +2,8 @@ import { ethers } from "ethers";
 import * as fs from "fs";
 import * as path from "path";
 import type { PoolERC20 } from "../typechain-types";
+import { toFieldKey } from "./NoteStore";
+import { PoolEventIndexerService } from "./PoolEventIndexer";
 import {
   RlweKeygenService,
   RLWE_N as KEYGEN_RLWE_N,
@@ -35,27 +37,22 @@ export interface OptimisticAuditEntry {
  * - Off-chain: Full RLWE ciphertext via RlweAuditChallenge + IPFS
  */
 export class AuditLogService {
-  constructor(readonly poolContract: PoolERC20) {}
+  constructor(
+    readonly poolContract: PoolERC20,
+    private indexer: PoolEventIndexerService = new PoolEventIndexerService(
+      poolContract,
+    ),
+  ) {}
 
   /**
    * Query audit log by nullifier from UnshieldAuditLog event
    * @param nullifier The transaction nullifier
    */
   async queryAuditLog(nullifier: string): Promise<OptimisticAuditEntry | null> {
-    const filter = this.poolContract.filters.UnshieldAuditLog(nullifier);
-    const events = await this.poolContract.queryFilter(filter);
-
-    if (events.length === 0) {
-      return null;
-    }
-
-    const event = events[0]!;
-    return {
-      nullifier: event.args.nullifier,
-      waCommitment: event.args.waCommitment,
-      blockNumber: event.blockNumber,
-      transactionHash: event.transactionHash,
-    };
+    const entries = await this.#getEntries();
+    return (
+      entries.find((entry) => entry.nullifier === toFieldKey(nullifier)) ?? null
+    );
   }
 
   /**
@@ -63,15 +60,7 @@ export class AuditLogService {
    * Useful for batch querying or UI display
    */
   async getAllAuditLogs(): Promise<OptimisticAuditEntry[]> {
-    const filter = this.poolContract.filters.UnshieldAuditLog();
-    const events = await this.poolContract.queryFilter(filter);
-
-    return events.map((event) => ({
-      nullifier: event.args.nullifier,
-      waCommitment: event.args.waCommitment,
-      blockNumber: event.blockNumber,
-      transactionHash: event.transactionHash,
-    }));
+    return await this.#getEntries();
   }
 
   /**
@@ -94,19 +83,7 @@ export class AuditLogService {
     fromBlock: number,
     toBlock: number,
   ): Promise<OptimisticAuditEntry[]> {
-    const filter = this.poolContract.filters.UnshieldAuditLog();
-    const events = await this.poolContract.queryFilter(
-      filter,
-      fromBlock,
-      toBlock,
-    );
-
-    return events.map((event) => ({
-      nullifier: event.args.nullifier,
-      waCommitment: event.args.waCommitment,
-      blockNumber: event.blockNumber,
-      transactionHash: event.transactionHash,
-    }));
+    return await this.#getEntries({ fromBlock, toBlock });
   }
 
   /**
@@ -117,6 +94,20 @@ export class AuditLogService {
     return entry !== null;
   }
 
+  async #getEntries(blocks?: {
+    fromBlock?: number;
+    toBlock?: number;
+  }): Promise<OptimisticAuditEntry[]> {
+    await this.indexer.sync();
+    const events = await this.indexer.getEvents(["UnshieldAuditLog"], blocks);
+    return events.map((event) => ({
+      nullifier: event.nullifier,
+      waCommitment: event.waCommitment,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+    }));
+  }
+
   /**
    * Parse RLWE ciphertext bytes into c0 and c1 components
    * Used when retrieving full ciphertext from IPFS
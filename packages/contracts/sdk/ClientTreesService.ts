@@ -0,0 +1,179 @@
+import { utils } from "@repo/utils";
+import { ethers } from "ethers";
+import { assert } from "ts-essentials";
+import { NOTE_HASH_TREE_HEIGHT, poseidon2Hash } from "./PoolErc20Service";
+import type { ITreesService, TreeDataSource } from "./RemoteTreesService";
+
+// Note: keep in sync with other languages
+const FIELD_BITS = 254;
+export const MAX_FIELD_PREFIX_BITS = 24;
+
+export type ClientTreesServiceOptions = {
+  /**
+   * Height of the note hash subtree downloaded to compute a sibling path. The server learns which subtree the note is in. Defaults to the whole tree.
+   */
+  bucketHeight?: number;
+  /**
+   * How many top bits of a note hash or a nullifier are revealed to the server to look it up. `0`(default) downloads all note hashes and nullifiers.
+   */
+  prefixBits?: number;
+};
+
+/**
+ * Computes note consumption inputs on the client from public tree data. Unlike {@link RemoteTreesService}, the server never learns the nullifier of a note, so it can't link note hashes to nullifiers.
+ */
+export class ClientTreesService implements ITreesService {
+  readonly #bucketHeight: number;
+  readonly #prefixBits: number;
+
+  constructor(
+    private source: TreeDataSource,
+    options: ClientTreesServiceOptions = {},
+  ) {
+    this.#bucketHeight = options.bucketHeight ?? NOTE_HASH_TREE_HEIGHT;
+    this.#prefixBits = options.prefixBits ?? 0;
+    assert(
+      this.#bucketHeight >= 0 && this.#bucketHeight <= NOTE_HASH_TREE_HEIGHT,
+      "invalid bucket height",
+    );
+    assert(
+      this.#prefixBits >= 0 && this.#prefixBits <= MAX_FIELD_PREFIX_BITS,
+      "invalid prefix bits",
+    );
+  }
+
+  async getTreeRoots() {
+    return await this.source.getTreeRoots();
+  }
+
+  async getNoteConsumptionInputs(params: {
+    noteHash: string;
+    nullifier: string;
+  }) {
+    const noteIndex = await this.#findNoteIndex(params.noteHash);
+    assert(noteIndex != null, "note not found");
+
+    // the tree may grow between requests, so retry until the path matches the root
+    for (let attempt = 0; ; attempt++) {
+      const [{ note_hash_root }, { siblingPath, root }] = await Promise.all([
+        this.source.getTreeRoots(),
+        this.#computeSiblingPath(noteIndex),
+      ]);
+      if (BigInt(note_hash_root) === root) {
+        return {
+          note_sibling_path: siblingPath.map((x) => ethers.toBeHex(x, 32)),
+          note_index: ethers.toQuantity(noteIndex),
+        };
+      }
+      assert(attempt < MAX_ROOT_MISMATCH_RETRIES, "note hash root mismatch");
+    }
+  }
+
+  async noteExistsAndNotNullified(params: {
+    noteHash: string;
+    nullifier: string;
+  }) {
+    const noteIndex = await this.#findNoteIndex(params.noteHash);
+    if (noteIndex == null) {
+      // note does not exist
+      return false;
+    }
+    const nullifiers = await this.source.getNullifiers({
+      prefix: fieldPrefix(params.nullifier, this.#prefixBits),
+      prefixBits: this.#prefixBits,
+    });
+    // note is nullified if its nullifier is in the tree
+    return !nullifiers.some((n) => BigInt(n) === BigInt(params.nullifier));
+  }
+
+  async #findNoteIndex(noteHash: string) {
+    const indexes = await this.source.getNoteHashIndexes({
+      prefix: fieldPrefix(noteHash, this.#prefixBits),
+      prefixBits: this.#prefixBits,
+    });
+    return indexes.find((x) => BigInt(x.noteHash) === BigInt(noteHash))?.index;
+  }
+
+  async #computeSiblingPath(noteIndex: number) {
+    const bucketSize = 2 ** this.#bucketHeight;
+    const bucketIndex = Math.floor(noteIndex / bucketSize);
+    const bucket = await this.source.getNoteHashBucket({
+      bucketIndex,
+      bucketHeight: this.#bucketHeight,
+    });
+    assert(
+      bucket.siblingPath.length === NOTE_HASH_TREE_HEIGHT - this.#bucketHeight,
+      "invalid bucket sibling path",
+    );
+    const subtree = await computeSubtreeSiblingPath(
+      bucket.leaves.map((x) => BigInt(x)),
+      noteIndex % bucketSize,
+      this.#bucketHeight,
+    );
+    const upperPath = bucket.siblingPath.map((x) => BigInt(x));
+    return {
+      siblingPath: [...subtree.siblingPath, ...upperPath],
+      root: await computeRoot(subtree.root, bucketIndex, upperPath),
+    };
+  }
+}
+
+/**
+ * Top `prefixBits` bits of a field element
+ */
+export function fieldPrefix(value: ethers.BigNumberish, prefixBits: number) {
+  return Number(BigInt(value) >> BigInt(FIELD_BITS - prefixBits));
+}
+
+/**
+ * Computes the sibling path of the leaf at `index` and the root of a subtree of `height`, where the subtree contains `leaves` followed by zero leaves.
+ */
+export async function computeSubtreeSiblingPath(
+  leaves: bigint[],
+  index: number,
+  height: number,
+) {
+  assert(leaves.length <= 2 ** height, "too many leaves");
+  const zeroHashes = await getZeroHashes();
+  const siblingPath: bigint[] = [];
+  let layer = leaves;
+  for (let level = 0; level < height; level++) {
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    siblingPath.push(layer[siblingIndex] ?? zeroHashes[level]!);
+    const nextLayer: bigint[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      nextLayer.push(
+        await hashPair(layer[i]!, layer[i + 1] ?? zeroHashes[level]!),
+      );
+    }
+    layer = nextLayer;
+    index = Math.floor(index / 2);
+  }
+  return { siblingPath, root: layer[0] ?? zeroHashes[height]! };
+}
+
+async function computeRoot(node: bigint, index: number, siblingPath: bigint[]) {
+  for (const sibling of siblingPath) {
+    node =
+      index % 2 === 0
+        ? await hashPair(node, sibling)
+        : await hashPair(sibling, node);
+    index = Math.floor(index / 2);
+  }
+  return node;
+}
+
+async function hashPair(left: bigint, right: bigint) {
+  return (await poseidon2Hash([left, right])).toBigInt();
+}
+
+const getZeroHashes = utils.lazyValue(async () => {
+  const zeroHashes = [0n];
+  for (let level = 0; level < NOTE_HASH_TREE_HEIGHT; level++) {
+    const zero = zeroHashes[level]!;
+    zeroHashes.push(await hashPair(zero, zero));
+  }
+  return zeroHashes;
+});
+
+const MAX_ROOT_MISMATCH_RETRIES = 3;
@@ -0,0 +1,117 @@
+import { range } from "lodash";
+import { assert } from "ts-essentials";
+
+/**
+ * Parsed 5-field cron expression (`minute hour day-of-month month day-of-week`). Evaluated in UTC.
+ */
+export type CronExpression = {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** standard cron: if both day fields are restricted, a day matching either one matches */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 7 is also Sunday
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+// Note: bounds the search for expressions that never match, e.g., `0 0 31 2 *`
+const MAX_SEARCH_DAYS = 366 * 5;
+
+/**
+ * Supports `*`, numbers, ranges(`1-5`), lists(`1,15`) and steps(`*\/2`, `1-10/3`)
+ */
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  assert(parts.length === FIELDS.length, `invalid cron: ${expression}`);
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map(
+    (field, i) => parseField(parts[i]!, field, expression),
+  );
+  return {
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek!.map((d) => d % 7)),
+    daysOfMonthRestricted: parts[2] !== "*",
+    daysOfWeekRestricted: parts[4] !== "*",
+  };
+}
+
+/**
+ * First time matching `cron` strictly after `after`
+ */
+export function nextCronDate(cron: CronExpression, after: Date): Date {
+  const start = new Date(after.getTime() + 60_000);
+  start.setUTCSeconds(0, 0);
+  const day = new Date(
+    Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()),
+  );
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (matchesDay(cron, day)) {
+      for (const hour of cron.hours) {
+        for (const minute of cron.minutes) {
+          const date = new Date(day);
+          date.setUTCHours(hour, minute);
+          if (date >= start) {
+            return date;
+          }
+        }
+      }
+    }
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  throw new Error("cron never matches");
+}
+
+function matchesDay(cron: CronExpression, day: Date) {
+  if (!cron.months.has(day.getUTCMonth() + 1)) {
+    return false;
+  }
+  const dom = cron.daysOfMonth.has(day.getUTCDate());
+  const dow = cron.daysOfWeek.has(day.getUTCDay());
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+function parseField(
+  part: string,
+  field: (typeof FIELDS)[number],
+  expression: string,
+): number[] {
+  const values = new Set<number>();
+  for (const item of part.split(",")) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    assert(match, `invalid cron ${field.name}: ${expression}`);
+    const [, all, from, to, step] = match;
+    const start = all === "*" ? field.min : Number(from);
+    const end =
+      all === "*"
+        ? field.max
+        : to != null
+          ? Number(to)
+          : step
+            ? field.max
+            : start;
+    const stepValue = step != null ? Number(step) : 1;
+    assert(
+      field.min <= start && start <= end && end <= field.max && stepValue > 0,
+      `invalid cron ${field.name}: ${expression}`,
+    );
+    for (const value of range(start, end + 1, stepValue)) {
+      values.add(value);
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+}
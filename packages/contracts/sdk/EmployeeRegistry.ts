@@ -0,0 +1,282 @@
+import { ethers } from "ethers";
+import { orderBy } from "lodash";
+import { assert } from "ts-essentials";
+import type { SecretKeyDomain } from "./KeyDerivation";
+import type { CompleteWaAddress } from "./PoolErc20Service";
+import {
+  decodeShieldedAddress,
+  encodeShieldedAddress,
+  isShieldedAddress,
+  parseShieldedAddress,
+} from "./ShieldedAddress";
+
+export type AttestationDomain = Pick<SecretKeyDomain, "chainId" | "pool">;
+
+/**
+ * An employee's signed statement that `shieldedAddress` is theirs. Signed with the EVM wallet their secret key is derived from (see {@link deriveSecretKey}).
+ */
+export type AddressAttestation = {
+  employeeId: string;
+  name: string;
+  /** {@link encodeShieldedAddress} */
+  shieldedAddress: string;
+  /** unix seconds. Later attestations rotate earlier ones */
+  issuedAt: number;
+  /** EVM address of the employee */
+  signer: string;
+  signature: string;
+};
+
+/**
+ * Must stay JSON serializable
+ */
+export type EmployeeRecord = {
+  id: string;
+  name: string;
+  /** EVM address that signs the employee's attestations */
+  signer: string;
+  /** oldest first. The last one is the current address */
+  addresses: AddressAttestation[];
+};
+
+export interface EmployeeRegistryStore {
+  load(): Promise<EmployeeRecord[]>;
+  save(records: EmployeeRecord[]): Promise<void>;
+}
+
+export class InMemoryEmployeeRegistryStore implements EmployeeRegistryStore {
+  #records = "[]";
+
+  async load() {
+    return JSON.parse(this.#records) as EmployeeRecord[];
+  }
+
+  async save(records: EmployeeRecord[]) {
+    this.#records = JSON.stringify(records);
+  }
+}
+
+/**
+ * Browser store
+ */
+export class LocalStorageEmployeeRegistryStore
+  implements EmployeeRegistryStore
+{
+  constructor(readonly storageKey = "employeeRegistry") {}
+
+  async load() {
+    return JSON.parse(
+      globalThis.localStorage.getItem(this.storageKey) ?? "[]",
+    ) as EmployeeRecord[];
+  }
+
+  async save(records: EmployeeRecord[]) {
+    globalThis.localStorage.setItem(this.storageKey, JSON.stringify(records));
+  }
+}
+
+export function getAddressAttestationTypedData(
+  attestation: Pick<
+    AddressAttestation,
+    "employeeId" | "name" | "shieldedAddress" | "issuedAt"
+  >,
+  { chainId, pool }: AttestationDomain,
+) {
+  return {
+    domain: {
+      name: "Mezcal",
+      version: "1",
+      chainId,
+      verifyingContract: pool,
+    } satisfies ethers.TypedDataDomain,
+    types: {
+      ShieldedAddressAttestation: [
+        { name: "employeeId", type: "string" },
+        { name: "name", type: "string" },
+        { name: "shieldedAddress", type: "string" },
+        { name: "issuedAt", type: "uint64" },
+      ],
+    },
+    value: {
+      employeeId: attestation.employeeId,
+      name: attestation.name,
+      shieldedAddress: attestation.shieldedAddress,
+      issuedAt: attestation.issuedAt,
+    },
+  };
+}
+
+/**
+ * Signed by the employee and handed to the payroll operator
+ */
+export async function attestShieldedAddress(
+  signer: ethers.Signer,
+  {
+    employeeId,
+    name,
+    address,
+    issuedAt = Math.floor(Date.now() / 1000),
+  }: {
+    employeeId: string;
+    name: string;
+    address: CompleteWaAddress;
+    issuedAt?: number;
+  },
+  domain: AttestationDomain,
+): Promise<AddressAttestation> {
+  const attestation = {
+    employeeId,
+    name,
+    shieldedAddress: encodeShieldedAddress(address),
+    issuedAt,
+  };
+  const {
+    domain: typedDomain,
+    types,
+    value,
+  } = getAddressAttestationTypedData(attestation, domain);
+  return {
+    ...attestation,
+    signer: await signer.getAddress(),
+    signature: await signer.signTypedData(typedDomain, types, value),
+  };
+}
+
+/**
+ * Checks the signature and the address checksum
+ */
+export function verifyAddressAttestation(
+  attestation: AddressAttestation,
+  domain: AttestationDomain,
+) {
+  if (!isShieldedAddress(attestation.shieldedAddress)) {
+    return false;
+  }
+  const {
+    domain: typedDomain,
+    types,
+    value,
+  } = getAddressAttestationTypedData(attestation, domain);
+  try {
+    const recovered = ethers.verifyTypedData(
+      typedDomain,
+      types,
+      value,
+      attestation.signature,
+    );
+    return recovered.toLowerCase() === attestation.signer.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Maps employees to their current shielded address and keeps the history of rotated addresses. Every address is backed by an {@link AddressAttestation}.
+ */
+export class EmployeeRegistryService {
+  constructor(
+    private domain: AttestationDomain,
+    private store: EmployeeRegistryStore = new InMemoryEmployeeRegistryStore(),
+  ) {}
+
+  async list() {
+    return await this.store.load();
+  }
+
+  async get(employeeId: string) {
+    const records = await this.store.load();
+    return records.find((r) => r.id === employeeId);
+  }
+
+  async register(attestation: AddressAttestation) {
+    this.#assertValid(attestation);
+    const records = await this.store.load();
+    assert(
+      !records.some((r) => r.id === attestation.employeeId),
+      `employee already registered: ${attestation.employeeId}`,
+    );
+    assert(
+      !records.some((r) => isSameName(r.name, attestation.name)),
+      `name already taken: ${attestation.name}`,
+    );
+    const record: EmployeeRecord = {
+      id: attestation.employeeId,
+      name: attestation.name,
+      signer: attestation.signer,
+      addresses: [attestation],
+    };
+    await this.store.save([...records, record]);
+    return record;
+  }
+
+  /**
+   * Replaces the current address of an employee. Must be attested by the same signer as the registration
+   */
+  async rotate(attestation: AddressAttestation) {
+    this.#assertValid(attestation);
+    const records = await this.store.load();
+    const record = records.find((r) => r.id === attestation.employeeId);
+    assert(record, `unknown employee: ${attestation.employeeId}`);
+    assert(
+      record.signer.toLowerCase() === attestation.signer.toLowerCase(),
+      "attestation signed by a different wallet",
+    );
+    assert(
+      record.name === attestation.name,
+      `attestation is for a different name: ${attestation.name}`,
+    );
+    assert(
+      attestation.issuedAt > currentAttestation(record).issuedAt,
+      "attestation is older than the current address",
+    );
+    record.addresses.push(attestation);
+    await this.store.save(records);
+    return record;
+  }
+
+  /**
+   * Resolves an employee name or id, or parses a shielded address
+   */
+  async resolve(nameOrAddress: string): Promise<CompleteWaAddress> {
+    if (isShieldedAddress(nameOrAddress)) {
+      return parseShieldedAddress(nameOrAddress);
+    }
+    const records = await this.store.load();
+    const record =
+      records.find((r) => r.id === nameOrAddress) ??
+      records.find((r) => isSameName(r.name, nameOrAddress));
+    assert(record, `unknown employee: ${nameOrAddress}`);
+    return decodeShieldedAddress(currentAttestation(record).shieldedAddress);
+  }
+
+  /**
+   * Address the employee had attested at `date`, e.g., to audit past payments
+   */
+  async addressAt(employeeId: string, date: Date) {
+    const record = await this.get(employeeId);
+    assert(record, `unknown employee: ${employeeId}`);
+    const attestation = orderBy(
+      record.addresses,
+      (a) => a.issuedAt,
+      "desc",
+    ).find((a) => a.issuedAt * 1000 <= date.getTime());
+    return attestation
+      ? decodeShieldedAddress(attestation.shieldedAddress)
+      : undefined;
+  }
+
+  #assertValid(attestation: AddressAttestation) {
+    assert(
+      verifyAddressAttestation(attestation, this.domain),
+      "invalid address attestation",
+    );
+  }
+}
+
+function currentAttestation(record: EmployeeRecord) {
+  return record.addresses[record.addresses.length - 1]!;
+}
+
+function isSameName(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
@@ -0,0 +1,197 @@
+import { keyBy, orderBy, uniq } from "lodash";
+import type { NoteMemo } from "./NoteMemo";
+import { toFieldKey, type StoredNote } from "./NoteStore";
+
+// Note: keep in sync with other languages
+const MAX_NOTES_TO_JOIN = 2;
+
+export type HistoryEntryKind =
+  | "shield"
+  | "transfer-in"
+  | "transfer-out"
+  | "unshield"
+  | "join"
+  | "swap";
+
+export type HistoryNote = {
+  noteHash: string;
+  token: string;
+  amount: string;
+  memo?: NoteMemo;
+};
+
+export type HistoryEntry = {
+  kind: HistoryEntryKind;
+  txHash: string;
+  blockNumber: number;
+  /** unix seconds of the block */
+  timestamp: number;
+  /** `false` until the tx is rolled up */
+  rolledUp: boolean;
+  /** net balance change per token. Negative for outgoing amounts */
+  amounts: { token: string; amount: string }[];
+  /** depositor of a shield or recipient of an unshield. Unknown for private transfers */
+  counterparty?: string;
+  memo?: NoteMemo;
+  /** own notes consumed by the tx */
+  spentNotes: HistoryNote[];
+  /** own notes created by the tx */
+  receivedNotes: HistoryNote[];
+};
+
+/**
+ * A pool tx as needed to build history
+ */
+export type HistoryTx = {
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+  rolledUp: boolean;
+  noteHashes: string[];
+  nullifiers: string[];
+  /** sender of the Ethereum tx */
+  from?: string;
+  /** set if the tx emitted `UnshieldAuditLog` */
+  unshield?: { to?: string };
+};
+
+/**
+ * Reconstructs the history of a note owner from its notes(see {@link NoteStore}) and the pool txs that created or spent them. Txs that touch none of `notes` are skipped.
+ */
+export function buildHistory(
+  notes: StoredNote[],
+  txs: HistoryTx[],
+): HistoryEntry[] {
+  const notesByHash = keyBy(notes, (note) => note.noteHash);
+  const notesByNullifier = keyBy(notes, (note) => note.nullifier);
+  const entries: HistoryEntry[] = [];
+  for (const tx of txs) {
+    const spent = tx.nullifiers.flatMap((n) => {
+      const note = notesByNullifier[toFieldKey(n)];
+      return note ? [note] : [];
+    });
+    const received = tx.noteHashes.flatMap((h) => {
+      const note = notesByHash[toFieldKey(h)];
+      return note ? [note] : [];
+    });
+    if (spent.length === 0 && received.length === 0) {
+      continue;
+    }
+
+    const tokens = uniq(
+      [...spent, ...received].map((n) => n.token.toLowerCase()),
+    );
+    const amounts = tokens.map((token) => {
+      const sum = (notes: StoredNote[]) =>
+        notes
+          .filter((n) => n.token.toLowerCase() === token)
+          .reduce((acc, n) => acc + BigInt(n.amount), 0n);
+      return { token, amount: (sum(received) - sum(spent)).toString() };
+    });
+    const kind = classify(tx, spent, received, amounts);
+    entries.push({
+      kind,
+      txHash: tx.txHash,
+      blockNumber: tx.blockNumber,
+      timestamp: tx.timestamp,
+      rolledUp: tx.rolledUp,
+      amounts,
+      counterparty:
+        kind === "shield"
+          ? tx.from
+          : kind === "unshield"
+            ? tx.unshield?.to
+            : undefined,
+      memo: received.find((n) => n.memo != null)?.memo,
+      spentNotes: spent.map(toHistoryNote),
+      receivedNotes: received.map(toHistoryNote),
+    });
+  }
+  return orderBy(entries, [(e) => e.blockNumber], ["asc"]);
+}
+
+function classify(
+  tx: HistoryTx,
+  spent: StoredNote[],
+  received: StoredNote[],
+  amounts: { amount: string }[],
+): HistoryEntryKind {
+  if (tx.unshield) {
+    return "unshield";
+  }
+  if (tx.nullifiers.length === 0) {
+    return "shield";
+  }
+  if (spent.length > 0 && amounts.length > 1) {
+    return "swap";
+  }
+  if (
+    tx.nullifiers.length === MAX_NOTES_TO_JOIN &&
+    tx.noteHashes.length === 1 &&
+    spent.length === tx.nullifiers.length &&
+    received.length === 1
+  ) {
+    return "join";
+  }
+  return spent.length > 0 ? "transfer-out" : "transfer-in";
+}
+
+function toHistoryNote(note: StoredNote): HistoryNote {
+  return {
+    noteHash: note.noteHash,
+    token: note.token,
+    amount: note.amount,
+    memo: note.memo,
+  };
+}
+
+const CSV_COLUMNS = [
+  "timestamp",
+  "kind",
+  "token",
+  "amount",
+  "counterparty",
+  "txHash",
+  "rolledUp",
+  "payPeriod",
+  "referenceId",
+  "memo",
+] as const;
+
+/**
+ * One row per entry and token. Amounts are in token base units
+ */
+export function historyToCsv(entries: HistoryEntry[]) {
+  const rows = entries.flatMap((entry) =>
+    entry.amounts.map((amount) => ({
+      timestamp: new Date(entry.timestamp * 1000).toISOString(),
+      kind: entry.kind,
+      token: amount.token,
+      amount: amount.amount,
+      counterparty: entry.counterparty ?? "",
+      txHash: entry.txHash,
+      rolledUp: String(entry.rolledUp),
+      payPeriod: entry.memo?.payPeriod ?? "",
+      referenceId: entry.memo?.referenceId ?? "",
+      memo: entry.memo?.text ?? "",
+    })),
+  );
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) =>
+      CSV_COLUMNS.map((column) => escapeCsv(row[column])).join(","),
+    ),
+  ].join("\n");
+}
+
+export function historyToJson(entries: HistoryEntry[]) {
+  return JSON.stringify(entries, null, 2);
+}
+
+function escapeCsv(value: string) {
+  // also neutralize spreadsheet formulas in memos
+  if (/^[=+\-@]/.test(value) && !/^-\d/.test(value)) {
+    value = `'${value}`;
+  }
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,327 @@
+import { ethers } from "ethers";
+import { orderBy } from "lodash";
+import { assert, type AsyncOrSync } from "ts-essentials";
+import type { PoolERC20 } from "../typechain-types";
+import { computeSubtreeSiblingPath } from "./ClientTreesService";
+import { getPayslipNoteMessage, type Payslip } from "./Payslip";
+import {
+  CompleteWaAddress,
+  Erc20Note,
+  NOTE_HASH_TREE_HEIGHT,
+  TokenAmount,
+  type NoirAndBackend,
+} from "./PoolErc20Service";
+import type { TreeDataSource } from "./RemoteTreesService";
+import { prove } from "./utils";
+
+// Note: keep in sync with other languages
+export const MAX_INCOME_NOTES = 8;
+
+/**
+ * "The prover received notes worth at least `minAmount` of `token` from `employer`, rolled up in `(fromBlock, toBlock]`". The only public data of an {@link IncomeProof}.
+ *
+ * Notes don't commit to their sender, so only notes with the employer's {@link Payslip.noteSignature} count. The prover's own change notes, shields and self-transfers can't inflate the total.
+ */
+export type IncomeStatement = {
+  /** EVM address that signed the counted payslips */
+  employer: string;
+  /** uncompressed secp256k1 public key of `employer`. The circuit checks the signatures against it */
+  employerPublicKey: string;
+  token: string;
+  /** in token base units */
+  minAmount: string;
+  fromBlock: number;
+  toBlock: number;
+  /** note hash tree root at `toBlock` */
+  noteHashRoot: string;
+  /** size of the note hash tree at `fromBlock` */
+  fromNoteIndex: number;
+};
+
+/**
+ * Must stay JSON serializable
+ */
+export type IncomeProof = {
+  statement: IncomeStatement;
+  proof: string;
+};
+
+export type IncomeProofVerification = {
+  valid: boolean;
+  errors: string[];
+};
+
+/**
+ * Proves an {@link IncomeStatement} from the employee's payslips without revealing notes, payslips or the owner's address.
+ */
+export class IncomeProofService {
+  constructor(
+    private contract: PoolERC20,
+    private treeData: TreeDataSource,
+    private circuit: AsyncOrSync<NoirAndBackend>,
+  ) {}
+
+  async prove({
+    secretKey,
+    payslips,
+    token,
+    minAmount,
+    fromBlock,
+    toBlock,
+  }: {
+    secretKey: string;
+    /** payslips of a single employer, e.g. all the employee has */
+    payslips: Payslip[];
+    token: string;
+    minAmount: bigint;
+    fromBlock: number;
+    toBlock: number;
+  }): Promise<IncomeProof> {
+    assert(fromBlock < toBlock, "invalid block range");
+    assert(payslips.length > 0, "no payslips");
+    const employer = ethers.getAddress(payslips[0]!.employer);
+    assert(
+      payslips.every((p) => ethers.getAddress(p.employer) === employer),
+      "payslips of different employers",
+    );
+    const [treeAtFrom, treeAtTo] = await Promise.all([
+      this.contract.getNoteHashTree({ blockTag: fromBlock }),
+      this.contract.getNoteHashTree({ blockTag: toBlock }),
+    ]);
+    const fromNoteIndex = Number(treeAtFrom.nextAvailableLeafIndex);
+    // the tree as it was at `toBlock`
+    const { leaves } = await this.treeData.getNoteHashBucket({
+      bucketIndex: 0,
+      bucketHeight: NOTE_HASH_TREE_HEIGHT,
+    });
+    const leavesAtTo = leaves
+      .slice(0, Number(treeAtTo.nextAvailableLeafIndex))
+      .map((x) => BigInt(x));
+    const indexes = new Map(leavesAtTo.map((leaf, i) => [leaf, i]));
+
+    const owner = await CompleteWaAddress.fromSecretKey(secretKey);
+    const candidates = (
+      await Promise.all(
+        payslips.map(async (payslip) => {
+          const note = await Erc20Note.from({
+            owner,
+            amount: await TokenAmount.from({
+              token: payslip.token,
+              amount: BigInt(payslip.amount),
+            }),
+            randomness: payslip.note.randomness,
+          });
+          assert(
+            BigInt(await note.hash()) === BigInt(payslip.note.noteHash),
+            `payslip is not for this account: ${payslip.note.noteHash}`,
+          );
+          const index = indexes.get(BigInt(payslip.note.noteHash));
+          return payslip.token.toLowerCase() === token.toLowerCase() &&
+            index != null &&
+            index >= fromNoteIndex
+            ? [{ payslip, note, index }]
+            : [];
+        }),
+      )
+    ).flat();
+    const selected: typeof candidates = [];
+    let total = 0n;
+    for (const candidate of orderBy(
+      candidates,
+      ({ payslip }) => BigInt(payslip.amount),
+      "desc",
+    )) {
+      if (total >= minAmount || selected.length >= MAX_INCOME_NOTES) {
+        break;
+      }
+      selected.push(candidate);
+      total += BigInt(candidate.payslip.amount);
+    }
+    assert(total >= minAmount, "not enough income in the period");
+
+    const employerPublicKey = recoverEmployerPublicKey(selected[0]!.payslip);
+    const noteInputs = await Promise.all(
+      orderBy(selected, ({ index }) => index).map(
+        async ({ payslip, note, index }) => {
+          assert(
+            recoverEmployerPublicKey(payslip) === employerPublicKey,
+            `payslip is not signed by the employer: ${payslip.note.noteHash}`,
+          );
+          const { siblingPath, root } = await computeSubtreeSiblingPath(
+            leavesAtTo,
+            index,
+            NOTE_HASH_TREE_HEIGHT,
+          );
+          assert(root === BigInt(treeAtTo.root), "note hash root mismatch");
+          return {
+            inputs: {
+              note: await note.toNoir(),
+              note_index: ethers.toQuantity(index),
+              note_sibling_path: siblingPath.map((x) => ethers.toBeHex(x, 32)),
+            },
+            signature: toSignatureBytes(payslip.noteSignature),
+          };
+        },
+      ),
+    );
+    const padding = await padIncomeNote(owner);
+    const statement: IncomeStatement = {
+      employer,
+      employerPublicKey,
+      token,
+      minAmount: minAmount.toString(),
+      fromBlock,
+      toBlock,
+      noteHashRoot: treeAtTo.root,
+      fromNoteIndex,
+    };
+    const { proof } = await prove("income", await this.circuit, {
+      ...toIncomePublicInputs(statement),
+      secret_key: secretKey,
+      notes: [
+        ...noteInputs.map(({ inputs }) => inputs),
+        ...Array(MAX_INCOME_NOTES - noteInputs.length).fill(padding),
+      ],
+      employer_signatures: [
+        ...noteInputs.map(({ signature }) => signature),
+        ...Array(MAX_INCOME_NOTES - noteInputs.length).fill(Array(64).fill(0)),
+      ],
+      notes_count: noteInputs.length,
+    });
+    return { statement, proof: ethers.hexlify(proof) };
+  }
+}
+
+/**
+ * Checks the proof against its statement. Pass `employer` to require income from that employer, and `pool` to also check that the statement matches the chain. Without it, the root and the note index are trusted as is.
+ */
+export async function verifyIncomeProof(
+  { statement, proof }: IncomeProof,
+  circuit: AsyncOrSync<NoirAndBackend>,
+  { pool, employer }: { pool?: PoolERC20; employer?: string } = {},
+): Promise<IncomeProofVerification> {
+  const errors: string[] = [];
+  const { backend } = await circuit;
+  const inputs = toIncomePublicInputs(statement);
+  const publicInputs = [
+    inputs.note_hash_root,
+    inputs.from_note_index,
+    inputs.min_amount.token.inner,
+    inputs.min_amount.amount.value,
+    ...inputs.employer_public_key_x,
+    ...inputs.employer_public_key_y,
+  ].map((x) => ethers.toBeHex(x, 32));
+  const valid = await backend
+    .verifyProof(
+      { proof: ethers.getBytes(proof), publicInputs },
+      { keccak: true },
+    )
+    .catch(() => false);
+  if (!valid) {
+    errors.push("invalid proof");
+  }
+  if (
+    ethers.computeAddress(statement.employerPublicKey) !==
+    ethers.getAddress(statement.employer)
+  ) {
+    errors.push("employer does not match the public key");
+  }
+  if (
+    employer != null &&
+    ethers.getAddress(employer) !== ethers.getAddress(statement.employer)
+  ) {
+    errors.push("unexpected employer");
+  }
+  if (pool) {
+    const [treeAtFrom, treeAtTo] = await Promise.all([
+      pool.getNoteHashTree({ blockTag: statement.fromBlock }),
+      pool.getNoteHashTree({ blockTag: statement.toBlock }),
+    ]);
+    if (BigInt(treeAtTo.root) !== BigInt(statement.noteHashRoot)) {
+      errors.push("note hash root is not the pool's");
+    }
+    if (
+      BigInt(treeAtFrom.nextAvailableLeafIndex) !==
+      BigInt(statement.fromNoteIndex)
+    ) {
+      errors.push("note index does not match the start block");
+    }
+  }
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Latest block at or before `date`. Use it to turn a date range into blocks
+ */
+export async function findBlockAt(provider: ethers.Provider, date: Date) {
+  const timestamp = Math.floor(date.getTime() / 1000);
+  let low = 0;
+  let high = await provider.getBlockNumber();
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const block = await provider.getBlock(mid);
+    assert(block, `block not found: ${mid}`);
+    if (block.timestamp <= timestamp) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+function toIncomePublicInputs(statement: IncomeStatement) {
+  // 0x04 prefix, then x and y
+  const publicKey = ethers.getBytes(
+    ethers.SigningKey.computePublicKey(statement.employerPublicKey, false),
+  );
+  return {
+    note_hash_root: statement.noteHashRoot,
+    from_note_index: ethers.toQuantity(statement.fromNoteIndex),
+    min_amount: {
+      token: { inner: statement.token },
+      amount: { value: statement.minAmount },
+    },
+    employer_public_key_x: Array.from(publicKey.slice(1, 33)),
+    employer_public_key_y: Array.from(publicKey.slice(33, 65)),
+  };
+}
+
+/**
+ * Uncompressed public key that produced {@link Payslip.noteSignature}
+ */
+function recoverEmployerPublicKey(payslip: Payslip) {
+  const publicKey = ethers.SigningKey.recoverPublicKey(
+    ethers.hashMessage(getPayslipNoteMessage(payslip.note.noteHash)),
+    payslip.noteSignature,
+  );
+  assert(
+    ethers.computeAddress(publicKey) === ethers.getAddress(payslip.employer),
+    `payslip is not signed by its employer: ${payslip.note.noteHash}`,
+  );
+  return publicKey;
+}
+
+/**
+ * `r || s`, as `std::ecdsa_secp256k1::verify_signature` expects
+ */
+function toSignatureBytes(signature: string) {
+  const { r, s } = ethers.Signature.from(signature);
+  return Array.from(ethers.getBytes(ethers.concat([r, s])));
+}
+
+/**
+ * Fills unused note slots. The circuit ignores them, but they must still be valid inputs
+ */
+async function padIncomeNote(owner: CompleteWaAddress) {
+  const note = await Erc20Note.from({
+    owner,
+    amount: await TokenAmount.empty(),
+    randomness: ethers.ZeroHash,
+  });
+  return {
+    note: await note.toNoir(),
+    note_index: ethers.toQuantity(0),
+    note_sibling_path: Array(NOTE_HASH_TREE_HEIGHT).fill(ethers.ZeroHash),
+  };
+}
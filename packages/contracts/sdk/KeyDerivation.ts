@@ -0,0 +1,77 @@
+import { ethers } from "ethers";
+import { assert } from "ts-essentials";
+import { keccak256ToFr } from "./utils";
+
+/** bump to rotate the secret keys of all users. Old keys are migrated with {@link KeyMigrationService} */
+export const SECRET_KEY_VERSION = 1;
+
+export const LEGACY_SECRET_KEY_MESSAGE =
+  "Sign this message to derive a Mezcal secret key";
+
+export type SecretKeyDomain = {
+  chainId: ethers.BigNumberish;
+  /** PoolERC20 contract the key is used with */
+  pool: string;
+  version?: number;
+};
+
+/**
+ * EIP-712 typed data signed to derive the secret key. Wallets show the chain and the pool contract, and a signature for one pool can't be replayed to derive the key of another.
+ */
+export function getSecretKeyTypedData({
+  chainId,
+  pool,
+  version = SECRET_KEY_VERSION,
+}: SecretKeyDomain) {
+  return {
+    domain: {
+      name: "Mezcal",
+      version: "1",
+      chainId,
+      verifyingContract: pool,
+    } satisfies ethers.TypedDataDomain,
+    types: {
+      DeriveSecretKey: [
+        { name: "purpose", type: "string" },
+        { name: "keyVersion", type: "uint256" },
+      ],
+    },
+    value: {
+      purpose:
+        "Derive your shielded secret key. Only sign this on the Mezcal app.",
+      keyVersion: version,
+    },
+  };
+}
+
+export async function deriveSecretKey(
+  signer: ethers.Signer,
+  domain: SecretKeyDomain,
+) {
+  const { domain: typedDomain, types, value } = getSecretKeyTypedData(domain);
+  return await secretKeyFromSignature(() =>
+    signer.signTypedData(typedDomain, types, value),
+  );
+}
+
+/**
+ * Derives the key of the original static message. Only use it to migrate notes to {@link deriveSecretKey}.
+ */
+export async function deriveLegacySecretKey(signer: ethers.Signer) {
+  return await secretKeyFromSignature(() =>
+    signer.signMessage(LEGACY_SECRET_KEY_MESSAGE),
+  );
+}
+
+/**
+ * Signs twice, because a wallet with randomized signatures would derive a different key every time
+ */
+async function secretKeyFromSignature(sign: () => Promise<string>) {
+  const signature0 = await sign();
+  const signature1 = await sign();
+  assert(
+    signature0 === signature1,
+    "Secret key cannot be generated because your wallet signatures are not deterministic",
+  );
+  return (await keccak256ToFr(signature0)).toString();
+}
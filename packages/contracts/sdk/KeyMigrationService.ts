@@ -0,0 +1,111 @@
+import { utils } from "@repo/utils";
+import { assert } from "ts-essentials";
+import {
+  CompleteWaAddress,
+  type Erc20Note,
+  type PoolErc20Service,
+  type RelayerFee,
+} from "./PoolErc20Service";
+
+export type KeyMigrationEntry = {
+  token: string;
+  amount: string;
+  fromNoteHash: string;
+  /** paid to the relayer out of the note */
+  fee?: string;
+  toNoteHash?: string;
+  txHash?: string;
+  error?: string;
+};
+
+export type KeyMigrationReport = {
+  entries: KeyMigrationEntry[];
+  migrated: KeyMigrationEntry[];
+  failed: KeyMigrationEntry[];
+};
+
+/**
+ * Moves notes from a retired secret key (e.g., {@link deriveLegacySecretKey}) to its replacement.
+ *
+ * Every note is sent whole in its own private transfer, so no joins or rollups are needed in between. Notes that fail to migrate stay spendable by the old key: run the migration again to retry them.
+ *
+ * Through a relayer that charges fees, pass `getFee` (e.g., `RelayerClient.getFeeQuote`): each transfer pays the fee out of its note.
+ */
+export class KeyMigrationService {
+  constructor(private poolErc20: PoolErc20Service) {}
+
+  /**
+   * Notes of `oldSecretKey` that are not migrated yet
+   */
+  async getNotesToMigrate(oldSecretKey: string, tokens: string[]) {
+    const notes = await Promise.all(
+      tokens.map((token) =>
+        this.poolErc20.getSpendableNotesOf(token, oldSecretKey),
+      ),
+    );
+    return notes.flat().filter((note) => note.amount.amount > 0n);
+  }
+
+  async migrate({
+    oldSecretKey,
+    newSecretKey,
+    tokens,
+    getFee,
+    onProgress,
+  }: {
+    oldSecretKey: string;
+    newSecretKey: string;
+    tokens: string[];
+    getFee?: (token: string) => Promise<RelayerFee | undefined>;
+    onProgress?: (entry: KeyMigrationEntry) => void;
+  }): Promise<KeyMigrationReport> {
+    const to = await CompleteWaAddress.fromSecretKey(newSecretKey);
+    const notes = await this.getNotesToMigrate(oldSecretKey, tokens);
+    const entries: KeyMigrationEntry[] = [];
+    for (const note of notes) {
+      const entry = await this.#migrateNote(oldSecretKey, note, to, getFee);
+      entries.push(entry);
+      onProgress?.(entry);
+    }
+    return {
+      entries,
+      migrated: entries.filter((e) => e.error == null),
+      failed: entries.filter((e) => e.error != null),
+    };
+  }
+
+  async #migrateNote(
+    oldSecretKey: string,
+    note: Erc20Note,
+    to: CompleteWaAddress,
+    getFee: ((token: string) => Promise<RelayerFee | undefined>) | undefined,
+  ): Promise<KeyMigrationEntry> {
+    let entry: KeyMigrationEntry = {
+      token: note.amount.token,
+      amount: note.amount.amount.toString(),
+      fromNoteHash: await note.hash(),
+    };
+    try {
+      const fee = await getFee?.(note.amount.token);
+      if (fee) {
+        entry = { ...entry, fee: fee.amount.amount.toString() };
+        assert(
+          note.amount.amount > fee.amount.amount,
+          "note does not cover the relayer fee",
+        );
+      }
+      const { tx, toNote } = await this.poolErc20.transfer({
+        secretKey: oldSecretKey,
+        fromNote: note,
+        to,
+        amount: fee ? note.amount.sub(fee.amount) : note.amount,
+        memo: { text: "key migration" },
+        fee,
+      });
+      return { ...entry, toNoteHash: await toNote.hash(), txHash: tx.hash };
+    } catch (e) {
+      console.error("failed to migrate note", entry.fromNoteHash, e);
+      return { ...entry, error: utils.errorToString(e) };
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { utils } from "@repo/utils";
+import type { NoteStore, NoteStoreState } from "./NoteStore";
+
+/**
+ * Node.js store backed by LMDB. Pass `dataDir` to persist notes across restarts, omit it for a temporary store.
+ */
+export class LmdbNoteStore implements NoteStore {
+  #states: Promise<any> | undefined;
+
+  constructor(readonly dataDir?: string) {}
+
+  async load(owner: string) {
+    const states = await this.#open();
+    const state: string | undefined = await states.get(owner.toLowerCase());
+    return state != null ? (JSON.parse(state) as NoteStoreState) : undefined;
+  }
+
+  async save(owner: string, state: NoteStoreState) {
+    const states = await this.#open();
+    await states.set(owner.toLowerCase(), JSON.stringify(state));
+  }
+
+  #open() {
+    this.#states ??= utils.iife(async () => {
+      // @ts-ignore hardhat does not support ESM
+      const { AztecLmdbStore } = await import("@aztec/kv-store/lmdb");
+      const db = AztecLmdbStore.open(this.dataDir);
+      return db.openMap("note-store-states");
+    });
+    return this.#states;
+  }
+}
@@ -0,0 +1,87 @@
+import { utils } from "@repo/utils";
+import type { ScannedBlock } from "./NoteStore";
+import type { PoolEvent, PoolEventStore } from "./PoolEventIndexer";
+
+/**
+ * Node.js store backed by LMDB. Pass `dataDir` to keep indexed events across restarts, omit it for a temporary store.
+ */
+export class LmdbPoolEventStore implements PoolEventStore {
+  #db: Promise<any> | undefined;
+
+  constructor(readonly dataDir?: string) {}
+
+  async getScannedBlocks() {
+    const { scannedBlocks } = await this.#open();
+    const value: string | undefined = await scannedBlocks.get();
+    return value != null ? (JSON.parse(value) as ScannedBlock[]) : [];
+  }
+
+  async getEvents({
+    fromBlock,
+    toBlock,
+  }: {
+    fromBlock: number;
+    toBlock: number;
+  }) {
+    const { events } = await this.#open();
+    const result: PoolEvent[] = [];
+    for await (const value of events.values({
+      start: toEventKey(Math.max(fromBlock, 0), 0),
+      // `end` is exclusive
+      ...(Number.isFinite(toBlock) && { end: toEventKey(toBlock + 1, 0) }),
+    })) {
+      result.push(JSON.parse(value));
+    }
+    return result;
+  }
+
+  async append(newEvents: PoolEvent[], newScannedBlocks: ScannedBlock[]) {
+    const { db, events, scannedBlocks } = await this.#open();
+    await db.transaction(() => {
+      for (const event of newEvents) {
+        void events.set(
+          toEventKey(event.blockNumber, event.logIndex),
+          JSON.stringify(event),
+        );
+      }
+      void scannedBlocks.set(JSON.stringify(newScannedBlocks));
+    });
+  }
+
+  async rollback(blockNumber: number, newScannedBlocks: ScannedBlock[]) {
+    const { db, events, scannedBlocks } = await this.#open();
+    const reorgedKeys: string[] = [];
+    for await (const key of events.keys({
+      start: toEventKey(blockNumber + 1, 0),
+    })) {
+      reorgedKeys.push(key);
+    }
+    await db.transaction(() => {
+      for (const key of reorgedKeys) {
+        void events.delete(key);
+      }
+      void scannedBlocks.set(JSON.stringify(newScannedBlocks));
+    });
+  }
+
+  #open() {
+    this.#db ??= utils.iife(async () => {
+      // @ts-ignore hardhat does not support ESM
+      const { AztecLmdbStore } = await import("@aztec/kv-store/lmdb");
+      const db = AztecLmdbStore.open(this.dataDir);
+      return {
+        db,
+        events: db.openMap("pool-events"),
+        scannedBlocks: db.openSingleton("pool-event-scanned-blocks"),
+      };
+    });
+    return this.#db;
+  }
+}
+
+/**
+ * Zero padded, so keys sort in chain order
+ */
+function toEventKey(blockNumber: number, logIndex: number) {
+  return `${blockNumber.toString().padStart(12, "0")}-${logIndex.toString().padStart(6, "0")}`;
+}
@@ -1,95 +1,333 @@
 import type { ProofData } from "@aztec/bb.js";
 import type { CompiledCircuit } from "@noir-lang/noir_js";
+import { ethers } from "ethers";
+import { orderBy } from "lodash";
 import { spawn } from "node:child_process";
 import fs from "node:fs";
 import path from "node:path";
+import type { ProveOptions, ProverBackend } from "./ProvingQueue";
 import { readNativeHonkProof } from "./utils";
 
-export class NativeUltraHonkBackend {
+export type NativeUltraHonkBackendOptions = {
+  /** where circuits, witnesses, proofs and verification keys are cached. Defaults to `target` next to this file */
+  targetDir?: string;
+  /** evicts least recently used artifacts once the target dir grows above this size. Defaults to 1GB */
+  maxCacheBytes?: number;
+};
+
+/**
+ * Thrown when a bb command fails. `stderr` holds bb's own explanation.
+ */
+export class BbCommandError extends Error {
+  constructor(
+    readonly command: string,
+    readonly args: string[],
+    readonly exitCode: number | null,
+    readonly stderr: string,
+  ) {
+    // bb prints the reason last
+    const reason = stderr.trim().split("\n").at(-1);
+    super(`bb ${command} exited with code ${exitCode}: ${reason}`);
+    this.name = "BbCommandError";
+  }
+}
+
+/**
+ * UltraHonk backend that runs the native bb binary. Always uses keccak oracle hash.
+ *
+ * Proofs are cached by circuit and witness hash, so proving the same witness twice is free. The verification key is generated once per circuit.
+ */
+export class NativeUltraHonkBackend implements ProverBackend {
+  readonly targetDir: string;
+  readonly maxCacheBytes: number;
+  #circuitHash: Promise<string> | undefined;
+  #vk: Promise<Uint8Array> | undefined;
+
   constructor(
     readonly bbPath: string,
     readonly circuit: CompiledCircuit,
+    options: NativeUltraHonkBackendOptions = {},
   ) {
     this.bbPath = path.normalize(bbPath);
+    const dirname = typeof __dirname === "string" ? __dirname : "";
+    this.targetDir = path.normalize(
+      options.targetDir ?? path.join(dirname, "target"),
+    );
+    this.maxCacheBytes = options.maxCacheBytes ?? DEFAULT_MAX_CACHE_BYTES;
   }
 
-  async generateProof(witness: Uint8Array) {
-    const targetDir = await this.#makeTargetDir();
-
+  /**
+   * Aborting `options.signal` kills the bb process.
+   */
+  async generateProof(
+    witness: Uint8Array,
+    options: ProveOptions = {},
+  ): Promise<ProofData> {
     const circuitHash = await this.#getCircuitHash();
-    const witnessHash = await this.#getWitnessHash(witness);
-
-    const circuitJsonPath = path.join(targetDir, `${circuitHash}_circuit.json`);
-    const witnessOutputPath = path.join(
-      targetDir,
-      `${circuitHash}_${witnessHash}_witness.gz`,
-    );
+    const witnessHash = await sha256(witness);
     const proofOutputPath = path.join(
-      targetDir,
+      this.targetDir,
       `${circuitHash}_${witnessHash}_proof`,
     );
+    if (isProofDir(proofOutputPath)) {
+      touch(proofOutputPath);
+      return readNativeHonkProof(proofOutputPath);
+    }
 
-    fs.writeFileSync(circuitJsonPath, JSON.stringify(this.circuit));
-    fs.writeFileSync(witnessOutputPath, witness);
-    const args = [
-      "prove",
-      "--scheme",
-      "ultra_honk",
-      "-b",
-      circuitJsonPath,
-      "-w",
-      witnessOutputPath,
-      "-o",
-      proofOutputPath,
-      "--oracle_hash",
-      "keccak",
-    ];
-
-    const bbProcess = spawn(this.bbPath, args);
-    bbProcess.stdout.on("data", (data: string) => {
-      console.log(`stdout: ${data}`);
+    const circuitJsonPath = await this.#writeCircuitJson();
+    return await withInUse(proofOutputPath, async () => {
+      // bb writes into a temp dir, so concurrent provers never read a partial proof
+      const tmpPath = `${proofOutputPath}.${process.pid}.${Date.now()}.tmp`;
+      const witnessPath = path.join(tmpPath, "witness.gz");
+      fs.mkdirSync(tmpPath, { recursive: true });
+      try {
+        fs.writeFileSync(witnessPath, witness);
+        await this.#runBb(
+          "prove",
+          [
+            "--scheme",
+            "ultra_honk",
+            "-b",
+            circuitJsonPath,
+            "-w",
+            witnessPath,
+            "-o",
+            tmpPath,
+            "--oracle_hash",
+            "keccak",
+          ],
+          options.signal,
+        );
+        fs.rmSync(witnessPath);
+        fs.rmSync(proofOutputPath, { recursive: true, force: true });
+        fs.renameSync(tmpPath, proofOutputPath);
+      } finally {
+        fs.rmSync(tmpPath, { recursive: true, force: true });
+      }
+      this.#evict();
+      return readNativeHonkProof(proofOutputPath);
     });
+  }
 
-    bbProcess.stderr.on("data", (data: string) => {
-      console.error(`stderr: ${data}`);
+  async getVerificationKey(): Promise<Uint8Array> {
+    this.#vk ??= this.#loadVerificationKey().catch((e) => {
+      this.#vk = undefined;
+      throw e;
     });
+    return await this.#vk;
+  }
 
-    return await new Promise<ProofData>((resolve, reject) => {
-      bbProcess.on("close", (code: number) => {
-        if (code !== 0) {
-          reject(new Error(`Process exited with code ${code}`));
-          return;
+  /**
+   * Returns `false` if bb rejects the proof. Throws if bb fails to run.
+   */
+  async verifyProof(proofData: ProofData): Promise<boolean> {
+    const vkPath = await this.#writeVerificationKey();
+    const dir = fs.mkdtempSync(path.join(this.targetDir, "verify_"));
+    IN_USE.add(dir);
+    try {
+      const proofPath = path.join(dir, "proof");
+      const publicInputsPath = path.join(dir, "public_inputs");
+      fs.writeFileSync(proofPath, proofData.proof);
+      fs.writeFileSync(
+        publicInputsPath,
+        ethers.getBytes(
+          ethers.concat(
+            proofData.publicInputs.map((x) => ethers.toBeHex(x, 32)),
+          ),
+        ),
+      );
+      try {
+        await this.#runBb("verify", [
+          "--scheme",
+          "ultra_honk",
+          "-k",
+          vkPath,
+          "-p",
+          proofPath,
+          "-i",
+          publicInputsPath,
+          "--oracle_hash",
+          "keccak",
+        ]);
+        return true;
+      } catch (e) {
+        if (e instanceof BbCommandError && e.exitCode != null) {
+          return false;
         }
-        resolve(readNativeHonkProof(proofOutputPath));
-      });
+        throw e;
+      }
+    } finally {
+      IN_USE.delete(dir);
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  async #loadVerificationKey() {
+    return fs.readFileSync(await this.#writeVerificationKey());
+  }
 
-      bbProcess.on("error", (err) => {
-        reject(new Error(`Failed to start process: ${err.message}`));
-      });
+  async #writeVerificationKey() {
+    const circuitHash = await this.#getCircuitHash();
+    const vkDir = path.join(this.targetDir, `${circuitHash}_vk`);
+    const vkPath = path.join(vkDir, "vk");
+    if (fs.existsSync(vkPath)) {
+      touch(vkDir);
+      return vkPath;
+    }
+    const circuitJsonPath = await this.#writeCircuitJson();
+    await withInUse(vkDir, async () => {
+      const tmpPath = `${vkDir}.${process.pid}.${Date.now()}.tmp`;
+      fs.mkdirSync(tmpPath, { recursive: true });
+      try {
+        await this.#runBb("write_vk", [
+          "--scheme",
+          "ultra_honk",
+          "-b",
+          circuitJsonPath,
+          "-o",
+          tmpPath,
+          "--oracle_hash",
+          "keccak",
+        ]);
+        fs.rmSync(vkDir, { recursive: true, force: true });
+        fs.renameSync(tmpPath, vkDir);
+      } finally {
+        fs.rmSync(tmpPath, { recursive: true, force: true });
+      }
     });
+    this.#evict();
+    return vkPath;
   }
 
-  async #getCircuitHash() {
-    const input = new TextEncoder().encode(JSON.stringify(this.circuit));
-    return (
-      "0x" +
-      Buffer.from(await crypto.subtle.digest("SHA-256", input)).toString("hex")
+  async #writeCircuitJson() {
+    const circuitHash = await this.#getCircuitHash();
+    const circuitJsonPath = path.join(
+      this.targetDir,
+      `${circuitHash}_circuit.json`,
     );
+    fs.mkdirSync(this.targetDir, { recursive: true });
+    if (fs.existsSync(circuitJsonPath)) {
+      touch(circuitJsonPath);
+    } else {
+      fs.writeFileSync(circuitJsonPath, JSON.stringify(this.circuit));
+    }
+    return circuitJsonPath;
   }
 
-  async #getWitnessHash(witness: Uint8Array) {
-    return (
-      "0x" +
-      Buffer.from(await crypto.subtle.digest("SHA-256", witness)).toString(
-        "hex",
-      )
+  #getCircuitHash() {
+    this.#circuitHash ??= sha256(
+      new TextEncoder().encode(JSON.stringify(this.circuit)),
     );
+    return this.#circuitHash;
   }
 
-  async #makeTargetDir() {
-    const dirname = typeof __dirname === "string" ? __dirname : "";
-    const targetDir = path.normalize(path.join(dirname, "target"));
-    fs.mkdirSync(targetDir, { recursive: true });
-    return targetDir;
+  async #runBb(command: string, args: string[], signal?: AbortSignal) {
+    const bbProcess = spawn(this.bbPath, [command, ...args], { signal });
+    let stdout = "";
+    let stderr = "";
+    bbProcess.stdout.on("data", (data: Buffer) => {
+      stdout = (stdout + data.toString()).slice(-MAX_OUTPUT_LENGTH);
+    });
+    bbProcess.stderr.on("data", (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-MAX_OUTPUT_LENGTH);
+    });
+
+    return await new Promise<{ stdout: string; stderr: string }>(
+      (resolve, reject) => {
+        bbProcess.on("close", (code: number | null) => {
+          if (code !== 0) {
+            reject(new BbCommandError(command, args, code, stderr));
+            return;
+          }
+          resolve({ stdout, stderr });
+        });
+
+        bbProcess.on("error", (err) => {
+          if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+          }
+          reject(
+            new BbCommandError(
+              command,
+              args,
+              null,
+              `failed to start bb: ${err.message}`,
+            ),
+          );
+        });
+      },
+    );
+  }
+
+  /**
+   * Deletes least recently used artifacts until the target dir fits in `maxCacheBytes`
+   */
+  #evict() {
+    const entries = fs.readdirSync(this.targetDir).flatMap((name) => {
+      const entryPath = path.join(this.targetDir, name);
+      if (name.endsWith(".tmp") || IN_USE.has(entryPath)) {
+        return [];
+      }
+      const stat = fs.statSync(entryPath, { throwIfNoEntry: false });
+      return stat
+        ? [{ path: entryPath, mtime: stat.mtimeMs, size: diskUsage(entryPath) }]
+        : [];
+    });
+    let total = entries.reduce((acc, e) => acc + e.size, 0);
+    for (const entry of orderBy(entries, (e) => e.mtime)) {
+      if (total <= this.maxCacheBytes) {
+        break;
+      }
+      fs.rmSync(entry.path, { recursive: true, force: true });
+      total -= entry.size;
+    }
+  }
+}
+
+const DEFAULT_MAX_CACHE_BYTES = 1024 * 1024 * 1024;
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+// artifacts being written by any backend in this process. Never evicted
+const IN_USE = new Set<string>();
+
+async function withInUse<T>(entryPath: string, fn: () => Promise<T>) {
+  IN_USE.add(entryPath);
+  try {
+    return await fn();
+  } finally {
+    IN_USE.delete(entryPath);
+  }
+}
+
+async function sha256(data: Uint8Array) {
+  return (
+    "0x" +
+    Buffer.from(await crypto.subtle.digest("SHA-256", data)).toString("hex")
+  );
+}
+
+function isProofDir(dir: string) {
+  return (
+    fs.existsSync(path.join(dir, "proof")) &&
+    fs.existsSync(path.join(dir, "public_inputs"))
+  );
+}
+
+function touch(entryPath: string) {
+  const now = new Date();
+  fs.utimesSync(entryPath, now, now);
+}
+
+function diskUsage(entryPath: string): number {
+  const stat = fs.statSync(entryPath, { throwIfNoEntry: false });
+  if (!stat) {
+    return 0;
+  }
+  if (!stat.isDirectory()) {
+    return stat.size;
   }
+  return fs
+    .readdirSync(entryPath)
+    .reduce((acc, name) => acc + diskUsage(path.join(entryPath, name)), 0);
 }
@@ -1,5 +1,6 @@
 import type { Fr } from "@aztec/aztec.js";
 import type { StandardIndexedTree } from "@aztec/merkle-tree";
+import { utils } from "@repo/utils";
 import { ethers } from "ethers";
 import { assert } from "ts-essentials";
 import {
@@ -10,53 +11,48 @@ import {
 export class NonMembershipTree {
   private constructor(readonly _tree: StandardIndexedTree) {}
 
-  static async new(leaves: Fr[], depth: number) {
-    const { newTree, Poseidon, StandardIndexedTreeWithAppend } = await import(
-      "@aztec/merkle-tree"
-    );
-    const { NullifierLeaf, NullifierLeafPreimage } = await import(
-      // @ts-ignore hardhat does not support ESM
-      "@aztec/stdlib/trees"
-    );
+  static async new(leaves: Fr[], depth: number, db?: any) {
+    const { newTree, Poseidon } = await import("@aztec/merkle-tree");
     // @ts-ignore hardhat does not support ESM
     const { AztecLmdbStore } = await import("@aztec/kv-store/lmdb");
-    const db = AztecLmdbStore.open();
-    class NullifierTree extends StandardIndexedTreeWithAppend {
-      constructor(
-        store: any,
-        hasher: any,
-        name: string,
-        depth: number,
-        size: bigint = 0n,
-        _noop: any,
-        root?: Buffer,
-      ) {
-        super(
-          store,
-          hasher,
-          name,
-          depth,
-          size,
-          NullifierLeafPreimage,
-          NullifierLeaf,
-          root,
-        );
-      }
-    }
+    db ??= AztecLmdbStore.open();
     const tree = await newTree(
-      NullifierTree,
+      await getNullifierTreeClass(),
       db,
       new Poseidon(),
-      "my-tree",
+      NULLIFIER_TREE_NAME,
       { fromBuffer: (b: Buffer) => b },
       depth,
     );
-    await tree.batchInsert(
+    const nonMembershipTree = new NonMembershipTree(tree);
+    await nonMembershipTree.insert(leaves);
+    return nonMembershipTree;
+  }
+
+  /**
+   * Loads a tree previously created with {@link NonMembershipTree.new} in the same `db`
+   */
+  static async load(db: any) {
+    const { loadTree, Poseidon } = await import("@aztec/merkle-tree");
+    const tree = await loadTree(
+      await getNullifierTreeClass(),
+      db,
+      new Poseidon(),
+      NULLIFIER_TREE_NAME,
+      { fromBuffer: (b: Buffer) => b },
+    );
+    return new NonMembershipTree(tree);
+  }
+
+  /**
+   * Inserts `leaves` the same way the rollup circuit does and commits them
+   */
+  async insert(leaves: Fr[]) {
+    await this._tree.batchInsert(
       leaves.map((l) => l.toBuffer()),
       NULLIFIER_SUBTREE_HEIGHT,
     );
-    await tree.commit();
-    return new NonMembershipTree(tree);
+    await this._tree.commit();
   }
 
   getRoot() {
@@ -67,6 +63,10 @@ export class NonMembershipTree {
     return this._tree.getDepth();
   }
 
+  getNumLeaves() {
+    return this._tree.getNumLeaves(INCLUDE_UNCOMMITTED);
+  }
+
   async getNonMembershipWitness(key: Fr) {
     const keyAsBigInt = key.toBigInt();
     const lowLeafIndexData = this._tree.findIndexOfPreviousKey(
@@ -103,11 +103,55 @@ export class NonMembershipTree {
     return witness;
   }
 
+  async getLeaves() {
+    const leaves: bigint[] = [];
+    for (let i = 0n; i < this._tree.getNumLeaves(INCLUDE_UNCOMMITTED); i++) {
+      const preimage = this._tree.getLatestLeafPreimageCopy(
+        i,
+        INCLUDE_UNCOMMITTED,
+      );
+      leaves.push(preimage?.getKey() ?? 0n);
+    }
+    return leaves;
+  }
+
   async findLeafIndex(key: Fr) {
     return await this._tree.findLeafIndex(key.toBuffer(), INCLUDE_UNCOMMITTED);
   }
 }
 
+const NULLIFIER_TREE_NAME = "nullifier-tree";
+
+const getNullifierTreeClass = utils.lazyValue(async () => {
+  const { StandardIndexedTreeWithAppend } = await import("@aztec/merkle-tree");
+  const { NullifierLeaf, NullifierLeafPreimage } = await import(
+    // @ts-ignore hardhat does not support ESM
+    "@aztec/stdlib/trees"
+  );
+  return class NullifierTree extends StandardIndexedTreeWithAppend {
+    constructor(
+      store: any,
+      hasher: any,
+      name: string,
+      depth: number,
+      size: bigint = 0n,
+      _noop: any,
+      root?: Buffer,
+    ) {
+      super(
+        store,
+        hasher,
+        name,
+        depth,
+        size,
+        NullifierLeafPreimage,
+        NullifierLeaf,
+        root,
+      );
+    }
+  };
+});
+
 export interface NonMembershipWitness
   extends Awaited<ReturnType<NonMembershipTree["getNonMembershipWitness"]>> {}
 
@@ -0,0 +1,179 @@
+import { utils } from "@repo/utils";
+import { groupBy, orderBy } from "lodash";
+import ms from "ms";
+import type { AsyncOrSync } from "ts-essentials";
+import type { Erc20Note, PoolErc20Service } from "./PoolErc20Service";
+
+export type NoteConsolidationPolicy = {
+  /** joins notes of a token while it has more notes than this */
+  maxNotes: number;
+  /** notes below this amount are joined even if the token has few notes. Keyed by token address */
+  minNoteAmounts?: Record<string, bigint>;
+  /** max joins per sweep across all tokens */
+  maxJoinsPerSweep: number;
+  /** min delay between two joins */
+  minJoinInterval: number | string;
+  /** delay between background sweeps */
+  sweepInterval: number | string;
+};
+
+export const DEFAULT_NOTE_CONSOLIDATION_POLICY: NoteConsolidationPolicy = {
+  maxNotes: 8,
+  maxJoinsPerSweep: 4,
+  minJoinInterval: "10s",
+  sweepInterval: "1m",
+};
+
+export type NoteConsolidationJoin = {
+  token: string;
+  /** amounts of the joined notes */
+  inputs: string[];
+  amount: string;
+  txHash?: string;
+  error?: string;
+};
+
+export type NoteConsolidationReport = {
+  startedAt: number;
+  finishedAt: number;
+  joins: NoteConsolidationJoin[];
+};
+
+/**
+ * Joins small notes of a wallet in the background, so spending does not need many join proofs later.
+ *
+ * Only rolled up notes that are not spent by pending txs are joined. A note created by a join is picked up by a later sweep once it's rolled up.
+ */
+export class NoteConsolidationService {
+  readonly policy: NoteConsolidationPolicy;
+  #lastJoinAt = 0;
+  #sweeping = new Map<string, Promise<NoteConsolidationReport>>();
+
+  constructor(
+    private poolErc20: PoolErc20Service,
+    policy: Partial<NoteConsolidationPolicy> = {},
+  ) {
+    this.policy = { ...DEFAULT_NOTE_CONSOLIDATION_POLICY, ...policy };
+  }
+
+  /**
+   * Runs one round of joins for `tokens`. Concurrent calls for the same wallet share the same round.
+   */
+  async sweep(secretKey: string, tokens: string[]) {
+    let sweeping = this.#sweeping.get(secretKey);
+    if (!sweeping) {
+      sweeping = this.#sweep(secretKey, tokens).finally(() =>
+        this.#sweeping.delete(secretKey),
+      );
+      this.#sweeping.set(secretKey, sweeping);
+    }
+    return await sweeping;
+  }
+
+  /**
+   * Sweeps every `policy.sweepInterval` until the returned `stop` is called
+   */
+  start({
+    secretKey,
+    tokens,
+    onReport,
+  }: {
+    secretKey: string;
+    tokens: string[];
+    onReport?: (report: NoteConsolidationReport) => AsyncOrSync<void>;
+  }) {
+    let stopped = false;
+    const loop = utils.iife(async () => {
+      while (!stopped) {
+        try {
+          const report = await this.sweep(secretKey, tokens);
+          await onReport?.(report);
+        } catch (e) {
+          console.error("note consolidation failed", e);
+        }
+        await utils.sleep(this.policy.sweepInterval);
+      }
+    });
+    return {
+      /** resolves after the current sweep finishes */
+      stop: async () => {
+        stopped = true;
+        await loop;
+      },
+    };
+  }
+
+  async #sweep(
+    secretKey: string,
+    tokens: string[],
+  ): Promise<NoteConsolidationReport> {
+    const startedAt = Date.now();
+    const notes: Erc20Note[] = [];
+    for (const token of tokens) {
+      notes.push(
+        ...(await this.poolErc20.getSpendableNotesOf(token, secretKey)),
+      );
+    }
+
+    const joins: NoteConsolidationJoin[] = [];
+    for (const pair of planNoteConsolidation(notes, this.policy)) {
+      const join: NoteConsolidationJoin = {
+        token: pair[0].amount.token,
+        inputs: pair.map((note) => note.amount.amount.toString()),
+        amount: (pair[0].amount.amount + pair[1].amount.amount).toString(),
+      };
+      joins.push(join);
+
+      const wait =
+        this.#lastJoinAt + toMs(this.policy.minJoinInterval) - Date.now();
+      if (wait > 0) {
+        await utils.sleep(wait);
+      }
+      this.#lastJoinAt = Date.now();
+      try {
+        const { tx } = await this.poolErc20.join({ secretKey, notes: pair });
+        join.txHash = tx.hash;
+      } catch (e) {
+        join.error = utils.errorToString(e);
+      }
+    }
+    return { startedAt, finishedAt: Date.now(), joins };
+  }
+}
+
+/**
+ * Picks pairs of notes to join, smallest notes first. A note is in at most one pair, because a joined note can only be spent after it's rolled up.
+ */
+export function planNoteConsolidation(
+  notes: Erc20Note[],
+  policy: Pick<NoteConsolidationPolicy, "maxNotes" | "maxJoinsPerSweep"> &
+    Partial<Pick<NoteConsolidationPolicy, "minNoteAmounts">>,
+) {
+  const minNoteAmounts = new Map(
+    Object.entries(policy.minNoteAmounts ?? {}).map(([token, amount]) => [
+      token.toLowerCase(),
+      amount,
+    ]),
+  );
+  const pairs: [Erc20Note, Erc20Note][] = [];
+  const byToken = groupBy(notes, (note) => note.amount.token.toLowerCase());
+  for (const [token, tokenNotes] of Object.entries(byToken)) {
+    const sorted = orderBy(tokenNotes, (note) => note.amount.amount);
+    const minNoteAmount = minNoteAmounts.get(token) ?? 0n;
+    const dust = sorted.filter((note) => note.amount.amount < minNoteAmount);
+    // every join removes one note
+    const needed = Math.max(
+      sorted.length - policy.maxNotes,
+      Math.ceil(dust.length / 2),
+    );
+    const count = Math.min(needed, Math.floor(sorted.length / 2));
+    for (let i = 0; i < count; i++) {
+      pairs.push([sorted[2 * i]!, sorted[2 * i + 1]!]);
+    }
+  }
+  return pairs.slice(0, policy.maxJoinsPerSweep);
+}
+
+function toMs(duration: number | string) {
+  return typeof duration === "number" ? duration : ms(duration);
+}
@@ -0,0 +1,59 @@
+import { ethers } from "ethers";
+import { pickBy } from "lodash";
+import { assert } from "ts-essentials";
+
+/**
+ * Metadata a sender attaches to a note, e.g., which pay period a salary note belongs to. Only the note owner can read it.
+ *
+ * A memo is not part of the note hash, so it's not constrained by the circuits: it's only as trustworthy as its sender.
+ */
+export type NoteMemo = {
+  /** e.g., `2025-01` */
+  payPeriod?: string;
+  /** invoice number, payslip id, etc. */
+  referenceId?: string;
+  text?: string;
+};
+
+// Note: bump when the encoding changes
+const NOTE_MEMO_VERSION = 1;
+export const MAX_NOTE_MEMO_BYTES = 512;
+
+const NOTE_MEMO_TYPES = ["uint8", "string", "string", "string"];
+
+export function encodeNoteMemo(memo: NoteMemo) {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(NOTE_MEMO_TYPES, [
+    NOTE_MEMO_VERSION,
+    memo.payPeriod ?? "",
+    memo.referenceId ?? "",
+    memo.text ?? "",
+  ]);
+  assert(
+    ethers.dataLength(encoded) <= MAX_NOTE_MEMO_BYTES,
+    "note memo is too long",
+  );
+  return encoded;
+}
+
+/**
+ * Returns `undefined` for unknown versions or malformed memos, so a bad memo never hides the note itself
+ */
+export function tryDecodeNoteMemo(
+  encoded: ethers.BytesLike,
+): NoteMemo | undefined {
+  let decoded: ethers.Result;
+  try {
+    decoded = ethers.AbiCoder.defaultAbiCoder().decode(
+      NOTE_MEMO_TYPES,
+      encoded,
+    );
+  } catch (e) {
+    return undefined;
+  }
+  const [version, payPeriod, referenceId, text] = decoded;
+  if (Number(version) !== NOTE_MEMO_VERSION) {
+    return undefined;
+  }
+  // empty fields are omitted, so a memo round-trips unchanged
+  return pickBy({ payPeriod, referenceId, text });
+}
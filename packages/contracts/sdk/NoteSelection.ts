@@ -0,0 +1,120 @@
+import { utils } from "@repo/utils";
+import { orderBy } from "lodash";
+import { assert } from "ts-essentials";
+import type { Erc20Note, TokenAmount } from "./PoolErc20Service";
+
+/**
+ * A tree of 2-note joins. Leaves are existing notes, inner nodes are notes created by joining both children.
+ */
+export type JoinPlanNode =
+  | { kind: "note"; note: Erc20Note }
+  | {
+      kind: "join";
+      inputs: [JoinPlanNode, JoinPlanNode];
+      amount: bigint;
+      /** joins of the same level only spend notes of lower levels, so they can be rolled up together */
+      level: number;
+    };
+
+export type JoinPlanJoin = Extract<JoinPlanNode, { kind: "join" }>;
+
+export type SpendPlan = {
+  amount: TokenAmount;
+  /** existing notes spent by the plan */
+  notes: Erc20Note[];
+  /** note that pays `amount` once all joins are executed */
+  root: JoinPlanNode;
+  /** joins of `root` grouped by level, lowest level first */
+  levels: JoinPlanJoin[][];
+};
+
+/**
+ * Picks notes of `amount.token` that together cover `amount`.
+ *
+ * Prefers the smallest single note that is enough. Otherwise, takes the biggest notes first to minimize the number of joins.
+ */
+export function selectNotes(
+  notes: Erc20Note[],
+  amount: Pick<TokenAmount, "token" | "amount">,
+) {
+  notes = notes.filter((note) =>
+    utils.isAddressEqual(note.amount.token, amount.token),
+  );
+  const single = orderBy(
+    notes.filter((note) => note.amount.amount >= amount.amount),
+    (note) => note.amount.amount,
+  )[0];
+  if (single) {
+    return [single];
+  }
+
+  const selected: Erc20Note[] = [];
+  let total = 0n;
+  for (const note of orderBy(notes, (note) => note.amount.amount, "desc")) {
+    if (total >= amount.amount) {
+      break;
+    }
+    selected.push(note);
+    total += note.amount.amount;
+  }
+  assert(total >= amount.amount, "not enough balance");
+  return selected;
+}
+
+/**
+ * Plans the joins needed to spend `amount` from `notes` with a single note. Joins are arranged in a balanced tree, so it takes `ceil(log2(notes))` rollups to execute the plan.
+ *
+ * `joinFee` is paid out of every join, e.g., to a relayer, so the joined note is worth that much less than its inputs.
+ */
+export function planSpend(
+  notes: Erc20Note[],
+  amount: TokenAmount,
+  joinFee = 0n,
+): SpendPlan {
+  // `count` notes are joined `count - 1` times
+  const withJoinFees = (count: number) =>
+    amount.amount + joinFee * BigInt(count - 1);
+  let selected = selectNotes(notes, amount);
+  // covering the fees may take more notes, which take more joins
+  while (sumNotes(selected) < withJoinFees(selected.length)) {
+    selected = selectNotes(notes, {
+      token: amount.token,
+      amount: withJoinFees(selected.length),
+    });
+  }
+  const levels: JoinPlanJoin[][] = [];
+  let layer: JoinPlanNode[] = selected.map((note) => ({ kind: "note", note }));
+  while (layer.length > 1) {
+    const level = levels.length + 1;
+    const joins: JoinPlanJoin[] = [];
+    const next: JoinPlanNode[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      const left = layer[i]!;
+      const right = layer[i + 1];
+      if (!right) {
+        // odd node is joined at a higher level
+        next.push(left);
+        continue;
+      }
+      const join: JoinPlanJoin = {
+        kind: "join",
+        inputs: [left, right],
+        amount: joinPlanNodeAmount(left) + joinPlanNodeAmount(right) - joinFee,
+        level,
+      };
+      joins.push(join);
+      next.push(join);
+    }
+    levels.push(joins);
+    layer = next;
+  }
+  return { amount, notes: selected, root: layer[0]!, levels };
+}
+
+function sumNotes(notes: Erc20Note[]) {
+  return notes.reduce((acc, note) => acc + note.amount.amount, 0n);
+}
+
+export function joinPlanNodeAmount(node: JoinPlanNode): bigint {
+  return node.kind === "note" ? node.note.amount.amount : node.amount;
+}
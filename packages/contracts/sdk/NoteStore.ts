@@ -0,0 +1,159 @@
+import { ethers } from "ethers";
+import type { NoteMemo } from "./NoteMemo";
+
+/**
+ * Persistent state of a single note owner. Must stay JSON serializable.
+ *
+ * WARNING: contains nullifiers of the owner's notes. Treat it as sensitive as the notes themselves.
+ */
+export type NoteStoreState = {
+  /**
+   * Blocks at which previous syncs stopped, oldest first. The last one is the sync checkpoint. Older ones are kept to find a common ancestor after a reorg.
+   */
+  scannedBlocks: ScannedBlock[];
+  notes: StoredNote[];
+};
+
+export type ScannedBlock = {
+  number: number;
+  hash: string;
+};
+
+export type StoredNote = {
+  noteHash: string;
+  nullifier: string;
+  token: string;
+  amount: string;
+  randomness: string;
+  memo?: NoteMemo;
+  /** block of the `EncryptedNotes` event */
+  blockNumber: number;
+  /** block of the `NoteHashes` event that inserted the note into the note hash tree */
+  rolledUpAtBlock?: number;
+  /** block of the `Nullifiers` event that inserted the nullifier into the nullifier tree */
+  nullifiedAtBlock?: number;
+};
+
+export interface NoteStore {
+  load(owner: string): Promise<NoteStoreState | undefined>;
+  save(owner: string, state: NoteStoreState): Promise<void>;
+}
+
+// Note: how many sync checkpoints to keep for reorg detection
+export const MAX_SCANNED_BLOCKS = 32;
+
+export function emptyNoteStoreState(): NoteStoreState {
+  return { scannedBlocks: [], notes: [] };
+}
+
+/**
+ * Drops everything learned after `blockNumber`. Used to undo a reorg.
+ */
+export function rewindNoteStoreState(
+  state: NoteStoreState,
+  blockNumber: number,
+): NoteStoreState {
+  const after = (x: number | undefined) => x != null && x > blockNumber;
+  return {
+    scannedBlocks: state.scannedBlocks.filter((b) => b.number <= blockNumber),
+    notes: state.notes
+      .filter((note) => note.blockNumber <= blockNumber)
+      .map((note) => ({
+        ...note,
+        rolledUpAtBlock: after(note.rolledUpAtBlock)
+          ? undefined
+          : note.rolledUpAtBlock,
+        nullifiedAtBlock: after(note.nullifiedAtBlock)
+          ? undefined
+          : note.nullifiedAtBlock,
+      })),
+  };
+}
+
+/**
+ * Normalizes a field element so it can be compared as a string
+ */
+export function toFieldKey(value: ethers.BigNumberish) {
+  return ethers.toBeHex(value, 32);
+}
+
+/**
+ * Returns the newest scanned block that is still part of the canonical chain
+ */
+export async function findCommonAncestor(
+  provider: ethers.Provider,
+  scannedBlocks: ScannedBlock[],
+): Promise<ScannedBlock | undefined> {
+  for (const scanned of scannedBlocks.slice().reverse()) {
+    const block = await provider.getBlock(scanned.number);
+    if (block?.hash === scanned.hash) {
+      return scanned;
+    }
+  }
+  return undefined;
+}
+
+export class InMemoryNoteStore implements NoteStore {
+  #states = new Map<string, string>();
+
+  async load(owner: string) {
+    const state = this.#states.get(owner.toLowerCase());
+    return state != null ? (JSON.parse(state) as NoteStoreState) : undefined;
+  }
+
+  async save(owner: string, state: NoteStoreState) {
+    this.#states.set(owner.toLowerCase(), JSON.stringify(state));
+  }
+}
+
+/**
+ * Browser store. Keeps one record per owner in an IndexedDB object store.
+ */
+export class IndexedDbNoteStore implements NoteStore {
+  #db: Promise<IDBDatabase> | undefined;
+
+  constructor(readonly dbName = "note-store") {}
+
+  async load(owner: string) {
+    const state = await this.#request("readonly", (store) =>
+      store.get(owner.toLowerCase()),
+    );
+    return (state as NoteStoreState | undefined) ?? undefined;
+  }
+
+  async save(owner: string, state: NoteStoreState) {
+    await this.#request("readwrite", (store) =>
+      store.put(state, owner.toLowerCase()),
+    );
+  }
+
+  async #request(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest,
+  ) {
+    const db = await this.#open();
+    return await new Promise<unknown>((resolve, reject) => {
+      const request = fn(
+        db
+          .transaction(STATES_OBJECT_STORE, mode)
+          .objectStore(STATES_OBJECT_STORE),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  #open() {
+    this.#db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = globalThis.indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STATES_OBJECT_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.#db;
+  }
+}
+
+const STATES_OBJECT_STORE = "states";
@@ -0,0 +1,515 @@
+import { utils } from "@repo/utils";
+import { ethers } from "ethers";
+import { groupBy, mapValues, orderBy, pull } from "lodash";
+import ms from "ms";
+import { assert, type AsyncOrSync } from "ts-essentials";
+import { nextCronDate, parseCron } from "./Cron";
+import type { EmployeeRegistryService } from "./EmployeeRegistry";
+import {
+  CompleteWaAddress,
+  TokenAmount,
+  type PayrollBatchReport,
+  type PoolErc20Service,
+} from "./PoolErc20Service";
+import { parseShieldedAddress } from "./ShieldedAddress";
+
+export type PayrollCadence =
+  /** on `dayOfMonth`, or the last day of shorter months */
+  | { kind: "monthly"; dayOfMonth: number }
+  /** every 14 days, starting at `anchor`(ISO date) */
+  | { kind: "biweekly"; anchor: string }
+  /** 5-field cron expression in UTC, see {@link parseCron} */
+  | { kind: "cron"; expression: string };
+
+export type PayrollEmployee = {
+  id: string;
+  /** shielded address(see {@link parseShieldedAddress}), or a name or id in the {@link EmployeeRegistryService} */
+  address: string;
+  token: string;
+  /** gross amount per run, in token base units */
+  amount: string;
+  /** ISO date of the first pay date the employee is paid for */
+  effectiveFrom: string;
+  /** ISO date of the last pay date the employee is paid for */
+  effectiveUntil?: string;
+};
+
+export type PayrollSchedule = {
+  id: string;
+  cadence: PayrollCadence;
+  employees: PayrollEmployee[];
+};
+
+export type PayrollRunPayment = {
+  /** stable across retries of the run */
+  id: string;
+  employeeId: string;
+  to: string;
+  token: string;
+  amount: string;
+};
+
+/**
+ * Payments of a single run, frozen when the run is first planned. Later changes to the schedule don't affect it.
+ */
+export type PayrollRunPlan = {
+  runId: string;
+  scheduleId: string;
+  /** ISO timestamp */
+  payDate: string;
+  payments: PayrollRunPayment[];
+  /** per token, in base units */
+  totals: Record<string, string>;
+  /** commits to the fields above, so auditors can check the plan was not altered */
+  planHash: string;
+};
+
+export type PayrollRunStatus = "planned" | "running" | "succeeded" | "failed";
+
+/**
+ * Claim of the {@link PayrollScheduleService.executeRun} call that executes a run
+ */
+export type PayrollRunLease = {
+  id: string;
+  /** unix ms after which another call may take the run over. Extended on every progress update */
+  expiresAt: number;
+};
+
+/**
+ * Audit record of a run. Must stay JSON serializable
+ */
+export type PayrollRunRecord = {
+  plan: PayrollRunPlan;
+  status: PayrollRunStatus;
+  /** set while the run is `running` */
+  lease?: PayrollRunLease;
+  /** latest report of `PoolErc20Service.payrollBatch` */
+  report?: PayrollBatchReport;
+  attempts: { startedAt: number; finishedAt?: number; error?: string }[];
+};
+
+export interface PayrollRunStore {
+  load(runId: string): Promise<PayrollRunRecord | undefined>;
+  save(record: PayrollRunRecord): Promise<void>;
+  /**
+   * Atomically saves `record` if the lease id of the stored record equals `expectedLeaseId`(`undefined` if there is no record or no lease). Returns whether it was saved
+   */
+  compareAndSave(
+    record: PayrollRunRecord,
+    expectedLeaseId: string | undefined,
+  ): Promise<boolean>;
+}
+
+export class InMemoryPayrollRunStore implements PayrollRunStore {
+  #records = new Map<string, string>();
+
+  async load(runId: string) {
+    const record = this.#records.get(runId);
+    return record != null
+      ? (JSON.parse(record) as PayrollRunRecord)
+      : undefined;
+  }
+
+  async save(record: PayrollRunRecord) {
+    this.#records.set(record.plan.runId, JSON.stringify(record));
+  }
+
+  async compareAndSave(
+    record: PayrollRunRecord,
+    expectedLeaseId: string | undefined,
+  ) {
+    const stored = this.#records.get(record.plan.runId);
+    const leaseId =
+      stored != null
+        ? (JSON.parse(stored) as PayrollRunRecord).lease?.id
+        : undefined;
+    if (leaseId !== expectedLeaseId) {
+      return false;
+    }
+    this.#records.set(record.plan.runId, JSON.stringify(record));
+    return true;
+  }
+}
+
+export type PayrollScheduleOptions = {
+  /** how long a run stays claimed without progress. Must exceed the time to prove and mine a single payment */
+  leaseDuration: number | string;
+};
+
+export const DEFAULT_PAYROLL_SCHEDULE_OPTIONS: PayrollScheduleOptions = {
+  leaseDuration: "15m",
+};
+
+export type PayrollDryRun = {
+  plan: PayrollRunPlan;
+  /** spendable shielded balance per token */
+  balances: Record<string, string>;
+  /** how much has to be shielded(or joined) per token before the run can succeed */
+  shortfalls: Record<string, string>;
+  /** payments that no single note can cover, even after paying the others. Join notes first */
+  unpayable: PayrollRunPayment[];
+};
+
+/**
+ * Pays a {@link PayrollSchedule} in runs, one per pay date. Runs are recorded in a {@link PayrollRunStore}: executing a run twice never pays twice, and a failed run resumes where it stopped.
+ */
+export class PayrollScheduleService {
+  readonly options: PayrollScheduleOptions;
+
+  constructor(
+    private poolErc20: PoolErc20Service,
+    private runStore: PayrollRunStore = new InMemoryPayrollRunStore(),
+    private registry?: EmployeeRegistryService,
+    options: Partial<PayrollScheduleOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_PAYROLL_SCHEDULE_OPTIONS, ...options };
+  }
+
+  /**
+   * Returns the stored plan if the run was planned before
+   */
+  async planRun(schedule: PayrollSchedule, payDate: Date) {
+    const runId = getPayrollRunId(schedule, payDate);
+    const record = await this.runStore.load(runId);
+    return record?.plan ?? (await this.#createPlan(schedule, payDate));
+  }
+
+  /**
+   * Computes what a run needs without signing or sending anything
+   */
+  async dryRun({
+    schedule,
+    payDate,
+    secretKey,
+  }: {
+    schedule: PayrollSchedule;
+    payDate: Date;
+    secretKey: string;
+  }): Promise<PayrollDryRun> {
+    const plan = await this.planRun(schedule, payDate);
+    const record = await this.runStore.load(plan.runId);
+    const paid = new Set(
+      record?.report?.succeeded.map((entry) => entry.id) ?? [],
+    );
+    const toPay = plan.payments.filter((p) => !paid.has(p.id));
+
+    const balances: Record<string, string> = {};
+    const shortfalls: Record<string, string> = {};
+    const unpayable: PayrollRunPayment[] = [];
+    for (const [token, payments] of Object.entries(
+      groupBy(toPay, (p) => p.token.toLowerCase()),
+    )) {
+      const notes = await this.poolErc20.getSpendableNotesOf(token, secretKey);
+      const amounts = notes.map((note) => note.amount.amount);
+      const balance = amounts.reduce((acc, x) => acc + x, 0n);
+      const total = payments.reduce((acc, p) => acc + BigInt(p.amount), 0n);
+      balances[token] = balance.toString();
+      if (total > balance) {
+        shortfalls[token] = (total - balance).toString();
+      }
+      unpayable.push(...simulateSingleNotePayments(amounts, payments));
+    }
+    return { plan, balances, shortfalls, unpayable };
+  }
+
+  /**
+   * Pays every run of `schedule` due in `(after, now]` that has not succeeded yet, oldest first
+   */
+  async runDue({
+    schedule,
+    secretKey,
+    after,
+    now = new Date(),
+    onProgress,
+  }: {
+    schedule: PayrollSchedule;
+    secretKey: string;
+    after: Date;
+    now?: Date;
+    onProgress?: (record: PayrollRunRecord) => AsyncOrSync<void>;
+  }) {
+    const records: PayrollRunRecord[] = [];
+    for (const payDate of getPayDates(schedule.cadence, after, now)) {
+      records.push(
+        await this.executeRun({ schedule, payDate, secretKey, onProgress }),
+      );
+    }
+    return records;
+  }
+
+  /**
+   * Executes the run of `payDate`. Idempotent: a succeeded run is returned as is and a failed one only retries its unpaid payments.
+   *
+   * The run is claimed with a {@link PayrollRunLease} first, so overlapping calls(e.g., two cron ticks or processes sharing the store) fail instead of paying the same run twice.
+   */
+  async executeRun({
+    schedule,
+    payDate,
+    secretKey,
+    onProgress,
+  }: {
+    schedule: PayrollSchedule;
+    payDate: Date;
+    secretKey: string;
+    onProgress?: (record: PayrollRunRecord) => AsyncOrSync<void>;
+  }): Promise<PayrollRunRecord> {
+    const runId = getPayrollRunId(schedule, payDate);
+    const stored = await this.runStore.load(runId);
+    const record: PayrollRunRecord = stored ?? {
+      plan: await this.#createPlan(schedule, payDate),
+      status: "planned",
+      attempts: [],
+    };
+    if (record.status === "succeeded") {
+      return record;
+    }
+    assert(
+      record.plan.planHash === hashPayrollRunPlan(record.plan),
+      `payroll run plan was altered: ${runId}`,
+    );
+    // an expired lease belongs to a call that crashed or hangs
+    const alreadyRunning = `payroll run is already running: ${runId}`;
+    assert(
+      record.status !== "running" ||
+        record.lease == null ||
+        record.lease.expiresAt <= Date.now(),
+      alreadyRunning,
+    );
+    // `record` is `stored`, read the lease before replacing it
+    const expectedLeaseId = stored?.lease?.id;
+
+    const attempt: PayrollRunRecord["attempts"][number] = {
+      startedAt: Date.now(),
+    };
+    record.attempts.push(attempt);
+    record.status = "running";
+    record.lease = {
+      id: ethers.hexlify(ethers.randomBytes(16)),
+      expiresAt: Date.now() + toMs(this.options.leaseDuration),
+    };
+    assert(
+      await this.runStore.compareAndSave(record, expectedLeaseId),
+      alreadyRunning,
+    );
+    await onProgress?.(record);
+
+    const save = async ({ release = false } = {}) => {
+      const leaseId = record.lease!.id;
+      record.lease = release
+        ? undefined
+        : {
+            id: leaseId,
+            expiresAt: Date.now() + toMs(this.options.leaseDuration),
+          };
+      assert(
+        await this.runStore.compareAndSave(record, leaseId),
+        `payroll run was taken over by another call: ${runId}`,
+      );
+      await onProgress?.(record);
+    };
+
+    let report: PayrollBatchReport;
+    try {
+      report = await this.poolErc20.payrollBatch({
+        secretKey,
+        payments: await Promise.all(
+          record.plan.payments.map(async (payment) => ({
+            id: payment.id,
+            to: CompleteWaAddress.fromString(payment.to),
+            amount: await TokenAmount.from({
+              token: payment.token,
+              amount: BigInt(payment.amount),
+            }),
+            memo: {
+              payPeriod: record.plan.payDate.slice(0, 10),
+              referenceId: payment.id,
+            },
+          })),
+        ),
+        previousReport: record.report,
+        onProgress: async (report) => {
+          record.report = report;
+          await save();
+        },
+      });
+    } catch (e) {
+      record.status = "failed";
+      attempt.error = utils.errorToString(e);
+      attempt.finishedAt = Date.now();
+      await save({ release: true });
+      throw e;
+    }
+    record.report = report;
+    // unresolved payments keep the run open until they land
+    record.status =
+      report.succeeded.length === report.entries.length
+        ? "succeeded"
+        : "failed";
+    attempt.finishedAt = Date.now();
+    await save({ release: true });
+    return record;
+  }
+
+  /**
+   * Resolves employee addresses, so the frozen plan pays the addresses current at planning time
+   */
+  async #createPlan(schedule: PayrollSchedule, payDate: Date) {
+    const employees = await Promise.all(
+      schedule.employees
+        .filter((employee) => isEffective(employee, payDate))
+        .map(async (employee) => {
+          const address = this.registry
+            ? await this.registry.resolve(employee.address)
+            : parseShieldedAddress(employee.address);
+          return { ...employee, address: address.toString() };
+        }),
+    );
+    return createPayrollRunPlan({ ...schedule, employees }, payDate);
+  }
+}
+
+export function getPayrollRunId(schedule: PayrollSchedule, payDate: Date) {
+  return `${schedule.id}/${payDate.toISOString()}`;
+}
+
+export function createPayrollRunPlan(
+  schedule: PayrollSchedule,
+  payDate: Date,
+): PayrollRunPlan {
+  const runId = getPayrollRunId(schedule, payDate);
+  const payments = orderBy(
+    schedule.employees.filter((e) => isEffective(e, payDate)),
+    (e) => e.id,
+  ).map((employee) => ({
+    id: `${runId}/${employee.id}`,
+    employeeId: employee.id,
+    to: employee.address,
+    token: employee.token.toLowerCase(),
+    amount: BigInt(employee.amount).toString(),
+  }));
+  const totals = mapValues(
+    groupBy(payments, (p) => p.token),
+    (payments) =>
+      payments.reduce((acc, p) => acc + BigInt(p.amount), 0n).toString(),
+  );
+  const plan = {
+    runId,
+    scheduleId: schedule.id,
+    payDate: payDate.toISOString(),
+    payments,
+    totals,
+  };
+  return { ...plan, planHash: hashPayrollRunPlan(plan) };
+}
+
+export function hashPayrollRunPlan(plan: Omit<PayrollRunPlan, "planHash">) {
+  const { runId, scheduleId, payDate, payments, totals } = plan;
+  return ethers.id(
+    JSON.stringify([
+      runId,
+      scheduleId,
+      payDate,
+      payments.map((p) => [p.id, p.employeeId, p.to, p.token, p.amount]),
+      Object.entries(totals).sort(),
+    ]),
+  );
+}
+
+/**
+ * Pay dates in `(after, until]`
+ */
+export function getPayDates(
+  cadence: PayrollCadence,
+  after: Date,
+  until: Date,
+): Date[] {
+  const dates: Date[] = [];
+  for (
+    let date = nextPayDate(cadence, after);
+    date <= until;
+    date = nextPayDate(cadence, date)
+  ) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+export function nextPayDate(cadence: PayrollCadence, after: Date): Date {
+  switch (cadence.kind) {
+    case "monthly": {
+      assert(
+        Number.isInteger(cadence.dayOfMonth) &&
+          1 <= cadence.dayOfMonth &&
+          cadence.dayOfMonth <= 31,
+        "invalid day of month",
+      );
+      for (let month = after.getUTCMonth(); ; month++) {
+        const lastDay = new Date(
+          Date.UTC(after.getUTCFullYear(), month + 1, 0),
+        ).getUTCDate();
+        const date = new Date(
+          Date.UTC(
+            after.getUTCFullYear(),
+            month,
+            Math.min(cadence.dayOfMonth, lastDay),
+          ),
+        );
+        if (date > after) {
+          return date;
+        }
+      }
+    }
+    case "biweekly": {
+      const anchor = Date.parse(cadence.anchor);
+      assert(!Number.isNaN(anchor), "invalid biweekly anchor");
+      const periods = Math.floor((after.getTime() - anchor) / BIWEEKLY_MS) + 1;
+      return new Date(anchor + Math.max(periods, 0) * BIWEEKLY_MS);
+    }
+    case "cron":
+      return nextCronDate(parseCron(cadence.expression), after);
+  }
+}
+
+const BIWEEKLY_MS = 14 * 24 * 60 * 60 * 1000;
+
+function isEffective(employee: PayrollEmployee, payDate: Date) {
+  const from = Date.parse(employee.effectiveFrom);
+  assert(!Number.isNaN(from), `invalid effectiveFrom: ${employee.id}`);
+  const until =
+    employee.effectiveUntil != null
+      ? Date.parse(employee.effectiveUntil)
+      : Infinity;
+  assert(!Number.isNaN(until), `invalid effectiveUntil: ${employee.id}`);
+  return from <= payDate.getTime() && payDate.getTime() <= until;
+}
+
+/**
+ * Mirrors note selection of `payrollBatch`: each payment spends the smallest settled note that covers it, then change notes
+ */
+function simulateSingleNotePayments(
+  noteAmounts: bigint[],
+  payments: PayrollRunPayment[],
+) {
+  const available = noteAmounts.map((amount) => ({ amount, pending: false }));
+  const unpayable: PayrollRunPayment[] = [];
+  for (const payment of payments) {
+    const amount = BigInt(payment.amount);
+    const source = orderBy(
+      available.filter((note) => note.amount >= amount),
+      [(note) => note.pending, (note) => note.amount],
+    )[0];
+    if (!source) {
+      unpayable.push(payment);
+      continue;
+    }
+    pull(available, source);
+    if (source.amount > amount) {
+      available.push({ amount: source.amount - amount, pending: true });
+    }
+  }
+  return unpayable;
+}
+
+function toMs(duration: number | string) {
+  return typeof duration === "number" ? duration : ms(duration);
+}
@@ -0,0 +1,303 @@
+import { ethers } from "ethers";
+import { assert } from "ts-essentials";
+import type { PoolERC20 } from "../typechain-types";
+import { computeSubtreeSiblingPath } from "./ClientTreesService";
+import type { NoteMemo } from "./NoteMemo";
+import {
+  Erc20Note,
+  NOTE_HASH_TREE_HEIGHT,
+  poseidon2Hash,
+  TokenAmount,
+} from "./PoolErc20Service";
+import type { TreeDataSource } from "./RemoteTreesService";
+import {
+  decodeShieldedAddress,
+  encodeShieldedAddress,
+} from "./ShieldedAddress";
+
+// Note: bump when the payslip format changes
+export const PAYSLIP_VERSION = 2;
+
+/**
+ * Proof of a single salary payment. Discloses the opening of the employee's note (owner, token, amount, randomness) and its Merkle path in the note hash tree, but nothing about other notes of the pool.
+ *
+ * The randomness lets anyone find the note hash in the tree, so only share a payslip with whoever needs to verify it. It can't be used to spend or nullify the note.
+ */
+export type Payslip = {
+  version: number;
+  /** EVM address of the employer that signed the payslip */
+  employer: string;
+  /** {@link encodeShieldedAddress} of the note owner */
+  employee: string;
+  employeeName?: string;
+  token: string;
+  /** in token base units */
+  amount: string;
+  memo?: NoteMemo;
+  txHash: string;
+  /** unix seconds */
+  issuedAt: number;
+  note: {
+    noteHash: string;
+    randomness: string;
+  };
+  /** employer's `signMessage` of the 32 bytes of `note.noteHash`. Lets the employee count the note in an `IncomeProof` without disclosing it */
+  noteSignature: string;
+  inclusion: {
+    /** note hash tree root of the pool at `blockNumber` */
+    root: string;
+    blockNumber: number;
+    index: number;
+    siblingPath: string[];
+  };
+  signature: string;
+};
+
+export type PayslipVerification = {
+  valid: boolean;
+  errors: string[];
+};
+
+/**
+ * Generates payslips for notes the employer sent. The note must be rolled up.
+ *
+ * The Merkle path is computed from the whole note hash tree, so `treeData`(e.g., a remote one) does not learn which note a payslip is for.
+ */
+export class PayslipService {
+  constructor(
+    private contract: PoolERC20,
+    private treeData: TreeDataSource,
+  ) {}
+
+  async generate({
+    signer,
+    toNote,
+    txHash,
+    employeeName,
+  }: {
+    /** the employer */
+    signer: ethers.Signer;
+    /** `toNote` of `PoolErc20Service.transfer` */
+    toNote: Erc20Note;
+    txHash: string;
+    employeeName?: string;
+  }): Promise<Payslip> {
+    const noteHash = await toNote.hash();
+    const provider = this.contract.runner?.provider;
+    assert(provider, "pool contract has no provider");
+
+    // the data source may lag behind the chain, so retry until the path matches the root
+    for (let attempt = 0; ; attempt++) {
+      const blockNumber = await provider.getBlockNumber();
+      const [{ root, nextAvailableLeafIndex }, { leaves }] = await Promise.all([
+        this.contract.getNoteHashTree({ blockTag: blockNumber }),
+        this.treeData.getNoteHashBucket({
+          bucketIndex: 0,
+          bucketHeight: NOTE_HASH_TREE_HEIGHT,
+        }),
+      ]);
+      // the tree as it was at `blockNumber`
+      const leavesAtBlock = leaves
+        .slice(0, Number(nextAvailableLeafIndex))
+        .map((x) => BigInt(x));
+      const index = leavesAtBlock.indexOf(BigInt(noteHash));
+      const computed =
+        index >= 0
+          ? await computeSubtreeSiblingPath(
+              leavesAtBlock,
+              index,
+              NOTE_HASH_TREE_HEIGHT,
+            )
+          : undefined;
+      if (computed?.root === BigInt(root)) {
+        const siblingPath = computed.siblingPath.map((x) =>
+          ethers.toBeHex(x, 32),
+        );
+        const payslip: Omit<Payslip, "signature"> = {
+          version: PAYSLIP_VERSION,
+          employer: await signer.getAddress(),
+          employee: encodeShieldedAddress(toNote.owner),
+          employeeName,
+          token: toNote.amount.token,
+          amount: toNote.amount.amount.toString(),
+          memo: toNote.memo,
+          txHash,
+          issuedAt: Math.floor(Date.now() / 1000),
+          note: { noteHash, randomness: toNote.randomness },
+          noteSignature: await signer.signMessage(
+            getPayslipNoteMessage(noteHash),
+          ),
+          inclusion: { root, blockNumber, index, siblingPath },
+        };
+        return {
+          ...payslip,
+          signature: await signer.signMessage(getPayslipMessage(payslip)),
+        };
+      }
+      assert(
+        attempt < MAX_ROOT_MISMATCH_RETRIES,
+        index >= 0 ? "note hash root mismatch" : "note is not rolled up",
+      );
+    }
+  }
+}
+
+const MAX_ROOT_MISMATCH_RETRIES = 3;
+
+/**
+ * Checks a payslip without any secret: the employer signature, that the disclosed note hashes to `note.noteHash`, and that it's included in `inclusion.root`. Pass `pool` to also check the root against the chain.
+ */
+export async function verifyPayslip(
+  payslip: Payslip,
+  { pool, employer }: { pool?: PoolERC20; employer?: string } = {},
+): Promise<PayslipVerification> {
+  const errors: string[] = [];
+  const check = async (condition: () => Promise<boolean>, error: string) => {
+    try {
+      if (!(await condition())) {
+        errors.push(error);
+      }
+    } catch (e) {
+      errors.push(`${error}: ${(e as Error).message}`);
+    }
+  };
+
+  await check(
+    async () => payslip.version === PAYSLIP_VERSION,
+    "unsupported payslip version",
+  );
+  await check(async () => {
+    const { signature, ...rest } = payslip;
+    const recovered = ethers.verifyMessage(getPayslipMessage(rest), signature);
+    return recovered.toLowerCase() === payslip.employer.toLowerCase();
+  }, "invalid employer signature");
+  await check(async () => {
+    const recovered = ethers.verifyMessage(
+      getPayslipNoteMessage(payslip.note.noteHash),
+      payslip.noteSignature,
+    );
+    return recovered.toLowerCase() === payslip.employer.toLowerCase();
+  }, "invalid employer note signature");
+  if (employer != null) {
+    await check(
+      async () => employer.toLowerCase() === payslip.employer.toLowerCase(),
+      "unexpected employer",
+    );
+  }
+  await check(async () => {
+    const note = await Erc20Note.from({
+      owner: decodeShieldedAddress(payslip.employee),
+      amount: await TokenAmount.from({
+        token: payslip.token,
+        amount: BigInt(payslip.amount),
+      }),
+      randomness: payslip.note.randomness,
+    });
+    return BigInt(await note.hash()) === BigInt(payslip.note.noteHash);
+  }, "note does not match the payslip");
+  await check(async () => {
+    const { index, siblingPath, root } = payslip.inclusion;
+    assert(siblingPath.length === NOTE_HASH_TREE_HEIGHT, "invalid path length");
+    return (
+      (await computeNoteHashRoot(payslip.note.noteHash, index, siblingPath)) ===
+      BigInt(root)
+    );
+  }, "note is not in the note hash tree");
+  if (pool) {
+    await check(async () => {
+      const { root } = await pool.getNoteHashTree({
+        blockTag: payslip.inclusion.blockNumber,
+      });
+      return BigInt(root) === BigInt(payslip.inclusion.root);
+    }, "note hash root is not the pool's");
+  }
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Plain text rendering for humans. Amounts are formatted with `decimals` if given
+ */
+export function renderPayslip(
+  payslip: Payslip,
+  { symbol, decimals }: { symbol?: string; decimals?: number } = {},
+) {
+  const amount =
+    decimals != null
+      ? ethers.formatUnits(payslip.amount, decimals)
+      : payslip.amount;
+  const lines = [
+    "PAYSLIP",
+    `Employer:     ${payslip.employer}`,
+    `Employee:     ${payslip.employeeName ? `${payslip.employeeName} ` : ""}${payslip.employee}`,
+    `Amount:       ${amount} ${symbol ?? payslip.token}`,
+    payslip.memo?.payPeriod != null
+      ? `Pay period:   ${payslip.memo.payPeriod}`
+      : undefined,
+    payslip.memo?.referenceId != null
+      ? `Reference:    ${payslip.memo.referenceId}`
+      : undefined,
+    payslip.memo?.text != null
+      ? `Memo:         ${payslip.memo.text}`
+      : undefined,
+    `Issued at:    ${new Date(payslip.issuedAt * 1000).toISOString()}`,
+    `Transaction:  ${payslip.txHash}`,
+    `Note hash:    ${payslip.note.noteHash}`,
+    `Tree root:    ${payslip.inclusion.root} (block ${payslip.inclusion.blockNumber})`,
+    `Signature:    ${payslip.signature}`,
+  ];
+  return lines.filter((line) => line != null).join("\n");
+}
+
+/**
+ * Message the employer signs. Commits to every field of the payslip
+ */
+export function getPayslipMessage(payslip: Omit<Payslip, "signature">) {
+  return `Mezcal payslip ${hashPayslip(payslip)}`;
+}
+
+/**
+ * Message of {@link Payslip.noteSignature}. `erc20_income_proof` checks the same signature in the circuit
+ */
+export function getPayslipNoteMessage(noteHash: string) {
+  return ethers.getBytes(ethers.toBeHex(noteHash, 32));
+}
+
+function hashPayslip(payslip: Omit<Payslip, "signature">) {
+  const { memo, note, inclusion } = payslip;
+  return ethers.id(
+    JSON.stringify([
+      payslip.version,
+      payslip.employer.toLowerCase(),
+      payslip.employee,
+      payslip.employeeName ?? null,
+      payslip.token.toLowerCase(),
+      payslip.amount,
+      [memo?.payPeriod ?? null, memo?.referenceId ?? null, memo?.text ?? null],
+      payslip.txHash,
+      payslip.issuedAt,
+      [note.noteHash, note.randomness],
+      payslip.noteSignature,
+      [
+        inclusion.root,
+        inclusion.blockNumber,
+        inclusion.index,
+        inclusion.siblingPath,
+      ],
+    ]),
+  );
+}
+
+async function computeNoteHashRoot(
+  noteHash: string,
+  index: number,
+  siblingPath: string[],
+) {
+  let node = BigInt(noteHash);
+  for (const sibling of siblingPath) {
+    const [left, right] =
+      index % 2 === 0 ? [node, BigInt(sibling)] : [BigInt(sibling), node];
+    node = (await poseidon2Hash([left, right])).toBigInt();
+    index = Math.floor(index / 2);
+  }
+  return node;
+}
@@ -4,10 +4,26 @@ import { poseidon2Hash as aztecPoseidon2Hash } from "@aztec/foundation/crypto";
 import type { CompiledCircuit, Noir } from "@noir-lang/noir_js";
 import { utils } from "@repo/utils";
 import { ethers } from "ethers";
-import { compact, orderBy, times } from "lodash";
+import { compact, keyBy, memoize, orderBy, pull, times, uniqBy } from "lodash";
+import ms from "ms";
 import { assert, type AsyncOrSync } from "ts-essentials";
 import { type PoolERC20 } from "../typechain-types";
 import { EncryptionService } from "./EncryptionService";
+import { buildHistory, type HistoryEntry, type HistoryTx } from "./History";
+import { encodeNoteMemo, tryDecodeNoteMemo, type NoteMemo } from "./NoteMemo";
+import { planSpend, selectNotes, type JoinPlanNode } from "./NoteSelection";
+import {
+  emptyNoteStoreState,
+  findCommonAncestor,
+  InMemoryNoteStore,
+  MAX_SCANNED_BLOCKS,
+  rewindNoteStoreState,
+  toFieldKey,
+  type NoteStore,
+  type NoteStoreState,
+  type StoredNote,
+} from "./NoteStore";
+import { PoolEventIndexerService } from "./PoolEventIndexer";
 import type { ITreesService } from "./RemoteTreesService";
 import { prove, toNoirU256 } from "./utils";
 import { derivePublicKey as grumpkinDerivePublicKey, hexToBigInt, bigIntToHex, type GrumpkinPoint } from "./grumpkin";
@@ -31,6 +47,10 @@ const GENERATOR_INDEX__WA_ADDRESS = 1;
 const GENERATOR_INDEX__NOTE_NULLIFIER = 2;
 // Note: keep in sync with other languages
 const GENERATOR_INDEX__NOTE_HASH = 3;
+// Note: keep in sync with other languages
+const GENERATOR_INDEX__NULLIFIER_KEY = 4;
+// not used by circuits: notes are encrypted off-chain
+const GENERATOR_INDEX__INCOMING_VIEWING_KEY = 5;
 
 // Note: keep in sync with other languages
 export const MAX_TOKENS_IN_PER_EXECUTION = 4;
@@ -39,6 +59,12 @@ export const MAX_TOKENS_OUT_PER_EXECUTION = 4;
 
 // Note: keep in sync with other languages
 const MAX_NOTES_TO_JOIN = 2;
+// Note: keep in sync with other languages
+export const TRANSFER_ARITIES = [
+  { circuit: "transfer1x3", inputs: 1, outputs: 3 },
+  { circuit: "transfer2x4", inputs: 2, outputs: 4 },
+  { circuit: "transfer4x8", inputs: 4, outputs: 8 },
+] as const;
 
 export const INCLUDE_UNCOMMITTED = true;
 
@@ -52,9 +78,18 @@ export class PoolErc20Service {
       unshield: NoirAndBackend;
       join: NoirAndBackend;
       transfer: NoirAndBackend;
+      transfer1x3: NoirAndBackend;
+      transfer2x4: NoirAndBackend;
+      transfer4x8: NoirAndBackend;
     }>,
+    private noteStore: NoteStore = new InMemoryNoteStore(),
+    private indexer: PoolEventIndexerService = new PoolEventIndexerService(
+      contract,
+    ),
   ) {}
 
+  #syncing = new Map<string, Promise<NoteStoreState>>();
+
   async shield({
     account,
     token,
@@ -108,20 +143,23 @@ export class PoolErc20Service {
     token,
     to,
     amount,
+    fee,
   }: {
     secretKey: string;
     fromNote: Erc20Note;
     token: string;
     to: string;
     amount: bigint;
+    fee?: RelayerFee;
   }) {
     assert(utils.isAddressEqual(token, fromNote.amount.token), "invalid token");
+    const feeNote = await createFeeNote(token, fee);
     const change_randomness = await getRandomness();
     const changeNote = await Erc20Note.from({
       owner: fromNote.owner,
       amount: await TokenAmount.from({
         token: fromNote.amount.token,
-        amount: fromNote.amount.amount - amount,
+        amount: fromNote.amount.amount - amount - feeNote.amount.amount,
       }),
       randomness: change_randomness,
     });
@@ -146,6 +184,7 @@ export class PoolErc20Service {
         })
       ).toNoir(),
       change_randomness,
+      fee_note: await feeNote.toNoir(),
       // return
       nullifier: nullifier.toString(),
       change_note_hash: await changeNote.hash(),
@@ -160,6 +199,7 @@ export class PoolErc20Service {
       amount,
       nullifier.toString(),
       await this.toNoteInput(changeNote),
+      await feeNote.toSolidityNoteInput(),
       waCommitment.toString(), // For audit proof linking
     );
     const receipt = await tx.wait();
@@ -170,6 +210,7 @@ export class PoolErc20Service {
       tx,
       note: fromNote,
       changeNote,
+      feeNote,
       nullifier: nullifier.toString(),
       waCommitment: waCommitment.toString(),
       noteHash: await fromNote.hash(),
@@ -225,6 +266,7 @@ export class PoolErc20Service {
     );
     const receipt = await tx.wait(0);
     console.log("join gas used", receipt?.gasUsed);
+    return { tx, joinNote };
   }
 
   async transfer({
@@ -232,13 +274,625 @@ export class PoolErc20Service {
     fromNote,
     to,
     amount,
+    memo,
+    fee,
   }: {
     secretKey: string;
     fromNote: Erc20Note;
     to: CompleteWaAddress;
     amount: TokenAmount;
+    /** attached to the recipient's note */
+    memo?: NoteMemo;
+    fee?: RelayerFee;
+  }) {
+    const { proof, nullifier, changeNote, toNote, feeNote } =
+      await this.#proveTransfer({
+        secretKey,
+        fromNote,
+        to,
+        amount,
+        memo,
+        fee,
+      });
+
+    const tx = await this.contract.transfer(
+      proof,
+      nullifier,
+      await this.toNoteInput(changeNote),
+      await this.toNoteInput(toNote),
+      await feeNote.toSolidityNoteInput(),
+    );
+
+    const receipt = await tx.wait();
+    console.log("transfer gas used", receipt?.gasUsed);
+    // console.log("nullifier", nullifier.toString());
+    return {
+      tx,
+      nullifier,
+      changeNote,
+      toNote,
+      feeNote,
+    };
+  }
+
+  /**
+   * Spends `fromNotes` and pays every output with one proof, e.g., net salary, tax withholding and pension. Either all of them are paid or none.
+   *
+   * Uses the smallest of {@link TRANSFER_ARITIES} that fits. Unused slots are filled with {@link Erc20Note.empty}. A `fee` takes one more output.
+   */
+  async transferMany({
+    secretKey,
+    fromNotes,
+    outputs,
+    fee,
+  }: {
+    secretKey: string;
+    fromNotes: Erc20Note[];
+    outputs: TransferOutput[];
+    fee?: RelayerFee;
+  }) {
+    const { proof, nullifiers, changeNote, toNotes } =
+      await this.#proveTransferMany({
+        secretKey,
+        fromNotes,
+        outputs: fee
+          ? [...outputs, { to: fee.to, amount: fee.amount }]
+          : outputs,
+      });
+
+    const tx = await this.contract.transferMany(
+      proof,
+      nullifiers,
+      await changeNote.toSolidityNoteInput(),
+      await Promise.all(toNotes.map((note) => note.toSolidityNoteInput())),
+    );
+
+    const receipt = await tx.wait();
+    console.log("transferMany gas used", receipt?.gasUsed);
+    return {
+      tx,
+      // padding is not returned
+      nullifiers: nullifiers.slice(0, fromNotes.length),
+      changeNote,
+      toNotes: toNotes.slice(0, outputs.length),
+      feeNote: fee ? toNotes[outputs.length]! : await Erc20Note.empty(),
+    };
+  }
+
+  /**
+   * {@link transferMany} from the balance of `secretKey`. Spends the notes directly if they fit in one transfer, otherwise joins them first (see {@link planSpend}).
+   */
+  async transferManyFromBalance({
+    secretKey,
+    outputs,
+    fee,
+    ...options
+  }: SpendFromBalanceOptions & {
+    secretKey: string;
+    outputs: TransferOutput[];
+    fee?: RelayerFee;
+  }) {
+    assert(outputs.length > 0, "no outputs");
+    const token = outputs[0]!.amount.token;
+    assert(
+      outputs.every((o) => utils.isAddressEqual(o.amount.token, token)),
+      "outputs must be of the same token",
+    );
+    const total = await TokenAmount.from({
+      token,
+      amount:
+        outputs.reduce((acc, o) => acc + o.amount.amount, 0n) +
+        (fee?.amount.amount ?? 0n),
+    });
+    const notes = options.notes
+      ? await this.#withoutPendingNullifiers(secretKey, options.notes)
+      : await this.getSpendableNotesOf(token, secretKey);
+    const selected = selectNotes(notes, total);
+    if (findTransferArity(selected.length, outputs.length + (fee ? 1 : 0))) {
+      const result = await this.transferMany({
+        secretKey,
+        fromNotes: selected,
+        outputs,
+        fee,
+      });
+      return { ...result, plan: undefined, joinNotes: [] as Erc20Note[] };
+    }
+    const { note, plan, joinNotes } = await this.#executeSpendPlan(
+      secretKey,
+      total,
+      { ...options, notes },
+      fee,
+    );
+    const result = await this.transferMany({
+      secretKey,
+      fromNotes: [note],
+      outputs,
+      fee,
+    });
+    return { ...result, plan, joinNotes };
+  }
+
+  /**
+   * Transfers `amount` from the balance of `secretKey`. If no single note is enough, joins notes first (see {@link planSpend}).
+   */
+  async transferFromBalance({
+    secretKey,
+    to,
+    amount,
+    memo,
+    fee,
+    ...options
+  }: SpendFromBalanceOptions & {
+    secretKey: string;
+    to: CompleteWaAddress;
+    amount: TokenAmount;
+    memo?: NoteMemo;
+    fee?: RelayerFee;
+  }) {
+    const { note, plan, joinNotes } = await this.#executeSpendPlan(
+      secretKey,
+      fee ? amount.add(fee.amount) : amount,
+      options,
+      fee,
+    );
+    const result = await this.transfer({
+      secretKey,
+      fromNote: note,
+      to,
+      amount,
+      memo,
+      fee,
+    });
+    return { ...result, plan, joinNotes };
+  }
+
+  /**
+   * Unshields `amount` from the balance of `secretKey`. If no single note is enough, joins notes first (see {@link planSpend}).
+   */
+  async unshieldFromBalance({
+    secretKey,
+    to,
+    amount,
+    fee,
+    ...options
+  }: SpendFromBalanceOptions & {
+    secretKey: string;
+    to: string;
+    amount: TokenAmount;
+    fee?: RelayerFee;
+  }) {
+    const { note, plan, joinNotes } = await this.#executeSpendPlan(
+      secretKey,
+      fee ? amount.add(fee.amount) : amount,
+      options,
+      fee,
+    );
+    const result = await this.unshield({
+      secretKey,
+      fromNote: note,
+      token: amount.token,
+      to,
+      amount: amount.amount,
+      fee,
+    });
+    return { ...result, plan, joinNotes };
+  }
+
+  /**
+   * Runs the joins of a spend plan level by level and returns the note that covers `amount`.
+   *
+   * With a `fee`, every join pays it too: a relayer that charges fees does not relay {@link join}, so notes are joined with a {@link transferMany} that only pays the fee.
+   */
+  async #executeSpendPlan(
+    secretKey: string,
+    amount: TokenAmount,
+    { notes, onJoinsSent, waitForNote }: SpendFromBalanceOptions,
+    fee?: RelayerFee,
+  ) {
+    waitForNote ??= (note) => this.#waitForNoteRolledUp(secretKey, note);
+    notes = notes
+      ? await this.#withoutPendingNullifiers(secretKey, notes)
+      : await this.getSpendableNotesOf(amount.token, secretKey);
+    const plan = planSpend(notes, amount, fee?.amount.amount);
+
+    const joined = new Map<JoinPlanNode, Erc20Note>();
+    const resolve = (node: JoinPlanNode) => {
+      const note = node.kind === "note" ? node.note : joined.get(node);
+      assert(note, "join is not executed yet");
+      return note;
+    };
+    const joinNotes: Erc20Note[] = [];
+    for (const level of plan.levels) {
+      const levelNotes: Erc20Note[] = [];
+      for (const join of level) {
+        const inputs = join.inputs.map(resolve);
+        const joinNote = fee
+          ? (
+              await this.transferMany({
+                secretKey,
+                fromNotes: inputs,
+                outputs: [],
+                fee,
+              })
+            ).changeNote
+          : (await this.join({ secretKey, notes: inputs })).joinNote;
+        joined.set(join, joinNote);
+        levelNotes.push(joinNote);
+      }
+      joinNotes.push(...levelNotes);
+      await onJoinsSent?.(levelNotes);
+      // joined notes must be rolled up before they can be spent
+      for (const note of levelNotes) {
+        await waitForNote(note);
+      }
+    }
+    return { note: resolve(plan.root), plan, joinNotes };
+  }
+
+  /**
+   * Drops notes that are spent by pending txs that are not rolled up yet
+   */
+  async #withoutPendingNullifiers(
+    key: string | ViewingKey,
+    notes: Erc20Note[],
+    pendingTxs?: Awaited<ReturnType<PoolERC20["getAllPendingTxs"]>>,
+  ) {
+    pendingTxs ??= await this.contract.getAllPendingTxs();
+    const pendingNullifiers = new Set(
+      pendingTxs
+        .filter((tx) => !tx.rolledUp)
+        .flatMap((tx) => tx.nullifiers.map((n) => BigInt(n))),
+    );
+    const viewingKey = await ViewingKey.from(key);
+    const result: Erc20Note[] = [];
+    for (const note of notes) {
+      const nullifier = await note.computeNullifier(viewingKey);
+      if (!pendingNullifiers.has(nullifier.toBigInt())) {
+        result.push(note);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Pays every entry of `payments` with a separate shielded transfer.
+   *
+   * Source notes are picked from `notes`(defaults to all spendable notes of the owner). Change notes are reused for the next payments once they are rolled up (see `waitForNote`).
+   *
+   * Every entry is reported as `submitted` (with its nullifier and recipient note hash) through `onProgress` BEFORE the tx is sent. Persist the report there and pass it back as `previousReport` after a crash: entries that already landed on chain are detected and never paid twice.
+   *
+   * `submitted` entries are reconciled by their nullifier: the pool keeps every tx it accepted, so an entry is `succeeded` if the tx that spent its source note created its recipient note, and paid again if another tx spent the note. Until `txTimeout`, their txs are polled together. After it, the source note of an entry whose tx the node does not know is spent back to the owner, so the lost tx can never land and the entry is paid again. Entries still not found stay `submitted` (see {@link PayrollBatchReport.unresolved}) and are not paid again until a later run resolves them.
+   */
+  async payrollBatch({
+    secretKey,
+    payments,
+    notes,
+    previousReport,
+    onProgress,
+    waitForNote,
+    txTimeout = "10m",
+  }: {
+    secretKey: string;
+    payments: PayrollPayment[];
+    notes?: Erc20Note[];
+    previousReport?: Pick<PayrollBatchReport, "entries">;
+    onProgress?: (report: PayrollBatchReport) => AsyncOrSync<void>;
+    /**
+     * Called when a payment has to spend a change note that is not rolled up yet. Defaults to polling the trees.
+     */
+    waitForNote?: (note: Erc20Note) => Promise<unknown>;
+    /** how long to wait for a payment tx to be mined before leaving its entry `submitted`. Also bounds the reconciliation of all entries of a previous run */
+    txTimeout?: number | string;
+  }): Promise<PayrollBatchReport> {
+    assert(
+      uniqBy(payments, (p) => p.id).length === payments.length,
+      "duplicate payment ids",
+    );
+    waitForNote ??= (note) => this.#waitForNoteRolledUp(secretKey, note);
+
+    const previousEntries = keyBy(previousReport?.entries ?? [], (e) => e.id);
+    const entries = payments.map((payment): PayrollEntryReport => {
+      const previous = previousEntries[payment.id];
+      if (previous) {
+        return { ...previous };
+      }
+      return {
+        id: payment.id,
+        to: payment.to.toString(),
+        token: payment.amount.token,
+        amount: payment.amount.amount.toString(),
+        status: "pending",
+      };
+    });
+    const report = () => toPayrollBatchReport(entries);
+
+    // reconcile entries of a previous run that may have reached the chain
+    const { pendingTxs, returnedNotes } = await this.#reconcilePayrollEntries(
+      secretKey,
+      entries,
+      { notes, txTimeout },
+    );
+
+    // the tx of an unresolved entry may still land, so its source note is never spent again. Otherwise the recipient could be paid twice
+    const unresolvedNullifiers = new Set(
+      entries
+        .filter((e) => e.status === "submitted")
+        .map((e) => BigInt(e.nullifier!)),
+    );
+    const returnedNoteHashes = new Set(
+      await Promise.all(returnedNotes.map(async (note) => await note.hash())),
+    );
+    const available: { note: Erc20Note; pending: boolean }[] = [];
+    for (const note of await this.#withoutPendingNullifiers(
+      secretKey,
+      notes ?? (await this.getEmittedNotes(secretKey)),
+      pendingTxs,
+    )) {
+      const nullifier = await note.computeNullifier(secretKey);
+      if (
+        !unresolvedNullifiers.has(nullifier.toBigInt()) &&
+        !returnedNoteHashes.has(await note.hash())
+      ) {
+        available.push({ note, pending: false });
+      }
+    }
+    available.push(...returnedNotes.map((note) => ({ note, pending: true })));
+
+    for (const [i, payment] of payments.entries()) {
+      const entry = entries[i]!;
+      if (entry.status === "succeeded" || entry.status === "submitted") {
+        continue;
+      }
+
+      const source = orderBy(
+        available.filter(
+          ({ note }) =>
+            utils.isAddressEqual(note.amount.token, payment.amount.token) &&
+            note.amount.amount >= payment.amount.amount,
+        ),
+        [({ pending }) => pending, ({ note }) => note.amount.amount],
+      )[0];
+      if (!source) {
+        Object.assign(entry, {
+          status: "failed",
+          error: "not enough balance in a single note",
+          retryable: false,
+        } satisfies Partial<PayrollEntryReport>);
+        await onProgress?.(report());
+        continue;
+      }
+      pull(available, source);
+
+      let sent = false;
+      try {
+        if (source.pending) {
+          await waitForNote(source.note);
+        }
+        const { proof, nullifier, changeNote, toNote, feeNote } =
+          await this.#proveTransfer({
+            secretKey,
+            fromNote: source.note,
+            to: payment.to,
+            amount: payment.amount,
+            memo: payment.memo,
+          });
+        Object.assign(entry, {
+          status: "submitted",
+          nullifier,
+          toNoteHash: await toNote.hash(),
+          error: undefined,
+          retryable: undefined,
+        } satisfies Partial<PayrollEntryReport>);
+        await onProgress?.(report());
+
+        sent = true;
+        const tx = await this.contract.transfer(
+          proof,
+          nullifier,
+          await this.toNoteInput(changeNote),
+          await this.toNoteInput(toNote),
+          await feeNote.toSolidityNoteInput(),
+        );
+        entry.txHash = tx.hash;
+        await onProgress?.(report());
+        await tx.wait(1, toMs(txTimeout));
+        entry.status = "succeeded";
+
+        if (changeNote.amount.amount > 0n) {
+          available.push({ note: changeNote, pending: true });
+        }
+      } catch (e) {
+        if (sent && !ethers.isError(e, "CALL_EXCEPTION")) {
+          // dropped, timed out or failed after broadcasting: the tx may still land
+          Object.assign(entry, {
+            status: "submitted",
+            error: `${UNRESOLVED_PAYMENT_ERROR}: ${utils.errorToString(e)}`,
+            retryable: undefined,
+          } satisfies Partial<PayrollEntryReport>);
+        } else {
+          // the note was not spent, so it can pay for the next entries
+          available.push(source);
+          Object.assign(entry, {
+            status: "failed",
+            nullifier: undefined,
+            toNoteHash: undefined,
+            txHash: undefined,
+            error: utils.errorToString(e),
+            retryable: true,
+          } satisfies Partial<PayrollEntryReport>);
+        }
+      }
+      await onProgress?.(report());
+    }
+
+    return report();
+  }
+
+  /**
+   * Resolves the `submitted` entries of `entries` in place, see {@link payrollBatch}. Returns the pool's txs after reconciliation and the notes that lost txs were returned to
+   */
+  async #reconcilePayrollEntries(
+    secretKey: string,
+    entries: PayrollEntryReport[],
+    {
+      notes,
+      txTimeout,
+    }: { notes: Erc20Note[] | undefined; txTimeout: number | string },
+  ) {
+    const provider = this.contract.runner?.provider;
+    assert(provider, "contract is not connected to a provider");
+    const deadline = Date.now() + toMs(txTimeout);
+    const returnedNotes: Erc20Note[] = [];
+    let unresolved = entries.filter(
+      (e) =>
+        e.status !== "succeeded" && e.nullifier != null && e.toNoteHash != null,
+    );
+    let returned = false;
+    for (;;) {
+      const pendingTxs = await this.contract.getAllPendingTxs();
+      const spentBy = new Map<bigint, (typeof pendingTxs)[number]>();
+      for (const tx of pendingTxs) {
+        for (const nullifier of tx.nullifiers) {
+          spentBy.set(BigInt(nullifier), tx);
+        }
+      }
+      const receipts = await Promise.all(
+        unresolved.map((e) =>
+          e.txHash != null ? provider.getTransactionReceipt(e.txHash) : null,
+        ),
+      );
+      unresolved = unresolved.filter((entry, i) => {
+        const tx = spentBy.get(BigInt(entry.nullifier!));
+        const receipt = receipts[i];
+        if (
+          tx?.noteHashes.some((h) => BigInt(h) === BigInt(entry.toNoteHash!))
+        ) {
+          Object.assign(entry, {
+            status: "succeeded",
+            error: undefined,
+            retryable: undefined,
+          } satisfies Partial<PayrollEntryReport>);
+          return false;
+        }
+        if (tx || receipt?.status === 0) {
+          // reverted, or its source note was spent by another tx, so it can never land. The entry is paid again
+          Object.assign(entry, {
+            status: "pending",
+            nullifier: undefined,
+            toNoteHash: undefined,
+            txHash: undefined,
+            error: undefined,
+            retryable: undefined,
+          } satisfies Partial<PayrollEntryReport>);
+          return false;
+        }
+        Object.assign(entry, {
+          status: "submitted",
+          error: UNRESOLVED_PAYMENT_ERROR,
+          retryable: undefined,
+        } satisfies Partial<PayrollEntryReport>);
+        return true;
+      });
+      if (unresolved.length === 0 || returned) {
+        return { pendingTxs, returnedNotes };
+      }
+      if (Date.now() < deadline) {
+        await utils.sleep("2s");
+        continue;
+      }
+
+      // a tx the node does not know may be lost, and its entry would never resolve. Spending its source note makes sure it can't land anymore
+      returned = true;
+      const notesByNullifier = new Map(
+        await Promise.all(
+          (notes ?? (await this.getEmittedNotes(secretKey))).map(
+            async (note) =>
+              [
+                (await note.computeNullifier(secretKey)).toBigInt(),
+                note,
+              ] as const,
+          ),
+        ),
+      );
+      for (const entry of unresolved) {
+        if (
+          entry.txHash != null &&
+          (await provider.getTransaction(entry.txHash))
+        ) {
+          continue;
+        }
+        const source = notesByNullifier.get(BigInt(entry.nullifier!));
+        if (!source) {
+          continue;
+        }
+        try {
+          const { changeNote } = await this.transferMany({
+            secretKey,
+            fromNotes: [source],
+            outputs: [],
+          });
+          returnedNotes.push(changeNote);
+        } catch (e) {
+          // e.g., the lost tx landed first. The next check tells
+          console.error("failed to return payment source note", entry.id, e);
+        }
+      }
+    }
+  }
+
+  /**
+   * `key` is the spending key or a {@link ViewingKey} of the account
+   */
+  async balanceOfNew(token: ethers.AddressLike, key: string | ViewingKey) {
+    const notes = await this.getBalanceNotesOf(token, key);
+    const balance = notes.reduce((acc, note) => acc + note.amount.amount, 0n);
+    return [balance, notes] as const;
+  }
+
+  /** @deprecated use .balanceOfNew */
+  async balanceOf(token: ethers.AddressLike, key: string | ViewingKey) {
+    const notes = await this.getBalanceNotesOf(token, key);
+    return notes.reduce((acc, note) => acc + note.amount.amount, 0n);
+  }
+
+  async getBalanceNotesOf(token: ethers.AddressLike, key: string | ViewingKey) {
+    token = await ethers.resolveAddress(token);
+    const notes = await this.getEmittedNotes(key);
+    return notes.filter(
+      (note) => note.amount.token.toLowerCase() === token.toLowerCase(),
+    );
+  }
+
+  /**
+   * Like {@link getBalanceNotesOf}, but also drops notes spent by pending txs that are not rolled up yet
+   */
+  async getSpendableNotesOf(
+    token: ethers.AddressLike,
+    key: string | ViewingKey,
+  ) {
+    return await this.#withoutPendingNullifiers(
+      key,
+      await this.getBalanceNotesOf(token, key),
+    );
+  }
+
+  async #proveTransfer({
+    secretKey,
+    fromNote,
+    to,
+    amount,
+    memo,
+    fee,
+  }: {
+    secretKey: string;
+    fromNote: Erc20Note;
+    to: CompleteWaAddress;
+    amount: TokenAmount;
+    memo?: NoteMemo;
+    fee?: RelayerFee;
   }) {
     const nullifier = await fromNote.computeNullifier(secretKey);
+    const feeNote = await createFeeNote(amount.token, fee);
 
     const to_randomness = await getRandomness();
     const change_randomness = await getRandomness();
@@ -252,10 +906,11 @@ export class PoolErc20Service {
       amount: await amount.toNoir(),
       to_randomness,
       change_randomness,
+      fee_note: await feeNote.toNoir(),
     };
     const changeNote = await Erc20Note.from({
       owner: fromNote.owner,
-      amount: fromNote.amount.sub(amount),
+      amount: fromNote.amount.sub(amount).sub(feeNote.amount),
       randomness: change_randomness,
     });
     assert(changeNote.amount.amount >= 0n, "invalid change note");
@@ -263,47 +918,107 @@ export class PoolErc20Service {
       owner: to,
       amount,
       randomness: to_randomness,
+      memo,
     });
     // console.log("input\n", JSON.stringify(input));
     const transferCircuit = (await this.circuits).transfer;
     const { proof } = await prove("transfer", transferCircuit, input);
-
-    const tx = await this.contract.transfer(
-      proof,
-      nullifier.toString(),
-      await this.toNoteInput(changeNote),
-      await this.toNoteInput(toNote),
-    );
-
-    const receipt = await tx.wait();
-    console.log("transfer gas used", receipt?.gasUsed);
-    // console.log("nullifier", nullifier.toString());
     return {
-      tx,
+      proof,
       nullifier: nullifier.toString(),
       changeNote,
       toNote,
+      feeNote,
     };
   }
 
-  async balanceOfNew(token: ethers.AddressLike, secretKey: string) {
-    const notes = await this.getBalanceNotesOf(token, secretKey);
-    const balance = notes.reduce((acc, note) => acc + note.amount.amount, 0n);
-    return [balance, notes] as const;
-  }
+  async #proveTransferMany({
+    secretKey,
+    fromNotes,
+    outputs,
+  }: {
+    secretKey: string;
+    fromNotes: Erc20Note[];
+    outputs: TransferOutput[];
+  }) {
+    const arity = findTransferArity(fromNotes.length, outputs.length);
+    assert(
+      arity,
+      `unsupported transfer arity: ${fromNotes.length} inputs, ${outputs.length} outputs`,
+    );
+    assert(fromNotes.length > 0, "no notes to spend");
+    const token = fromNotes[0]!.amount.token;
+    for (const amount of [
+      ...fromNotes.map((note) => note.amount),
+      ...outputs.map((output) => output.amount),
+    ]) {
+      assert(utils.isAddressEqual(amount.token, token), "invalid token");
+    }
 
-  /** @deprecated use .balanceOfNew */
-  async balanceOf(token: ethers.AddressLike, secretKey: string) {
-    const notes = await this.getBalanceNotesOf(token, secretKey);
-    return notes.reduce((acc, note) => acc + note.amount.amount, 0n);
-  }
+    const empty = await Erc20Note.empty();
+    const toNotes = [
+      ...(await Promise.all(
+        outputs.map(async ({ to, amount, memo }) =>
+          Erc20Note.from({
+            owner: to,
+            amount,
+            randomness: await getRandomness(),
+            memo,
+          }),
+        ),
+      )),
+      ...times(arity.outputs - outputs.length, () => empty),
+    ];
+    const change_randomness = await getRandomness();
+    const changeNote = await Erc20Note.from({
+      owner: await CompleteWaAddress.fromSecretKey(secretKey),
+      amount: await TokenAmount.from({
+        token,
+        amount:
+          fromNotes.reduce((acc, note) => acc + note.amount.amount, 0n) -
+          outputs.reduce((acc, output) => acc + output.amount.amount, 0n),
+      }),
+      randomness: change_randomness,
+    });
+    assert(changeNote.amount.amount >= 0n, "invalid change note");
 
-  async getBalanceNotesOf(token: ethers.AddressLike, secretKey: string) {
-    token = await ethers.resolveAddress(token);
-    const notes = await this.getEmittedNotes(secretKey);
-    return notes.filter(
-      (note) => note.amount.token.toLowerCase() === token.toLowerCase(),
+    const paddedFromNotes = [
+      ...fromNotes,
+      ...times(arity.inputs - fromNotes.length, () => empty),
+    ];
+    const input = {
+      tree_roots: await this.trees.getTreeRoots(),
+      from_secret_key: secretKey,
+      from_notes: await Promise.all(
+        paddedFromNotes.map((note) =>
+          note.isEmpty()
+            ? emptyNoteConsumptionInputs()
+            : this.toNoteConsumptionInputs(secretKey, note),
+        ),
+      ),
+      to_notes: await Promise.all(toNotes.map((note) => note.toNoir())),
+      change_randomness,
+    };
+    const circuit = (await this.circuits)[arity.circuit];
+    const { proof } = await prove(arity.circuit, circuit, input);
+    const nullifiers = await Promise.all(
+      paddedFromNotes.map(async (note) =>
+        note.isEmpty()
+          ? ethers.ZeroHash
+          : (await note.computeNullifier(secretKey)).toString(),
+      ),
     );
+    return { proof, nullifiers, changeNote, toNotes };
+  }
+
+  async #waitForNoteRolledUp(secretKey: string, note: Erc20Note) {
+    const params = {
+      noteHash: await note.hash(),
+      nullifier: (await note.computeNullifier(secretKey)).toString(),
+    };
+    while (!(await this.trees.noteExistsAndNotNullified(params))) {
+      await utils.sleep("2s");
+    }
   }
 
   async toNoteConsumptionInputs(secretKey: string, note: Erc20Note) {
@@ -325,29 +1040,173 @@ export class PoolErc20Service {
     return await note.toSolidityNoteInput();
   }
 
-  private async getEmittedNotes(secretKey: string) {
-    const { address } = await CompleteWaAddress.fromSecretKey(secretKey);
-    const encrypted = sortEvents(
-      await this.contract.queryFilter(this.contract.filters.EncryptedNotes()),
-    )
-      .map((e) => e.args.encryptedNotes.map((note) => note.encryptedNote))
-      .flat();
-    const publicKey = await this.encryption.derivePublicKey(secretKey);
-    const decrypted = encrypted.map(async (encryptedNote) => {
-      const note = await Erc20Note.tryDecrypt(
-        secretKey,
-        publicKey,
-        encryptedNote,
+  private async getEmittedNotes(key: string | ViewingKey) {
+    const viewingKey = await ViewingKey.from(key);
+    const owner = viewingKey.address;
+    const { notes } = await this.syncNotes(viewingKey);
+    return await Promise.all(
+      notes
+        .filter(
+          (note) =>
+            note.rolledUpAtBlock != null && note.nullifiedAtBlock == null,
+        )
+        .map(async (note) =>
+          Erc20Note.from({
+            owner,
+            amount: await TokenAmount.from({
+              token: note.token,
+              amount: BigInt(note.amount),
+            }),
+            randomness: note.randomness,
+            memo: note.memo,
+          }),
+        ),
+    );
+  }
+
+  /**
+   * Scans blocks produced since the last sync for notes of `key` and updates the note store. Rewinds the store if a reorg happened.
+   *
+   * A {@link ViewingKey} is enough to sync, so balances and history can be read without spend authority. It does not find notes encrypted under the legacy derivation, see {@link ViewingKey.legacyIncomingViewingKey}.
+   */
+  async syncNotes(key: string | ViewingKey) {
+    const viewingKey = await ViewingKey.from(key);
+    // a viewing key finds fewer notes, so it must not mark blocks as scanned for the spending key
+    const storeKey =
+      viewingKey.legacyIncomingViewingKey != null
+        ? viewingKey.address.address
+        : `${viewingKey.address.address}:view`;
+    let syncing = this.#syncing.get(storeKey);
+    if (!syncing) {
+      syncing = this.#syncNotes(viewingKey, storeKey).finally(() =>
+        this.#syncing.delete(storeKey),
       );
-      if (!note) {
-        return undefined;
-      }
+      this.#syncing.set(storeKey, syncing);
+    }
+    return await syncing;
+  }
 
-      const noteValid: boolean = await this.trees.noteExistsAndNotNullified({
-        noteHash: await note.hash(),
-        nullifier: (await note.computeNullifier(secretKey)).toString(),
-      });
-      if (!noteValid) {
+  /**
+   * Shields, transfers, unshields, joins and swaps that created or spent notes of `key`, oldest first. Export with {@link historyToCsv} or {@link historyToJson}.
+   */
+  async getHistory(key: string | ViewingKey): Promise<HistoryEntry[]> {
+    const { notes } = await this.syncNotes(key);
+    if (notes.length === 0) {
+      return [];
+    }
+    const provider = this.contract.runner?.provider;
+    assert(provider, "contract is not connected to a provider");
+
+    const pendingTxs = await this.contract.getAllPendingTxs();
+    const noteHashes = new Set(notes.map((note) => note.noteHash));
+    const nullifiers = new Set(notes.map((note) => note.nullifier));
+    const ownTxs = pendingTxs.filter(
+      (tx) =>
+        tx.noteHashes.some((h) => noteHashes.has(toFieldKey(h))) ||
+        tx.nullifiers.some((n) => nullifiers.has(toFieldKey(n))),
+    );
+
+    // own notes are older than any tx that spends them
+    const fromBlock = Math.min(...notes.map((note) => note.blockNumber));
+    const [encryptedNotesEvents, unshieldEvents] = await Promise.all([
+      this.indexer.getEvents(["EncryptedNotes"], { fromBlock }),
+      this.indexer.getEvents(["UnshieldAuditLog"], { fromBlock }),
+    ]);
+    // every pool tx emits its notes in a single `EncryptedNotes` event
+    const eventsByFirstNoteHash = keyBy(
+      encryptedNotesEvents,
+      (e) => e.encryptedNotes[0]!.noteHash,
+    );
+    const unshieldNullifiers = new Set(
+      unshieldEvents.map((e) => toFieldKey(e.nullifier)),
+    );
+
+    const getBlock = memoize((blockNumber: number) =>
+      provider.getBlock(blockNumber),
+    );
+    // txs in blocks the indexer has not confirmed yet are skipped
+    const indexedTxs = ownTxs.filter(
+      (tx) => eventsByFirstNoteHash[toFieldKey(tx.noteHashes[0]!)],
+    );
+    const txs = await Promise.all(
+      indexedTxs.map(async (pendingTx): Promise<HistoryTx> => {
+        const event =
+          eventsByFirstNoteHash[toFieldKey(pendingTx.noteHashes[0]!)]!;
+        const [block, tx] = await Promise.all([
+          getBlock(event.blockNumber),
+          provider.getTransaction(event.transactionHash),
+        ]);
+        assert(block, "block not found");
+        const isUnshield = pendingTx.nullifiers.some((n) =>
+          unshieldNullifiers.has(toFieldKey(n)),
+        );
+        return {
+          txHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+          timestamp: block.timestamp,
+          rolledUp: pendingTx.rolledUp,
+          noteHashes: pendingTx.noteHashes.map(toFieldKey),
+          nullifiers: pendingTx.nullifiers.map(toFieldKey),
+          from: tx?.from,
+          unshield: isUnshield
+            ? { to: tx ? this.#tryParseUnshieldRecipient(tx) : undefined }
+            : undefined,
+        };
+      }),
+    );
+    return buildHistory(notes, txs);
+  }
+
+  /**
+   * `undefined` if the unshield was not sent to the pool directly, e.g., through a relayer contract
+   */
+  #tryParseUnshieldRecipient(tx: ethers.TransactionResponse) {
+    const parsed = this.contract.interface.parseTransaction(tx);
+    return parsed?.name === "unshield" ? (parsed.args.to as string) : undefined;
+  }
+
+  async #syncNotes(viewingKey: ViewingKey, storeKey: string) {
+    const { address, publicKey } = viewingKey.address;
+    const provider = this.contract.runner?.provider;
+    assert(provider, "contract is not connected to a provider");
+
+    let state = (await this.noteStore.load(storeKey)) ?? emptyNoteStoreState();
+    const ancestor = await findCommonAncestor(provider, state.scannedBlocks);
+    if (ancestor?.number !== state.scannedBlocks.at(-1)?.number) {
+      console.log("reorg detected, rewinding notes to block", ancestor?.number);
+      state = rewindNoteStoreState(state, ancestor?.number ?? -1);
+    }
+
+    const head = await this.indexer.sync();
+    const fromBlock = (ancestor?.number ?? -1) + 1;
+    if (!head || fromBlock > head.number) {
+      return state;
+    }
+
+    const blocks = { fromBlock, toBlock: head.number };
+    const [encryptedNotesEvents, noteHashesEvents, nullifiersEvents] =
+      await Promise.all([
+        this.indexer.getEvents(["EncryptedNotes"], blocks),
+        this.indexer.getEvents(["NoteHashes"], blocks),
+        this.indexer.getEvents(["Nullifiers"], blocks),
+      ]);
+
+    const encrypted = encryptedNotesEvents.flatMap((e) =>
+      e.encryptedNotes.map((note) => ({
+        blockNumber: e.blockNumber,
+        encryptedNote: note.encryptedNote,
+      })),
+    );
+    const decryptionKeys = compact([
+      viewingKey.incomingViewingKey,
+      viewingKey.legacyIncomingViewingKey,
+    ]);
+    const decrypted = encrypted.map(async ({ blockNumber, encryptedNote }) => {
+      let note: Erc20Note | undefined;
+      for (const key of decryptionKeys) {
+        note ??= await Erc20Note.tryDecrypt(key, publicKey, encryptedNote);
+      }
+      if (!note) {
         return undefined;
       }
 
@@ -356,10 +1215,163 @@ export class PoolErc20Service {
         "invalid note received",
       );
 
-      return note;
+      return {
+        noteHash: toFieldKey(await note.hash()),
+        nullifier: toFieldKey(
+          (await note.computeNullifier(viewingKey)).toString(),
+        ),
+        token: note.amount.token,
+        amount: note.amount.amount.toString(),
+        randomness: note.randomness,
+        memo: note.memo,
+        blockNumber,
+      } satisfies StoredNote;
     });
-    return compact(await Promise.all(decrypted));
+    state.notes.push(...compact(await Promise.all(decrypted)));
+
+    const notesByHash = keyBy(state.notes, (note) => note.noteHash);
+    for (const e of noteHashesEvents) {
+      for (const noteHash of e.noteHashes) {
+        const note = notesByHash[noteHash];
+        if (note) {
+          note.rolledUpAtBlock ??= e.blockNumber;
+        }
+      }
+    }
+    const notesByNullifier = keyBy(state.notes, (note) => note.nullifier);
+    for (const e of nullifiersEvents) {
+      for (const nullifier of e.nullifiers) {
+        const note = notesByNullifier[nullifier];
+        if (note) {
+          note.nullifiedAtBlock ??= e.blockNumber;
+        }
+      }
+    }
+
+    state.scannedBlocks = [...state.scannedBlocks, head].slice(
+      -MAX_SCANNED_BLOCKS,
+    );
+    await this.noteStore.save(storeKey, state);
+    return state;
+  }
+}
+
+export type SpendFromBalanceOptions = {
+  /** notes to spend from. Defaults to all spendable notes of the token */
+  notes?: Erc20Note[];
+  /** called with the notes created by each level of joins after they are sent. E.g., to request a rollup */
+  onJoinsSent?: (joinNotes: Erc20Note[]) => AsyncOrSync<void>;
+  /** waits until a joined note can be spent. Defaults to polling the trees */
+  waitForNote?: (note: Erc20Note) => Promise<unknown>;
+};
+
+export type TransferOutput = {
+  to: CompleteWaAddress;
+  amount: TokenAmount;
+  /** attached to the recipient's note */
+  memo?: NoteMemo;
+};
+
+/**
+ * Compensates the relayer that submits a transfer, transferMany or unshield: an extra note owned by the relayer, paid out of the change. See `RelayerClient.getFeeQuote`
+ */
+export type RelayerFee = {
+  to: CompleteWaAddress;
+  amount: TokenAmount;
+};
+
+export type PayrollPayment = {
+  /** Stable identifier of the payment. Used to resume a partially completed run. */
+  id: string;
+  to: CompleteWaAddress;
+  amount: TokenAmount;
+  memo?: NoteMemo;
+};
+
+export type PayrollEntryStatus =
+  | "pending"
+  | "submitted"
+  | "succeeded"
+  | "failed";
+
+/**
+ * JSON serializable state of a single payroll payment
+ */
+export type PayrollEntryReport = {
+  id: string;
+  /** {@link CompleteWaAddress.toString} of the recipient */
+  to: string;
+  token: string;
+  amount: string;
+  status: PayrollEntryStatus;
+  nullifier?: string;
+  toNoteHash?: string;
+  txHash?: string;
+  error?: string;
+  retryable?: boolean;
+};
+
+export type PayrollBatchReport = {
+  entries: PayrollEntryReport[];
+  succeeded: PayrollEntryReport[];
+  failed: PayrollEntryReport[];
+  retryable: PayrollEntryReport[];
+  /** sent, but not found on chain. Never paid again automatically, see `PoolErc20Service.payrollBatch` */
+  unresolved: PayrollEntryReport[];
+};
+
+const UNRESOLVED_PAYMENT_ERROR = "payment tx was sent but is not mined yet";
+
+function toPayrollBatchReport(
+  entries: PayrollEntryReport[],
+): PayrollBatchReport {
+  entries = entries.map((e) => ({ ...e }));
+  return {
+    entries,
+    succeeded: entries.filter((e) => e.status === "succeeded"),
+    failed: entries.filter((e) => e.status === "failed"),
+    retryable: entries.filter((e) => e.status === "failed" && e.retryable),
+    unresolved: entries.filter((e) => e.status === "submitted"),
+  };
+}
+
+/**
+ * Smallest of {@link TRANSFER_ARITIES} that fits `inputs` and `outputs`
+ */
+export function findTransferArity(inputs: number, outputs: number) {
+  return TRANSFER_ARITIES.find(
+    (arity) => arity.inputs >= inputs && arity.outputs >= outputs,
+  );
+}
+
+async function emptyNoteConsumptionInputs() {
+  return {
+    note: await (await Erc20Note.empty()).toNoir(),
+    note_index: ethers.toQuantity(0),
+    note_sibling_path: Array(NOTE_HASH_TREE_HEIGHT).fill(ethers.ZeroHash),
+  };
+}
+
+function toMs(duration: number | string) {
+  return typeof duration === "number" ? duration : ms(duration);
+}
+
+/**
+ * {@link Erc20Note.empty} if there is no fee
+ */
+async function createFeeNote(token: string, fee: RelayerFee | undefined) {
+  if (!fee) {
+    return await Erc20Note.empty();
   }
+  assert(
+    utils.isAddressEqual(fee.amount.token, token),
+    "fee must be paid in the spent token",
+  );
+  return await Erc20Note.from({
+    owner: fee.to,
+    amount: fee.amount,
+    randomness: await getRandomness(),
+  });
 }
 
 export class Erc20Note {
@@ -367,14 +1379,22 @@ export class Erc20Note {
     readonly owner: CompleteWaAddress,
     readonly amount: TokenAmount,
     readonly randomness: string,
+    /** encrypted together with the note, but not part of its hash */
+    readonly memo?: NoteMemo,
   ) {}
 
   static async from(params: {
     owner: CompleteWaAddress;
     amount: TokenAmount;
     randomness: string;
+    memo?: NoteMemo;
   }) {
-    return new Erc20Note(params.owner, params.amount, params.randomness);
+    return new Erc20Note(
+      params.owner,
+      params.amount,
+      params.randomness,
+      params.memo,
+    );
   }
 
   async toNoir() {
@@ -388,6 +1408,10 @@ export class Erc20Note {
   }
 
   async toSolidityNoteInput() {
+    if (this.isEmpty()) {
+      // circuits emit a zero note hash for padding
+      return { noteHash: ethers.ZeroHash, encryptedNote: "0x" };
+    }
     return {
       noteHash: await this.hash(),
       encryptedNote: await this.encrypt(),
@@ -433,26 +1457,48 @@ export class Erc20Note {
     ).toString();
   }
 
-  async computeNullifier(secretKey: string) {
+  /**
+   * `key` is the owner's spending key or {@link ViewingKey}. Only the nullifier key is used
+   */
+  async computeNullifier(key: string | ViewingKey) {
+    const viewingKey = await ViewingKey.from(key);
     assert(
-      (await CompleteWaAddress.fromSecretKey(secretKey)).equal(this.owner),
+      viewingKey.address.equal(this.owner),
       "invalid nullifier secret key",
     );
     return await poseidon2Hash([
       GENERATOR_INDEX__NOTE_NULLIFIER,
       await this.hash(),
-      secretKey,
+      viewingKey.nullifierKey,
     ]);
   }
 
   static async empty() {
     return await Erc20Note.from({
-      owner: new CompleteWaAddress(ethers.ZeroHash, ethers.ZeroHash),
+      owner: new CompleteWaAddress(ethers.ZeroHash, ethers.ZeroHash, {
+        x: ethers.ZeroHash,
+        y: ethers.ZeroHash,
+      }),
       amount: await TokenAmount.empty(),
       randomness: ethers.ZeroHash,
     });
   }
 
+  /**
+   * Padding of circuits with a fixed arity, see {@link Erc20Note.empty}
+   */
+  isEmpty() {
+    return (
+      BigInt(this.owner.address) === 0n &&
+      BigInt(this.amount.token) === 0n &&
+      this.amount.amount === 0n &&
+      BigInt(this.randomness) === 0n
+    );
+  }
+
+  /**
+   * The memo(if any) is appended after the serialized note, so notes without a memo are encoded as before
+   */
   async encrypt() {
     const serialized = await this.serialize();
     const hex = ethers.AbiCoder.defaultAbiCoder().encode(
@@ -461,27 +1507,36 @@ export class Erc20Note {
     );
     return await EncryptionService.getSingleton().encrypt(
       this.owner.publicKey,
-      hex,
+      this.memo ? ethers.concat([hex, encodeNoteMemo(this.memo)]) : hex,
     );
   }
 
   static async tryDecrypt(
-    secretKey: string,
+    incomingViewingKey: string,
     publicKey: string,
     encryptedNote: string,
   ) {
     const encryption = EncryptionService.getSingleton();
     let hex: string;
     try {
-      hex = await encryption.decrypt(secretKey, encryptedNote);
+      hex = await encryption.decrypt(incomingViewingKey, encryptedNote);
     } catch (e) {
       return undefined;
     }
+    const serializedLength = await Erc20Note.serializedLength();
     const fields = ethers.AbiCoder.defaultAbiCoder().decode(
-      times(await Erc20Note.serializedLength(), () => "uint256"),
+      times(serializedLength, () => "uint256"),
       hex,
     );
-    return await Erc20Note.deserialize(fields, publicKey);
+    const note = await Erc20Note.deserialize(fields, publicKey);
+    const memoBytes = ethers.dataSlice(hex, serializedLength * 32);
+    if (ethers.dataLength(memoBytes) === 0) {
+      return note;
+    }
+    return await Erc20Note.from({
+      ...note,
+      memo: tryDecodeNoteMemo(memoBytes),
+    });
   }
 
   static async serializedLength() {
@@ -511,6 +1566,14 @@ export class TokenAmount {
     };
   }
 
+  add(other: TokenAmount): TokenAmount {
+    assert(
+      utils.isAddressEqual(this.token, other.token),
+      "TokenAmount.add: token mismatch",
+    );
+    return new TokenAmount(this.token, this.amount + other.amount);
+  }
+
   sub(other: TokenAmount): TokenAmount {
     const result = this.amount - other.amount;
     assert(result >= 0n, "TokenAmount.sub: underflow");
@@ -548,16 +1611,41 @@ export class CompleteWaAddress {
     readonly waCoords?: WaAddressCoords,
   ) {}
 
+  /**
+   * Encodes everything a sender needs: `address ++ publicKey ++ x ++ y`. The coordinates are omitted if unknown
+   */
   toString() {
-    return ethers.concat([this.address, this.publicKey]);
+    return ethers.concat([
+      this.address,
+      this.publicKey,
+      ...(this.waCoords
+        ? [
+            ethers.zeroPadValue(this.waCoords.x, 32),
+            ethers.zeroPadValue(this.waCoords.y, 32),
+          ]
+        : []),
+    ]);
   }
 
+  /**
+   * Also accepts the legacy 64 byte encoding without coordinates. Such an address can't receive transfers
+   */
   static fromString(str: string) {
     const bytes = ethers.getBytes(str);
-    utils.assert(bytes.length === 64, "invalid complete address");
+    utils.assert(
+      bytes.length === 64 || bytes.length === 128,
+      "invalid complete address",
+    );
     const address = ethers.dataSlice(bytes, 0, 32);
     const publicKey = ethers.dataSlice(bytes, 32, 64);
-    return new CompleteWaAddress(address, publicKey);
+    const waCoords =
+      bytes.length === 128
+        ? {
+            x: ethers.dataSlice(bytes, 64, 96),
+            y: ethers.dataSlice(bytes, 96, 128),
+          }
+        : undefined;
+    return new CompleteWaAddress(address, publicKey, waCoords);
   }
 
   /**
@@ -569,7 +1657,7 @@ export class CompleteWaAddress {
    * Process:
    * 1. Compute Grumpkin public key: (x, y) = secretKey * G
    * 2. Compute wa_commitment: hash([1, x, y])
-   * 3. Derive encryption public key (for note encryption)
+   * 3. Derive encryption public key from the incoming viewing key (see {@link ViewingKey})
    *
    * The `address` field is now the wa_commitment (hash of x, y).
    */
@@ -596,8 +1684,9 @@ export class CompleteWaAddress {
     const address = waCommitment.toString();
 
     // 3. Derive encryption public key (for note encryption)
-    const publicKey =
-      await EncryptionService.getSingleton().derivePublicKey(secretKey);
+    const publicKey = await EncryptionService.getSingleton().derivePublicKey(
+      await deriveIncomingViewingKey(secretKey),
+    );
 
     return new CompleteWaAddress(address, publicKey, waCoords);
   }
@@ -623,6 +1712,93 @@ export class CompleteWaAddress {
   }
 }
 
+/**
+ * Read-only access to a shielded account. Hand it to an accountant or an auditor instead of the spending key.
+ *
+ * Keys of an account are all derived from its spending key(the `secretKey` used throughout the SDK):
+ * - the spending key owns notes: `WaAddress = secretKey * G`. Only it can produce proofs
+ * - the nullifier key computes nullifiers, so its holder can tell which notes are spent
+ * - the incoming viewing key decrypts notes sent to the account
+ *
+ * Nullifiers have no legacy derivation: the pool's circuits fix it, so all notes of a pool are nullified with the same key.
+ */
+export class ViewingKey {
+  constructor(
+    readonly address: CompleteWaAddress,
+    readonly nullifierKey: string,
+    readonly incomingViewingKey: string,
+    /**
+     * Notes sent to an address encoded before the incoming viewing key existed are encrypted to the spending key itself. So this is only known when derived from the spending key, and never serialized
+     */
+    readonly legacyIncomingViewingKey?: string,
+  ) {}
+
+  static async fromSecretKey(secretKey: string) {
+    return new ViewingKey(
+      await CompleteWaAddress.fromSecretKey(secretKey),
+      await deriveNullifierKey(secretKey),
+      await deriveIncomingViewingKey(secretKey),
+      secretKey,
+    );
+  }
+
+  /**
+   * Derives the viewing key if `key` is a spending key
+   */
+  static async from(key: string | ViewingKey) {
+    return typeof key === "string" ? await ViewingKey.fromSecretKey(key) : key;
+  }
+
+  toString() {
+    return ethers.concat([
+      this.address.toString(),
+      this.nullifierKey,
+      this.incomingViewingKey,
+    ]);
+  }
+
+  static fromString(str: string) {
+    utils.assert(
+      ethers.isHexString(str),
+      "invalid viewing key: expected a 0x-prefixed hex string",
+    );
+    const bytes = ethers.getBytes(str);
+    utils.assert(
+      bytes.length === VIEWING_KEY_BYTES,
+      `invalid viewing key: expected ${VIEWING_KEY_BYTES} bytes, got ${bytes.length}`,
+    );
+    const address = CompleteWaAddress.fromString(
+      ethers.dataSlice(bytes, 0, 128),
+    );
+    return new ViewingKey(
+      address,
+      ethers.dataSlice(bytes, 128, 160),
+      ethers.dataSlice(bytes, 160, 192),
+    );
+  }
+}
+
+/** complete address (128), nullifier key (32) and incoming viewing key (32) */
+const VIEWING_KEY_BYTES = 192;
+
+/**
+ * Matches Noir's `derive_nullifier_key`
+ */
+export async function deriveNullifierKey(secretKey: string) {
+  return (
+    await poseidon2Hash([GENERATOR_INDEX__NULLIFIER_KEY, secretKey])
+  ).toString();
+}
+
+/**
+ * X25519 private key that notes of the account are encrypted to
+ */
+export async function deriveIncomingViewingKey(secretKey: string) {
+  return (
+    await poseidon2Hash([GENERATOR_INDEX__INCOMING_VIEWING_KEY, secretKey])
+  ).toString();
+}
+
 export type NoirAndBackend = {
   circuit: CompiledCircuit;
   noir: Noir;
@@ -641,19 +1817,6 @@ export async function poseidon2Hash(inputs: (bigint | string | number)[]) {
   return await aztecPoseidon2Hash(frInputs);
 }
 
-function sortEvents<
-  T extends {
-    blockNumber: number;
-    transactionIndex: number;
-    index: number;
-  },
->(events: T[]) {
-  return orderBy(
-    events,
-    (e) => `${e.blockNumber}-${e.transactionIndex}-${e.index}`,
-  );
-}
-
 export async function getRandomness() {
   const { Fr } = await import("@aztec/aztec.js");
   return Fr.random().toString();
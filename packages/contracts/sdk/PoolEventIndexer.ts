@@ -0,0 +1,437 @@
+import { utils } from "@repo/utils";
+import { ethers } from "ethers";
+import { compact, orderBy, sortedIndexBy, sortedLastIndexBy } from "lodash";
+import { assert, type AsyncOrSync } from "ts-essentials";
+import type {
+  AuditLog,
+  PoolERC20,
+  RlweAuditChallenge,
+} from "../typechain-types";
+import {
+  findCommonAncestor,
+  MAX_SCANNED_BLOCKS,
+  toFieldKey,
+  type ScannedBlock,
+} from "./NoteStore";
+
+type PoolEventMeta = {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  /** position of the log in its block */
+  logIndex: number;
+};
+
+/**
+ * Decoded pool event. Must stay JSON serializable
+ */
+export type PoolEvent = PoolEventMeta &
+  (
+    | {
+        name: "EncryptedNotes";
+        encryptedNotes: { noteHash: string; encryptedNote: string }[];
+      }
+    | { name: "NoteHashes"; index: number; noteHashes: string[] }
+    | { name: "Nullifiers"; index: number; nullifiers: string[] }
+    | { name: "UnshieldAuditLog"; nullifier: string; waCommitment: string }
+    // RlweAuditChallenge
+    | {
+        name: "AuditEntrySubmitted";
+        nullifier: string;
+        waCommitment: string;
+        ctCommitment: string;
+        ipfsCid: string;
+        relayer: string;
+      }
+    | {
+        name: "ChallengeResolved";
+        nullifier: string;
+        successful: boolean;
+        winner: string;
+      }
+    // AuditLog
+    | { name: "AuditLogStored"; nullifier: string; txHash: string }
+    | { name: "AuditCompleted"; requestId: string; nullifier: string }
+  );
+
+export type PoolEventName = PoolEvent["name"];
+
+export type PoolEventOf<N extends PoolEventName> = Extract<
+  PoolEvent,
+  { name: N }
+>;
+
+/**
+ * Persists indexed events keyed by their position in the chain, so a sync appends its page and a rollback deletes the reorged events instead of rewriting the whole history. `scannedBlocks` are the checkpoints of previous syncs, oldest first, kept to find a common ancestor after a reorg.
+ */
+export interface PoolEventStore {
+  getScannedBlocks(): Promise<ScannedBlock[]>;
+  /** events in `[fromBlock, toBlock]`, in chain order */
+  getEvents(range: {
+    fromBlock: number;
+    toBlock: number;
+  }): Promise<PoolEvent[]>;
+  /** atomically stores the events of a newly indexed page with the new checkpoints */
+  append(events: PoolEvent[], scannedBlocks: ScannedBlock[]): Promise<void>;
+  /** atomically deletes the events after `blockNumber` and stores the remaining checkpoints */
+  rollback(blockNumber: number, scannedBlocks: ScannedBlock[]): Promise<void>;
+}
+
+export class InMemoryPoolEventStore implements PoolEventStore {
+  #scannedBlocks: ScannedBlock[] = [];
+  /** in chain order */
+  #events: PoolEvent[] = [];
+
+  async getScannedBlocks() {
+    return [...this.#scannedBlocks];
+  }
+
+  async getEvents({
+    fromBlock,
+    toBlock,
+  }: {
+    fromBlock: number;
+    toBlock: number;
+  }) {
+    const start = sortedIndexBy(
+      this.#events,
+      { blockNumber: fromBlock } as PoolEvent,
+      (e) => e.blockNumber,
+    );
+    const end = sortedLastIndexBy(
+      this.#events,
+      { blockNumber: toBlock } as PoolEvent,
+      (e) => e.blockNumber,
+    );
+    return this.#events.slice(start, end);
+  }
+
+  async append(events: PoolEvent[], scannedBlocks: ScannedBlock[]) {
+    this.#events.push(...events);
+    this.#scannedBlocks = [...scannedBlocks];
+  }
+
+  async rollback(blockNumber: number, scannedBlocks: ScannedBlock[]) {
+    this.#events = this.#events.filter((e) => e.blockNumber <= blockNumber);
+    this.#scannedBlocks = [...scannedBlocks];
+  }
+}
+
+export type PoolEventIndexerOptions = {
+  /** a block is indexed once it has this many confirmations. `1` indexes the latest block */
+  confirmations: number;
+  /** max blocks per `eth_getLogs` call */
+  maxBlockRange: number;
+  /** first block to index, e.g., the pool's deployment block */
+  fromBlock: number;
+  /** how often `start` syncs */
+  pollInterval: number | string;
+};
+
+export const DEFAULT_POOL_EVENT_INDEXER_OPTIONS: PoolEventIndexerOptions = {
+  confirmations: 1,
+  maxBlockRange: 5000,
+  fromBlock: 0,
+  pollInterval: "2s",
+};
+
+/**
+ * Contracts of the pool's audit trail. Their events are indexed along with the pool's
+ */
+export type PoolAuditContracts = {
+  challenge?: RlweAuditChallenge;
+  auditLog?: AuditLog;
+};
+
+export type PoolEventSubscriber = {
+  /** newly indexed events, in chain order */
+  onEvents?: (events: PoolEvent[]) => AsyncOrSync<void>;
+  /** events after `blockNumber` were reorged out and dropped. `-1` if all of them were */
+  onRollback?: (blockNumber: number) => AsyncOrSync<void>;
+};
+
+/**
+ * Single source of pool events for the SDK. Pages through `eth_getLogs`, only indexes confirmed blocks, and rolls back events of reorged blocks. Events of {@link PoolAuditContracts} are indexed too if given.
+ *
+ * Services read indexed events with {@link getEvents} after a {@link sync}, or {@link subscribe} to be notified of new events and rollbacks.
+ */
+export class PoolEventIndexerService {
+  readonly options: PoolEventIndexerOptions;
+  #scannedBlocks: Promise<ScannedBlock[]> | undefined;
+  #syncing: Promise<ScannedBlock | undefined> | undefined;
+  #subscribers = new Set<PoolEventSubscriber>();
+  #running: { stopped: boolean; loop: Promise<void> } | undefined;
+
+  constructor(
+    private contract: PoolERC20,
+    options: Partial<PoolEventIndexerOptions> = {},
+    private store: PoolEventStore = new InMemoryPoolEventStore(),
+    private auditContracts: PoolAuditContracts = {},
+  ) {
+    this.options = { ...DEFAULT_POOL_EVENT_INDEXER_OPTIONS, ...options };
+  }
+
+  /**
+   * Indexes blocks confirmed since the last sync. Concurrent calls share the same sync. Returns the last indexed block
+   */
+  async sync() {
+    this.#syncing ??= this.#indexNewBlocks().finally(() => {
+      this.#syncing = undefined;
+    });
+    return await this.#syncing;
+  }
+
+  /**
+   * Indexed events named `names` in `[fromBlock, toBlock]`, in chain order. Does not sync
+   */
+  async getEvents<N extends PoolEventName>(
+    names: N[],
+    {
+      fromBlock = 0,
+      toBlock = Infinity,
+    }: { fromBlock?: number; toBlock?: number } = {},
+  ): Promise<PoolEventOf<N>[]> {
+    const events = await this.store.getEvents({ fromBlock, toBlock });
+    return events.filter((e): e is PoolEventOf<N> =>
+      (names as PoolEventName[]).includes(e.name),
+    );
+  }
+
+  /**
+   * Last indexed block
+   */
+  async getHead() {
+    return (await this.#getScannedBlocks()).at(-1);
+  }
+
+  /**
+   * Whether `block` is still part of the chain
+   */
+  async isCanonical(block: ScannedBlock) {
+    const current = await this.#provider().getBlock(block.number);
+    return current?.hash === block.hash;
+  }
+
+  /**
+   * Returns the unsubscribe function
+   */
+  subscribe(subscriber: PoolEventSubscriber) {
+    this.#subscribers.add(subscriber);
+    return () => {
+      this.#subscribers.delete(subscriber);
+    };
+  }
+
+  start() {
+    if (this.#running) {
+      return;
+    }
+    const running = { stopped: false, loop: Promise.resolve() };
+    running.loop = utils.iife(async () => {
+      while (!running.stopped) {
+        try {
+          await this.sync();
+        } catch (e) {
+          console.error("pool event indexer sync failed", e);
+        }
+        await utils.sleep(this.options.pollInterval);
+      }
+    });
+    this.#running = running;
+  }
+
+  /**
+   * Resolves after the current sync finishes
+   */
+  async stop() {
+    const running = this.#running;
+    if (!running) {
+      return;
+    }
+    running.stopped = true;
+    this.#running = undefined;
+    await running.loop;
+  }
+
+  async #indexNewBlocks() {
+    const provider = this.#provider();
+    let scannedBlocks = await this.#getScannedBlocks();
+
+    const ancestor = await findCommonAncestor(provider, scannedBlocks);
+    if (ancestor?.number !== scannedBlocks.at(-1)?.number) {
+      const blockNumber = ancestor?.number ?? -1;
+      console.log("reorg detected, rolling back events to block", blockNumber);
+      scannedBlocks = scannedBlocks.filter((b) => b.number <= blockNumber);
+      await this.store.rollback(blockNumber, scannedBlocks);
+      this.#scannedBlocks = Promise.resolve(scannedBlocks);
+      await this.#notify((s) => s.onRollback?.(blockNumber));
+    }
+
+    const contracts = await this.#getContracts();
+    const toBlock =
+      (await provider.getBlockNumber()) - this.options.confirmations + 1;
+    let fromBlock = Math.max(
+      (scannedBlocks.at(-1)?.number ?? -1) + 1,
+      this.options.fromBlock,
+    );
+    while (fromBlock <= toBlock) {
+      const pageEnd = Math.min(
+        fromBlock + this.options.maxBlockRange - 1,
+        toBlock,
+      );
+      const before = await provider.getBlock(pageEnd);
+      const logs = await provider.getLogs({
+        address: Object.keys(contracts),
+        fromBlock,
+        toBlock: pageEnd,
+      });
+      const after = await provider.getBlock(pageEnd);
+      assert(after?.hash, `block not found: ${pageEnd}`);
+      if (before?.hash !== after.hash) {
+        // reorged while fetching. The next sync retries the page
+        break;
+      }
+
+      const events = orderBy(
+        compact(logs.map((log) => parseLog(contracts, log))),
+        [(e) => e.blockNumber, (e) => e.logIndex],
+      );
+      scannedBlocks = [
+        ...scannedBlocks,
+        { number: pageEnd, hash: after.hash },
+      ].slice(-MAX_SCANNED_BLOCKS);
+      await this.store.append(events, scannedBlocks);
+      this.#scannedBlocks = Promise.resolve(scannedBlocks);
+      if (events.length > 0) {
+        await this.#notify((s) => s.onEvents?.(events));
+      }
+      fromBlock = pageEnd + 1;
+    }
+    return scannedBlocks.at(-1);
+  }
+
+  /**
+   * Interfaces of the indexed contracts by lowercase address
+   */
+  async #getContracts() {
+    const contracts: Record<string, ethers.Interface> = {};
+    for (const contract of compact([
+      this.contract,
+      this.auditContracts.challenge,
+      this.auditContracts.auditLog,
+    ])) {
+      contracts[(await contract.getAddress()).toLowerCase()] =
+        contract.interface as ethers.Interface;
+    }
+    return contracts;
+  }
+
+  /**
+   * A failing subscriber does not stop indexing
+   */
+  async #notify(fn: (subscriber: PoolEventSubscriber) => unknown) {
+    for (const subscriber of [...this.#subscribers]) {
+      try {
+        await fn(subscriber);
+      } catch (e) {
+        console.error("pool event subscriber failed", e);
+      }
+    }
+  }
+
+  #provider() {
+    const provider = this.contract.runner?.provider;
+    assert(provider, "contract is not connected to a provider");
+    return provider;
+  }
+
+  #getScannedBlocks() {
+    this.#scannedBlocks ??= this.store.getScannedBlocks();
+    return this.#scannedBlocks;
+  }
+}
+
+function parseLog(
+  contracts: Record<string, ethers.Interface>,
+  log: ethers.Log,
+): PoolEvent | undefined {
+  const parsed = contracts[log.address.toLowerCase()]?.parseLog(log);
+  if (!parsed) {
+    return undefined;
+  }
+  const meta: PoolEventMeta = {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  };
+  const { args } = parsed;
+  switch (parsed.name) {
+    case "EncryptedNotes":
+      return {
+        ...meta,
+        name: parsed.name,
+        encryptedNotes: (
+          args.encryptedNotes as { noteHash: string; encryptedNote: string }[]
+        ).map((note) => ({
+          noteHash: toFieldKey(note.noteHash),
+          encryptedNote: note.encryptedNote,
+        })),
+      };
+    case "NoteHashes":
+      return {
+        ...meta,
+        name: parsed.name,
+        index: Number(args.index),
+        noteHashes: (args.noteHashes as string[]).map(toFieldKey),
+      };
+    case "Nullifiers":
+      return {
+        ...meta,
+        name: parsed.name,
+        index: Number(args.index),
+        nullifiers: (args.nullifiers as string[]).map(toFieldKey),
+      };
+    case "UnshieldAuditLog":
+      return {
+        ...meta,
+        name: parsed.name,
+        nullifier: args.nullifier,
+        waCommitment: args.waCommitment,
+      };
+    case "AuditEntrySubmitted":
+      return {
+        ...meta,
+        name: parsed.name,
+        nullifier: args.nullifier,
+        waCommitment: args.waCommitment,
+        ctCommitment: args.ctCommitment,
+        ipfsCid: args.ipfsCid,
+        relayer: args.relayer,
+      };
+    case "ChallengeResolved":
+      return {
+        ...meta,
+        name: parsed.name,
+        nullifier: args.nullifier,
+        successful: args.successful,
+        winner: args.winner,
+      };
+    case "AuditLogStored":
+      return {
+        ...meta,
+        name: parsed.name,
+        nullifier: args.nullifier,
+        txHash: args.txHash,
+      };
+    case "AuditCompleted":
+      return {
+        ...meta,
+        name: parsed.name,
+        requestId: args.requestId,
+        nullifier: args.nullifier,
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,157 @@
+import { utils } from "@repo/utils";
+import ky from "ky";
+import type { OptimisticAuditEntry } from "./AuditLogService";
+import type { ScannedBlock } from "./NoteStore";
+import { parseResponse } from "./utils";
+
+export type TreeSnapshot = {
+  root: string;
+  nextAvailableLeafIndex: number;
+};
+
+/**
+ * Tree roots set by the last rollup at or before the requested block
+ */
+export type TreeRootsAtBlock = {
+  rollupBlockNumber: number;
+  rollupTxHash: string;
+  noteHashTree: TreeSnapshot;
+  nullifierTree: TreeSnapshot;
+};
+
+export type IndexedNote = {
+  noteHash: string;
+  encryptedNote: string;
+  blockNumber: number;
+  transactionHash: string;
+};
+
+export type IndexedNotesPage = {
+  notes: IndexedNote[];
+  /** pass to the next call to continue after these notes. `null` if nothing was indexed yet */
+  cursor: string | null;
+};
+
+/**
+ * - `none`: never spent
+ * - `pending`: spent by a tx that waits for a rollup
+ * - `rolledUp`: in the nullifier tree since `blockNumber`
+ */
+export type IndexedNullifier = {
+  nullifier: string;
+  status: "none" | "pending" | "rolledUp";
+  blockNumber?: number;
+};
+
+export type IndexedPendingTx = {
+  /** index in `PoolGeneric.getAllPendingTxs` */
+  index: number;
+  noteHashes: string[];
+  nullifiers: string[];
+};
+
+export type IndexedAuditEntry = OptimisticAuditEntry & {
+  /** submitted by a relayer to `RlweAuditChallenge` */
+  submission?: {
+    ctCommitment: string;
+    ipfsCid: string;
+    relayer: string;
+    blockNumber: number;
+  };
+  /** the RLWE ciphertext is stored in `AuditLog` */
+  ciphertextStored: boolean;
+};
+
+/**
+ * - `none`: no relayer submitted an audit entry for the nullifier
+ * - `challengeable`: submitted, the challenge period has not ended
+ * - `valid`: the challenge period ended without a successful challenge
+ * - `slashed`: successfully challenged, the relayer was slashed
+ */
+export type IndexedChallengeStatus = {
+  nullifier: string;
+  status: "none" | "challengeable" | "valid" | "slashed";
+  /** unix timestamp after which the entry can't be challenged */
+  challengeDeadline?: number;
+  winner?: string;
+};
+
+/**
+ * Talks to an indexer started with `startPoolIndexerServer`
+ */
+export class PoolIndexerClient {
+  constructor(readonly url: string) {}
+
+  /**
+   * Serves the same methods as the interface's `/api/trees`. Pass it to {@link RemoteTreesService} or {@link RemoteTreeDataSource}
+   */
+  get treesUrl() {
+    return utils.joinUrl(this.url, "trees");
+  }
+
+  /**
+   * Last indexed block. `null` before the first sync
+   */
+  async getHead() {
+    return await parseResponse<ScannedBlock | null>(
+      ky.get(utils.joinUrl(this.url, "head")),
+    );
+  }
+
+  /**
+   * Latest indexed roots if `blockNumber` is omitted. `null` before the first rollup
+   */
+  async getTreeRoots(blockNumber?: number) {
+    return await parseResponse<TreeRootsAtBlock | null>(
+      ky.get(utils.joinUrl(this.url, "roots"), {
+        searchParams: blockNumber != null ? { block: blockNumber } : {},
+      }),
+    );
+  }
+
+  /**
+   * Encrypted notes after `cursor`, oldest first. Fails if the block of `cursor` was reorged out; restart from the beginning then
+   */
+  async getNotes({ cursor, limit }: { cursor?: string; limit?: number } = {}) {
+    return await parseResponse<IndexedNotesPage>(
+      ky.get(utils.joinUrl(this.url, "notes"), {
+        searchParams: {
+          ...(cursor != null && { cursor }),
+          ...(limit != null && { limit }),
+        },
+      }),
+    );
+  }
+
+  async getNullifier(nullifier: string) {
+    return await parseResponse<IndexedNullifier>(
+      ky.get(utils.joinUrl(this.url, "nullifiers", nullifier)),
+    );
+  }
+
+  async getPendingTxs() {
+    return await parseResponse<IndexedPendingTx[]>(
+      ky.get(utils.joinUrl(this.url, "pending-txs")),
+    );
+  }
+
+  async getAuditEntries({ waCommitment }: { waCommitment?: string } = {}) {
+    return await parseResponse<IndexedAuditEntry[]>(
+      ky.get(utils.joinUrl(this.url, "audit-entries"), {
+        searchParams: waCommitment != null ? { waCommitment } : {},
+      }),
+    );
+  }
+
+  async getAuditEntry(nullifier: string) {
+    return await parseResponse<IndexedAuditEntry | null>(
+      ky.get(utils.joinUrl(this.url, "audit-entries", nullifier)),
+    );
+  }
+
+  async getChallengeStatus(nullifier: string) {
+    return await parseResponse<IndexedChallengeStatus>(
+      ky.get(utils.joinUrl(this.url, "challenges", nullifier)),
+    );
+  }
+}
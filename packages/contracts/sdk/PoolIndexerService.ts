@@ -0,0 +1,465 @@
+import { utils } from "@repo/utils";
+import { findLast, keyBy } from "lodash";
+import http from "node:http";
+import path from "node:path";
+import { assert } from "ts-essentials";
+import { z } from "zod";
+import type { PoolERC20 } from "../typechain-types";
+import { LmdbPoolEventStore } from "./LmdbPoolEventStore";
+import { toFieldKey } from "./NoteStore";
+import {
+  PoolEventIndexerService,
+  type PoolAuditContracts,
+  type PoolEventIndexerOptions,
+  type PoolEventOf,
+} from "./PoolEventIndexer";
+import type {
+  IndexedAuditEntry,
+  IndexedChallengeStatus,
+  IndexedNotesPage,
+  IndexedNullifier,
+  IndexedPendingTx,
+  TreeRootsAtBlock,
+  TreeSnapshot,
+} from "./PoolIndexerClient";
+import { TREES_SERVER_METHODS } from "./RemoteTreesService";
+import { TreesService } from "./TreesService";
+import { readJsonBody, RequestBodyTooLargeError } from "./utils";
+
+export type PoolIndexerServiceOptions = PoolAuditContracts & {
+  /** LMDB data directory for events and trees. Everything is indexed again on every start if omitted */
+  dataDir?: string;
+  events?: Partial<PoolEventIndexerOptions>;
+};
+
+/** max pool txs per {@link PoolIndexerService.getNotes} page */
+export const MAX_NOTES_PAGE_SIZE = 1000;
+
+/**
+ * Standalone indexer of pool state. Ingests events of the pool and its audit contracts into LMDB and answers queries from them, so frontends and backends don't replay logs themselves. Serve it with {@link startPoolIndexerServer}.
+ *
+ * Queries read what is indexed so far. {@link start} keeps indexing new blocks.
+ */
+export class PoolIndexerService {
+  readonly events: PoolEventIndexerService;
+  readonly trees: TreesService;
+  #rollupSnapshots = new Map<
+    string,
+    Pick<TreeRootsAtBlock, "noteHashTree" | "nullifierTree">
+  >();
+  #challengePeriod: Promise<bigint> | undefined;
+
+  constructor(
+    private contract: PoolERC20,
+    private options: PoolIndexerServiceOptions = {},
+  ) {
+    const { dataDir } = options;
+    this.events = new PoolEventIndexerService(
+      contract,
+      options.events,
+      new LmdbPoolEventStore(dataDir && path.join(dataDir, "events")),
+      { challenge: options.challenge, auditLog: options.auditLog },
+    );
+    this.trees = new TreesService(contract, {
+      dataDir: dataDir && path.join(dataDir, "trees"),
+      indexer: this.events,
+    });
+  }
+
+  start() {
+    this.events.start();
+  }
+
+  async stop() {
+    await this.events.stop();
+  }
+
+  async getHead() {
+    return (await this.events.getHead()) ?? null;
+  }
+
+  /**
+   * Roots after the last rollup at or before `blockNumber`, latest indexed ones if omitted. `null` before the first rollup
+   */
+  async getTreeRoots(blockNumber?: number): Promise<TreeRootsAtBlock | null> {
+    const head = await this.events.getHead();
+    if (!head) {
+      return null;
+    }
+    if (blockNumber != null && blockNumber > head.number) {
+      throw new PoolIndexerRequestError(
+        `block is not indexed yet: ${blockNumber}`,
+      );
+    }
+    const rollup = (
+      await this.events.getEvents(["NoteHashes"], { toBlock: blockNumber })
+    ).at(-1);
+    if (!rollup) {
+      return null;
+    }
+    return {
+      rollupBlockNumber: rollup.blockNumber,
+      rollupTxHash: rollup.transactionHash,
+      ...(await this.#getRollupSnapshots(rollup.transactionHash)),
+    };
+  }
+
+  /**
+   * Encrypted notes of at most `limit` pool txs after `cursor`, oldest first. Padding notes are skipped
+   */
+  async getNotes({
+    cursor,
+    limit = MAX_NOTES_PAGE_SIZE,
+  }: { cursor?: string; limit?: number } = {}): Promise<IndexedNotesPage> {
+    const events = await this.events.getEvents(["EncryptedNotes"]);
+    let start = 0;
+    if (cursor != null) {
+      const position = parseCursor(cursor);
+      const index = events.findIndex(
+        (e) =>
+          e.blockNumber === position.blockNumber &&
+          e.logIndex === position.logIndex,
+      );
+      if (index < 0 || events[index]!.blockHash !== position.blockHash) {
+        throw new PoolIndexerRequestError("cursor was reorged out");
+      }
+      start = index + 1;
+    }
+    const page = events.slice(
+      start,
+      start + Math.min(limit, MAX_NOTES_PAGE_SIZE),
+    );
+    const last = page.at(-1) ?? events[start - 1];
+    return {
+      notes: page.flatMap((e) =>
+        e.encryptedNotes
+          .filter((note) => BigInt(note.noteHash) !== 0n)
+          .map((note) => ({
+            ...note,
+            blockNumber: e.blockNumber,
+            transactionHash: e.transactionHash,
+          })),
+      ),
+      cursor: last ? formatCursor(last) : null,
+    };
+  }
+
+  async getNullifier(nullifier: string): Promise<IndexedNullifier> {
+    const key = toFieldKey(nullifier);
+    const rollup = (await this.events.getEvents(["Nullifiers"])).find((e) =>
+      e.nullifiers.includes(key),
+    );
+    if (rollup) {
+      return {
+        nullifier: key,
+        status: "rolledUp",
+        blockNumber: rollup.blockNumber,
+      };
+    }
+    const pendingTxs = await this.getPendingTxs();
+    return {
+      nullifier: key,
+      status: pendingTxs.some((tx) => tx.nullifiers.includes(key))
+        ? "pending"
+        : "none",
+    };
+  }
+
+  /**
+   * Txs waiting for a rollup as of the last indexed block
+   */
+  async getPendingTxs(): Promise<IndexedPendingTx[]> {
+    const head = await this.events.getHead();
+    if (!head) {
+      return [];
+    }
+    const pendingTxs = await this.contract.getAllPendingTxs({
+      blockTag: head.number,
+    });
+    return pendingTxs.flatMap((tx, index) =>
+      tx.rolledUp
+        ? []
+        : [
+            {
+              index,
+              noteHashes: tx.noteHashes.map(toFieldKey),
+              nullifiers: tx.nullifiers.map(toFieldKey),
+            },
+          ],
+    );
+  }
+
+  /**
+   * Unshields with their RLWE audit trail, oldest first
+   */
+  async getAuditEntries({
+    waCommitment,
+  }: { waCommitment?: string } = {}): Promise<IndexedAuditEntry[]> {
+    const [unshields, submissions, stored] = await Promise.all([
+      this.events.getEvents(["UnshieldAuditLog"]),
+      this.events.getEvents(["AuditEntrySubmitted"]),
+      this.events.getEvents(["AuditLogStored"]),
+    ]);
+    const submissionsByNullifier = keyBy(submissions, (e) =>
+      toFieldKey(e.nullifier),
+    );
+    const storedNullifiers = new Set(
+      stored.map((e) => toFieldKey(e.nullifier)),
+    );
+    return unshields
+      .filter(
+        (e) =>
+          waCommitment == null ||
+          e.waCommitment.toLowerCase() === waCommitment.toLowerCase(),
+      )
+      .map((e) => {
+        const submission = submissionsByNullifier[toFieldKey(e.nullifier)];
+        return {
+          nullifier: e.nullifier,
+          waCommitment: e.waCommitment,
+          blockNumber: e.blockNumber,
+          transactionHash: e.transactionHash,
+          submission: submission && {
+            ctCommitment: submission.ctCommitment,
+            ipfsCid: submission.ipfsCid,
+            relayer: submission.relayer,
+            blockNumber: submission.blockNumber,
+          },
+          ciphertextStored: storedNullifiers.has(toFieldKey(e.nullifier)),
+        };
+      });
+  }
+
+  async getAuditEntry(nullifier: string) {
+    const entries = await this.getAuditEntries();
+    return (
+      entries.find(
+        (entry) => toFieldKey(entry.nullifier) === toFieldKey(nullifier),
+      ) ?? null
+    );
+  }
+
+  /**
+   * Mirrors `RlweAuditChallenge.isAuditEntryValid` as of the last indexed block
+   */
+  async getChallengeStatus(nullifier: string): Promise<IndexedChallengeStatus> {
+    const key = toFieldKey(nullifier);
+    const isEntryOf = (
+      e: PoolEventOf<"AuditEntrySubmitted" | "ChallengeResolved">,
+    ) => toFieldKey(e.nullifier) === key;
+    const submission = findLast(
+      await this.events.getEvents(["AuditEntrySubmitted"]),
+      isEntryOf,
+    );
+    const head = await this.events.getHead();
+    if (!submission || !head) {
+      return { nullifier: key, status: "none" };
+    }
+
+    const provider = this.#provider();
+    const [submittedIn, headBlock, challengePeriod] = await Promise.all([
+      provider.getBlock(submission.blockNumber),
+      provider.getBlock(head.number),
+      this.#getChallengePeriod(),
+    ]);
+    assert(submittedIn && headBlock, "block not found");
+    const challengeDeadline = submittedIn.timestamp + Number(challengePeriod);
+    const challenge = (await this.events.getEvents(["ChallengeResolved"])).find(
+      (e) => isEntryOf(e) && e.successful,
+    );
+    if (challenge) {
+      return {
+        nullifier: key,
+        status: "slashed",
+        challengeDeadline,
+        winner: challenge.winner,
+      };
+    }
+    return {
+      nullifier: key,
+      status:
+        headBlock.timestamp <= challengeDeadline ? "challengeable" : "valid",
+      challengeDeadline,
+    };
+  }
+
+  async #getRollupSnapshots(txHash: string) {
+    let snapshots = this.#rollupSnapshots.get(txHash);
+    if (!snapshots) {
+      const tx = await this.#provider().getTransaction(txHash);
+      assert(tx, `rollup tx not found: ${txHash}`);
+      const call = this.contract.interface.parseTransaction(tx);
+      assert(call?.name === "rollup", `not a rollup tx: ${txHash}`);
+      snapshots = {
+        noteHashTree: toTreeSnapshot(call.args.newNoteHashTree),
+        nullifierTree: toTreeSnapshot(call.args.newNullifierTree),
+      };
+      // a tx hash always refers to the same calldata, even after a reorg
+      this.#rollupSnapshots.set(txHash, snapshots);
+    }
+    return snapshots;
+  }
+
+  #getChallengePeriod() {
+    const { challenge } = this.options;
+    assert(challenge, "RlweAuditChallenge is not indexed");
+    this.#challengePeriod ??= challenge.CHALLENGE_PERIOD();
+    return this.#challengePeriod;
+  }
+
+  #provider() {
+    const provider = this.contract.runner?.provider;
+    assert(provider, "contract is not connected to a provider");
+    return provider;
+  }
+}
+
+/**
+ * Serves {@link PoolIndexerService} over HTTP. `POST /trees` accepts the same requests as the interface's `/api/trees`, so `RemoteTreesService` and `RemoteTreeDataSource` can point at it.
+ */
+export async function startPoolIndexerServer({
+  indexer,
+  port = 0,
+  host = "127.0.0.1",
+}: {
+  indexer: PoolIndexerService;
+  port?: number;
+  host?: string;
+}) {
+  const server = http.createServer(async (req, res) => {
+    const respond = (status: number, body: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const query = Object.fromEntries(url.searchParams);
+      const [route, param, ...rest] = url.pathname.split("/").slice(1);
+      if (req.method === "POST" && route === "trees" && param == null) {
+        const { method, args } = zTreesRequest.parse(
+          await readJsonBody(req, MAX_TREES_REQUEST_BYTES),
+        );
+        respond(200, await indexer.trees[method](...(args as [any, any, any])));
+        return;
+      }
+      if (req.method !== "GET" || rest.length > 0) {
+        respond(404, { error: "not found" });
+        return;
+      }
+      if (route === "head" && param == null) {
+        respond(200, await indexer.getHead());
+      } else if (route === "roots" && param == null) {
+        const { block } = zRootsQuery.parse(query);
+        respond(200, await indexer.getTreeRoots(block));
+      } else if (route === "notes" && param == null) {
+        respond(200, await indexer.getNotes(zNotesQuery.parse(query)));
+      } else if (route === "nullifiers" && param != null) {
+        respond(200, await indexer.getNullifier(param));
+      } else if (route === "pending-txs" && param == null) {
+        respond(200, await indexer.getPendingTxs());
+      } else if (route === "audit-entries" && param == null) {
+        respond(
+          200,
+          await indexer.getAuditEntries(zAuditEntriesQuery.parse(query)),
+        );
+      } else if (route === "audit-entries" && param != null) {
+        respond(200, await indexer.getAuditEntry(param));
+      } else if (route === "challenges" && param != null) {
+        respond(200, await indexer.getChallengeStatus(param));
+      } else {
+        respond(404, { error: "not found" });
+      }
+    } catch (e) {
+      respond(errorStatus(e), { error: utils.errorToString(e) });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+  const address = server.address();
+  assert(address != null && typeof address === "object", "server not bound");
+  return {
+    url: `http://${host}:${address.port}`,
+    close: async () => {
+      await new Promise<void>((resolve, reject) =>
+        server.close((e) => (e ? reject(e) : resolve())),
+      );
+    },
+  };
+}
+
+const MAX_TREES_REQUEST_BYTES = 64 * 1024;
+
+const zTreesRequest = z.object({
+  method: z.enum(TREES_SERVER_METHODS),
+  args: z.array(z.any()),
+});
+
+/**
+ * Thrown for requests the indexer can't answer as asked, e.g., a reorged cursor. Served with 400
+ */
+class PoolIndexerRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PoolIndexerRequestError";
+  }
+}
+
+/**
+ * Invalid requests are the client's fault, anything else is the indexer's
+ */
+function errorStatus(e: unknown) {
+  if (e instanceof RequestBodyTooLargeError) {
+    return 413;
+  }
+  if (
+    e instanceof z.ZodError ||
+    e instanceof SyntaxError ||
+    e instanceof PoolIndexerRequestError
+  ) {
+    return 400;
+  }
+  return 500;
+}
+
+const zRootsQuery = z.object({
+  block: z.coerce.number().int().nonnegative().optional(),
+});
+
+const zNotesQuery = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+const zAuditEntriesQuery = z.object({
+  waCommitment: z.string().optional(),
+});
+
+/**
+ * Position of the last returned `EncryptedNotes` event. The block hash detects reorgs between pages
+ */
+function formatCursor(event: PoolEventOf<"EncryptedNotes">) {
+  return `${event.blockNumber}-${event.logIndex}-${event.blockHash}`;
+}
+
+function parseCursor(cursor: string) {
+  const match = cursor.match(/^(\d+)-(\d+)-(0x[0-9a-fA-F]{64})$/);
+  if (!match) {
+    throw new PoolIndexerRequestError(`invalid cursor: ${cursor}`);
+  }
+  return {
+    blockNumber: Number(match[1]),
+    logIndex: Number(match[2]),
+    blockHash: match[3]!,
+  };
+}
+
+function toTreeSnapshot(snapshot: {
+  root: string;
+  nextAvailableLeafIndex: bigint;
+}): TreeSnapshot {
+  return {
+    root: snapshot.root,
+    nextAvailableLeafIndex: Number(snapshot.nextAvailableLeafIndex),
+  };
+}
@@ -0,0 +1,333 @@
+import { utils } from "@repo/utils";
+import { ethers } from "ethers";
+import { findLastIndex } from "lodash";
+import ms from "ms";
+import { assert } from "ts-essentials";
+import type { PoolERC20 } from "../typechain-types";
+import { toFieldKey } from "./NoteStore";
+import { PoolEventIndexerService } from "./PoolEventIndexer";
+
+/**
+ * - `submitted`: sent, not mined yet
+ * - `pending`: mined. Its notes and nullifiers wait in `PoolGeneric.getAllPendingTxs` for a rollup
+ * - `rolledUp`: included by a `rollup` call. Its notes can be spent
+ * - `finalized`: the rollup has {@link PoolTxTrackerOptions.finalityConfirmations} confirmations
+ * - `failed`: reverted or replaced
+ */
+export type PoolTxStatus =
+  | "submitted"
+  | "pending"
+  | "rolledUp"
+  | "finalized"
+  | "failed";
+
+export type PoolTxState = {
+  txHash: string;
+  status: PoolTxStatus;
+  blockNumber?: number;
+  /** index in `PoolGeneric.getAllPendingTxs` */
+  pendingTxIndex?: number;
+  rollupTxHash?: string;
+  rollupBlockNumber?: number;
+  error?: string;
+};
+
+export type PoolTxTrackerOptions = {
+  /** how often rollups are checked */
+  pollInterval: number | string;
+  /** confirmations of the rollup after which a tx is finalized */
+  finalityConfirmations: number;
+};
+
+export const DEFAULT_POOL_TX_TRACKER_OPTIONS: PoolTxTrackerOptions = {
+  pollInterval: "2s",
+  finalityConfirmations: 12,
+};
+
+/**
+ * Follows pool txs(e.g., from `PoolErc20Service.transfer` or `unshield`) until their rollup is final.
+ *
+ * A tx is matched to its pending tx index by the first note hash of its `EncryptedNotes` event, and to its rollup by the `txIndices` of `rollup` calls. Rollups reorged out by the indexer send their txs back to `pending`.
+ *
+ * Implements the Svelte store contract, so `subscribe` can back a reactive list of txs.
+ */
+export class PoolTxTrackerService {
+  readonly options: PoolTxTrackerOptions;
+  #txs = new Map<string, PoolTxState>();
+  #listeners = new Set<(txs: PoolTxState[]) => void>();
+  /** rollups seen so far, by pending tx index */
+  #rollups = new Map<number, { txHash: string; blockNumber: number }>();
+  #scan: { fromBlock: number; toBlock: number } | undefined;
+  #polling: Promise<void> | undefined;
+
+  constructor(
+    private contract: PoolERC20,
+    options: Partial<PoolTxTrackerOptions> = {},
+    private indexer: PoolEventIndexerService = new PoolEventIndexerService(
+      contract,
+    ),
+  ) {
+    this.options = { ...DEFAULT_POOL_TX_TRACKER_OPTIONS, ...options };
+    this.indexer.subscribe({
+      onRollback: (blockNumber) => this.#rollback(blockNumber),
+    });
+  }
+
+  get txs(): PoolTxState[] {
+    return [...this.#txs.values()].map((tx) => ({ ...tx }));
+  }
+
+  get(txHash: string): PoolTxState | undefined {
+    const tx = this.#txs.get(txHash.toLowerCase());
+    return tx && { ...tx };
+  }
+
+  /**
+   * Starts following `tx`. Tracking the same tx twice is a no-op
+   */
+  track(tx: ethers.TransactionResponse) {
+    const key = tx.hash.toLowerCase();
+    if (this.#txs.has(key)) {
+      return this.get(key)!;
+    }
+    const state: PoolTxState = { txHash: tx.hash, status: "submitted" };
+    this.#txs.set(key, state);
+    this.#emit();
+    utils.iife(async () => {
+      try {
+        const receipt = await tx.wait();
+        assert(receipt, "tx receipt not found");
+        Object.assign(state, {
+          status: "pending",
+          blockNumber: receipt.blockNumber,
+          pendingTxIndex: await this.#findPendingTxIndex(receipt),
+        } satisfies Partial<PoolTxState>);
+        this.#startPolling();
+      } catch (e) {
+        Object.assign(state, {
+          status: "failed",
+          error: utils.errorToString(e),
+        } satisfies Partial<PoolTxState>);
+      }
+      this.#emit();
+    });
+    return { ...state };
+  }
+
+  /**
+   * Resolves once the notes created by the tx can be spent. Rejects if the tx fails
+   */
+  async waitForRollup(
+    txHash: string,
+    { timeout }: { timeout?: number | string } = {},
+  ) {
+    return await this.#waitFor(
+      txHash,
+      (status) => status === "rolledUp" || status === "finalized",
+      timeout,
+    );
+  }
+
+  async waitForFinality(
+    txHash: string,
+    { timeout }: { timeout?: number | string } = {},
+  ) {
+    return await this.#waitFor(
+      txHash,
+      (status) => status === "finalized",
+      timeout,
+    );
+  }
+
+  /**
+   * Calls `listener` with all tracked txs now and after every change. Returns the unsubscribe function
+   */
+  subscribe(listener: (txs: PoolTxState[]) => void) {
+    listener(this.txs);
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Forgets finalized and failed txs
+   */
+  clearSettled() {
+    for (const [key, tx] of this.#txs) {
+      if (isSettled(tx.status)) {
+        this.#txs.delete(key);
+      }
+    }
+    this.#emit();
+  }
+
+  async #waitFor(
+    txHash: string,
+    reached: (status: PoolTxStatus) => boolean,
+    timeout: number | string | undefined,
+  ) {
+    const key = txHash.toLowerCase();
+    assert(this.#txs.has(key), `tx is not tracked: ${txHash}`);
+    return await new Promise<PoolTxState>((resolve, reject) => {
+      const timer =
+        timeout != null
+          ? setTimeout(() => {
+              this.#listeners.delete(check);
+              reject(new Error(`timed out waiting for tx: ${txHash}`));
+            }, toMs(timeout))
+          : undefined;
+      const check = () => {
+        const tx = this.get(key);
+        if (!tx || (tx.status !== "failed" && !reached(tx.status))) {
+          return;
+        }
+        this.#listeners.delete(check);
+        clearTimeout(timer);
+        if (tx.status === "failed") {
+          reject(new Error(`tx failed: ${tx.error ?? txHash}`));
+        } else {
+          resolve(tx);
+        }
+      };
+      this.#listeners.add(check);
+      check();
+    });
+  }
+
+  async #findPendingTxIndex(receipt: ethers.TransactionReceipt) {
+    const noteHashes = receipt.logs.flatMap((log) => {
+      const event = this.contract.interface.parseLog(log);
+      return event?.name === "EncryptedNotes"
+        ? event.args.encryptedNotes.map((note: { noteHash: string }) =>
+            toFieldKey(note.noteHash),
+          )
+        : [];
+    });
+    assert(noteHashes.length > 0, "not a pool tx");
+    const pendingTxs = await this.contract.getAllPendingTxs({
+      blockTag: receipt.blockNumber,
+    });
+    // the tx is one of the last ones at its block
+    const index = findLastIndex(
+      pendingTxs,
+      (tx) => toFieldKey(tx.noteHashes[0]!) === noteHashes[0],
+    );
+    assert(index >= 0, "pending tx not found");
+    return index;
+  }
+
+  #startPolling() {
+    if (this.#polling) {
+      return;
+    }
+    this.#polling = utils
+      .iife(async () => {
+        while (this.txs.some((tx) => !isSettled(tx.status))) {
+          try {
+            await this.#sync();
+          } catch (e) {
+            console.error("pool tx tracker sync failed", e);
+          }
+          await utils.sleep(this.options.pollInterval);
+        }
+      })
+      .finally(() => {
+        this.#polling = undefined;
+      });
+  }
+
+  async #sync() {
+    const provider = this.contract.runner?.provider;
+    assert(provider, "contract is not connected to a provider");
+    const mined = [...this.#txs.values()].filter(
+      (tx) => tx.status === "pending" || tx.status === "rolledUp",
+    );
+    if (mined.length === 0) {
+      return;
+    }
+
+    const head = await this.indexer.sync();
+    const fromBlock = Math.min(...mined.map((tx) => tx.blockNumber!));
+    if (!this.#scan || fromBlock < this.#scan.fromBlock) {
+      // a tx older than the scanned range
+      this.#rollups.clear();
+      this.#scan = { fromBlock, toBlock: fromBlock - 1 };
+    }
+    const events = await this.indexer.getEvents(["NoteHashes"], {
+      fromBlock: this.#scan.toBlock + 1,
+      toBlock: head?.number,
+    });
+    for (const event of events) {
+      const tx = await provider.getTransaction(event.transactionHash);
+      const call = tx && this.contract.interface.parseTransaction(tx);
+      if (call?.name !== "rollup") {
+        continue;
+      }
+      for (const txIndex of call.args.txIndices as bigint[]) {
+        this.#rollups.set(Number(txIndex), {
+          txHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+        });
+      }
+    }
+    this.#scan.toBlock = Math.max(this.#scan.toBlock, head?.number ?? -1);
+
+    const latest = await provider.getBlockNumber();
+    for (const tx of mined) {
+      const rollup = this.#rollups.get(tx.pendingTxIndex!);
+      if (!rollup) {
+        continue;
+      }
+      Object.assign(tx, {
+        status:
+          latest - rollup.blockNumber + 1 >= this.options.finalityConfirmations
+            ? "finalized"
+            : "rolledUp",
+        rollupTxHash: rollup.txHash,
+        rollupBlockNumber: rollup.blockNumber,
+      } satisfies Partial<PoolTxState>);
+    }
+    this.#emit();
+  }
+
+  /**
+   * Rollups after `blockNumber` were reorged out. Their txs are pending again until rolled up anew
+   */
+  #rollback(blockNumber: number) {
+    for (const [txIndex, rollup] of this.#rollups) {
+      if (rollup.blockNumber > blockNumber) {
+        this.#rollups.delete(txIndex);
+      }
+    }
+    if (this.#scan) {
+      this.#scan.toBlock = Math.min(this.#scan.toBlock, blockNumber);
+    }
+    for (const tx of this.#txs.values()) {
+      if (tx.rollupBlockNumber != null && tx.rollupBlockNumber > blockNumber) {
+        Object.assign(tx, {
+          status: "pending",
+          rollupTxHash: undefined,
+          rollupBlockNumber: undefined,
+        } satisfies Partial<PoolTxState>);
+        this.#startPolling();
+      }
+    }
+    this.#emit();
+  }
+
+  #emit() {
+    const txs = this.txs;
+    for (const listener of [...this.#listeners]) {
+      listener(txs);
+    }
+  }
+}
+
+function isSettled(status: PoolTxStatus) {
+  return status === "finalized" || status === "failed";
+}
+
+function toMs(duration: number | string) {
+  return typeof duration === "number" ? duration : ms(duration);
+}
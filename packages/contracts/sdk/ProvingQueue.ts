@@ -0,0 +1,133 @@
+import type { ProofData } from "@aztec/bb.js";
+import ms from "ms";
+import PQueue from "p-queue";
+import { assert } from "ts-essentials";
+
+export type ProveOptions = {
+  keccak?: boolean;
+  signal?: AbortSignal;
+};
+
+/**
+ * Anything that turns a witness into a proof. Implemented by `UltraHonkBackend`, {@link NativeUltraHonkBackend}, {@link RemoteProverBackend} and {@link ProvingQueue} itself.
+ */
+export interface ProverBackend {
+  generateProof(
+    witness: Uint8Array,
+    options?: ProveOptions,
+  ): Promise<ProofData>;
+}
+
+export type ProvingQueueOptions = {
+  /** max proving time of a single job. Time spent waiting in the queue does not count */
+  timeout?: number | string;
+};
+
+export type ProvingQueueStats = {
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+};
+
+/**
+ * Runs proving jobs on a pool of workers, one job per worker at a time. Jobs wait in a FIFO queue until a worker is free.
+ *
+ * Aborting a job (via `signal` or the timeout) rejects it right away. A worker that does not support cancellation stays busy until its proof finishes, so it never runs two jobs at once.
+ */
+export class ProvingQueue implements ProverBackend {
+  readonly #queue: PQueue;
+  readonly #idle: ProverBackend[];
+  readonly #timeout: number | undefined;
+  #succeeded = 0;
+  #failed = 0;
+
+  constructor(workers: ProverBackend[], options: ProvingQueueOptions = {}) {
+    assert(workers.length > 0, "no prover workers");
+    this.#idle = workers.slice();
+    this.#queue = new PQueue({ concurrency: workers.length });
+    this.#timeout =
+      options.timeout != null
+        ? typeof options.timeout === "number"
+          ? options.timeout
+          : ms(options.timeout)
+        : undefined;
+  }
+
+  async generateProof(
+    witness: Uint8Array,
+    { signal, ...options }: ProveOptions = {},
+  ): Promise<ProofData> {
+    signal?.throwIfAborted();
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const job = this.#queue.add(
+      async () => {
+        const worker = this.#idle.pop();
+        assert(worker, "no idle prover worker");
+        const timer =
+          this.#timeout != null
+            ? setTimeout(
+                () =>
+                  controller.abort(
+                    new Error(`proving timed out after ${this.#timeout}ms`),
+                  ),
+                this.#timeout,
+              )
+            : undefined;
+        try {
+          return await worker.generateProof(witness, {
+            ...options,
+            signal: controller.signal,
+          });
+        } finally {
+          clearTimeout(timer);
+          this.#idle.push(worker);
+        }
+      },
+      { signal: controller.signal, throwOnTimeout: true },
+    );
+    try {
+      const proof = await raceAbort(job, controller.signal);
+      this.#succeeded++;
+      return proof;
+    } catch (e) {
+      this.#failed++;
+      throw e;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  getStats(): ProvingQueueStats {
+    return {
+      queued: this.#queue.size,
+      running: this.#queue.pending,
+      succeeded: this.#succeeded,
+      failed: this.#failed,
+    };
+  }
+
+  /**
+   * Resolves when all queued jobs are finished
+   */
+  async onIdle() {
+    await this.#queue.onIdle();
+  }
+}
+
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal) {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
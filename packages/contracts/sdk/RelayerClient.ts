@@ -0,0 +1,163 @@
+import { utils } from "@repo/utils";
+import { ethers } from "ethers";
+import ky from "ky";
+import { assert } from "ts-essentials";
+import { TokenAmount, type RelayerFee } from "./PoolErc20Service";
+import { parseShieldedAddress } from "./ShieldedAddress";
+import { parseResponse } from "./utils";
+
+/**
+ * A pool call prepared by the user. The relayer pays the gas
+ */
+export type RelayRequest = {
+  to: string;
+  data: string;
+};
+
+export type RelayedTxStatus = {
+  txHash: string;
+  status: "pending" | "confirmed" | "failed";
+  blockNumber?: number;
+  error?: string;
+};
+
+export type RelayerInfo = {
+  /** EVM address that sends relayed txs */
+  address: string;
+  pool: string;
+  /** receives fee notes. Only set if the relayer charges fees */
+  shieldedAddress?: string;
+};
+
+export type RelayerFeeQuote = {
+  /** shielded address that must own the fee note */
+  to: string;
+  token: string;
+  /** in token base units */
+  amount: string;
+};
+
+/**
+ * Talks to a relayer started with `startRelayerServer` or served by the interface under `/api/relayer`
+ */
+export class RelayerClient {
+  constructor(readonly url: string) {}
+
+  async getInfo() {
+    return await parseResponse<RelayerInfo>(
+      ky.get(utils.joinUrl(this.url, "info")),
+    );
+  }
+
+  /**
+   * Fee to pass as `fee` to `PoolErc20Service` spends, e.g., `transferFromBalance`. `undefined` if the relayer is free
+   */
+  async getFeeQuote(token: string): Promise<RelayerFee | undefined> {
+    const quote = await parseResponse<RelayerFeeQuote | null>(
+      ky.get(utils.joinUrl(this.url, "fee"), { searchParams: { token } }),
+    );
+    if (!quote) {
+      return undefined;
+    }
+    return {
+      to: parseShieldedAddress(quote.to),
+      amount: await TokenAmount.from({
+        token: quote.token,
+        amount: BigInt(quote.amount),
+      }),
+    };
+  }
+
+  async relay(request: RelayRequest) {
+    return await parseResponse<{ txHash: string }>(
+      ky.post(utils.joinUrl(this.url, "relay"), {
+        json: request,
+        // the relayer simulates the call before sending it
+        timeout: false,
+      }),
+    );
+  }
+
+  async getTxStatus(txHash: string) {
+    return await parseResponse<RelayedTxStatus>(
+      ky.get(utils.joinUrl(this.url, "txs", txHash)),
+    );
+  }
+
+  /**
+   * Polls until the relayed tx is confirmed or failed
+   */
+  async waitForTx(txHash: string, { pollInterval = "1s" } = {}) {
+    for (;;) {
+      const status = await this.getTxStatus(txHash);
+      if (status.status !== "pending") {
+        return status;
+      }
+      await utils.sleep(pollInterval);
+    }
+  }
+
+  /**
+   * Signer that sends pool calls through the relayer. Connect the pool contract to it to use it in place of a wallet, e.g., `PoolErc20Service` then never asks the user to pay gas.
+   */
+  connect(provider: ethers.Provider) {
+    return new RelayerSigner(this, provider);
+  }
+}
+
+export class RelayerSigner extends ethers.AbstractSigner<ethers.Provider> {
+  #address: Promise<string> | undefined;
+
+  constructor(
+    readonly client: RelayerClient,
+    provider: ethers.Provider,
+  ) {
+    super(provider);
+  }
+
+  async getAddress() {
+    this.#address ??= this.client.getInfo().then((info) => info.address);
+    return await this.#address;
+  }
+
+  connect(provider: ethers.Provider) {
+    return new RelayerSigner(this.client, provider);
+  }
+
+  async sendTransaction(
+    tx: ethers.TransactionRequest,
+  ): Promise<ethers.TransactionResponse> {
+    assert(tx.to != null, "relayer can't deploy contracts");
+    assert(tx.data != null, "relayer only relays contract calls");
+    const { txHash } = await this.client.relay({
+      to: await ethers.resolveAddress(tx.to, this.provider),
+      data: ethers.hexlify(tx.data),
+    });
+    // the relayer responds once the tx is broadcast, but the node may not know it yet
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.provider.getTransaction(txHash);
+      if (response) {
+        return response;
+      }
+      assert(
+        attempt < MAX_GET_TRANSACTION_RETRIES,
+        `relayed tx not found: ${txHash}`,
+      );
+      await utils.sleep("500ms");
+    }
+  }
+
+  async signTransaction(): Promise<string> {
+    throw new Error("relayer signs its own txs");
+  }
+
+  async signMessage(): Promise<string> {
+    throw new Error("relayer does not sign messages");
+  }
+
+  async signTypedData(): Promise<string> {
+    throw new Error("relayer does not sign messages");
+  }
+}
+
+const MAX_GET_TRANSACTION_RETRIES = 20;
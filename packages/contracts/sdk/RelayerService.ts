@@ -0,0 +1,366 @@
+import { utils } from "@repo/utils";
+import { ethers } from "ethers";
+import http from "node:http";
+import { assert } from "ts-essentials";
+import { z } from "zod";
+import type { PoolERC20 } from "../typechain-types";
+import { fieldPrefix, MAX_FIELD_PREFIX_BITS } from "./ClientTreesService";
+import { Erc20Note, type ViewingKey } from "./PoolErc20Service";
+import type {
+  RelayedTxStatus,
+  RelayerFeeQuote,
+  RelayerInfo,
+  RelayRequest,
+} from "./RelayerClient";
+import type { TreeDataSource } from "./RemoteTreesService";
+import { encodeShieldedAddress } from "./ShieldedAddress";
+import { readJsonBody, ReadWriteLock, RequestBodyTooLargeError } from "./utils";
+
+/**
+ * Pool methods users may send through the relayer. `shield` is not relayed: it pulls tokens from `msg.sender`
+ */
+export const RELAYABLE_METHODS = [
+  "unshield",
+  "join",
+  "transfer",
+  "transferMany",
+  "swap",
+] as const;
+
+/**
+ * Pool methods that can pay the relayer with a fee note: `feeNote` of `unshield` and `transfer`, any of the `toNotes` of `transferMany`
+ */
+export const FEE_PAYING_METHODS = [
+  "unshield",
+  "transfer",
+  "transferMany",
+] as const;
+
+export type RelayerFeePolicy = {
+  /** shielded account that receives fee notes. Decrypting them needs no spending key */
+  viewingKey: ViewingKey;
+  /** flat fee per relayed tx in base units, keyed by token address. Other tokens are not accepted */
+  amounts: Record<string, bigint>;
+};
+
+/**
+ * Submits shielded txs on behalf of users and pays their gas.
+ *
+ * Every call is validated first: it must target the pool, be one of {@link RELAYABLE_METHODS}, spend no nullifier that is already pending or nullified, and succeed in a simulation. Txs are sent one at a time, so nonces never collide.
+ *
+ * With a fee policy, calls must also pay the quoted fee with a fee note, so only {@link FEE_PAYING_METHODS} are relayed. Joins are sent as a `transferMany` that pays the fee instead, see `PoolErc20Service.transferFromBalance`. Swaps are sent by their parties.
+ */
+export class RelayerService {
+  #signer: ethers.NonceManager;
+  #lock = new ReadWriteLock();
+  #txs = new Map<string, TrackedTx>();
+  /** fee notes of sent txs that are not mined yet. Mined ones are found in the pool's txs */
+  #unminedFeeNoteHashes = new Set<string>();
+
+  constructor(
+    private contract: PoolERC20,
+    signer: ethers.Signer,
+    private trees?: Pick<TreeDataSource, "getNullifiers">,
+    private fees?: RelayerFeePolicy,
+  ) {
+    // reuse a shared nonce manager, e.g., with the rollup service
+    this.#signer =
+      signer instanceof ethers.NonceManager
+        ? signer
+        : new ethers.NonceManager(signer);
+  }
+
+  async getInfo(): Promise<RelayerInfo> {
+    return {
+      address: await this.#signer.getAddress(),
+      pool: await this.contract.getAddress(),
+      shieldedAddress: this.fees
+        ? encodeShieldedAddress(this.fees.viewingKey.address)
+        : undefined,
+    };
+  }
+
+  /**
+   * Fee to attach to every relayed tx spending `token`. `null` if the relayer charges no fees
+   */
+  async quoteFee(token: string): Promise<RelayerFeeQuote | null> {
+    if (!this.fees) {
+      return null;
+    }
+    const amount = this.#feeAmount(token);
+    assert(amount != null, `token is not accepted for fees: ${token}`);
+    return {
+      to: encodeShieldedAddress(this.fees.viewingKey.address),
+      token,
+      amount: amount.toString(),
+    };
+  }
+
+  async relay({ to, data }: RelayRequest) {
+    assert(
+      utils.isAddressEqual(to, await this.contract.getAddress()),
+      "relayer only submits to its pool",
+    );
+    const call = this.contract.interface.parseTransaction({ data });
+    assert(
+      call && (RELAYABLE_METHODS as readonly string[]).includes(call.name),
+      `method is not relayable: ${call?.name ?? data.slice(0, 10)}`,
+    );
+    const nullifiers = getCallNullifiers(call);
+    const feeNoteHash = await this.#assertFeePaid(call);
+
+    return await this.#lock.write(async () => {
+      const pendingTxs = await this.contract.getAllPendingTxs();
+      await this.#assertNotSpent(nullifiers, pendingTxs);
+      // a fee note copied from an earlier tx would pay for two txs. The pool keeps every tx it accepted, so mined ones are caught after a restart too
+      assert(
+        feeNoteHash == null ||
+          (!this.#unminedFeeNoteHashes.has(feeNoteHash) &&
+            !pendingTxs.some((tx) =>
+              tx.noteHashes.some((h) => BigInt(h) === BigInt(feeNoteHash)),
+            )),
+        `fee note already used: ${feeNoteHash}`,
+      );
+      // reverts with the pool's error, e.g., an invalid proof
+      const gasLimit = await this.#signer.estimateGas({ to, data });
+      let response: ethers.TransactionResponse;
+      try {
+        response = await this.#signer.sendTransaction({ to, data, gasLimit });
+      } catch (e) {
+        // the nonce was not used
+        this.#signer.reset();
+        throw e;
+      }
+      if (feeNoteHash != null) {
+        this.#unminedFeeNoteHashes.add(feeNoteHash);
+      }
+      const tx: TrackedTx = {
+        txHash: response.hash,
+        status: "pending",
+        nullifiers,
+      };
+      this.#track(tx);
+      response
+        .wait()
+        .then(
+          (receipt) => {
+            tx.status = "confirmed";
+            tx.blockNumber = receipt?.blockNumber;
+          },
+          (e) => {
+            tx.status = "failed";
+            tx.error = utils.errorToString(e);
+          },
+        )
+        .finally(() => {
+          if (feeNoteHash != null) {
+            this.#unminedFeeNoteHashes.delete(feeNoteHash);
+          }
+        });
+      return { txHash: response.hash };
+    });
+  }
+
+  async getTxStatus(txHash: string): Promise<RelayedTxStatus> {
+    const tx = this.#txs.get(txHash.toLowerCase());
+    assert(tx, `unknown relayed tx: ${txHash}`);
+    const { nullifiers, ...status } = tx;
+    return status;
+  }
+
+  /**
+   * Checks that one of the call's notes decrypts to a note of the relayer worth at least the quoted fee. Returns its hash
+   */
+  async #assertFeePaid(call: ethers.TransactionDescription) {
+    if (!this.fees) {
+      return undefined;
+    }
+    assert(
+      (FEE_PAYING_METHODS as readonly string[]).includes(call.name),
+      `method does not pay a relayer fee: ${call.name}`,
+    );
+    const args = call.args.toObject(true) as {
+      feeNote?: NoteInput;
+      toNotes?: NoteInput[];
+    };
+    const candidates = args.feeNote ? [args.feeNote] : args.toNotes ?? [];
+    const { viewingKey } = this.fees;
+    let feeNote: NoteInput | undefined;
+    let note: Erc20Note | undefined;
+    for (const candidate of candidates) {
+      note =
+        ethers.dataLength(candidate.encryptedNote) > 0
+          ? await Erc20Note.tryDecrypt(
+              viewingKey.incomingViewingKey,
+              viewingKey.address.publicKey,
+              candidate.encryptedNote,
+            )
+          : undefined;
+      if (note) {
+        feeNote = candidate;
+        break;
+      }
+    }
+    assert(note && feeNote, "relayer fee is not paid");
+    // the proof commits to the note hash, not to the ciphertext
+    assert(
+      BigInt(await note.hash()) === BigInt(feeNote.noteHash),
+      "fee note does not match its hash",
+    );
+    assert(
+      viewingKey.address.equal(note.owner),
+      "fee note is not owned by the relayer",
+    );
+    const amount = this.#feeAmount(note.amount.token);
+    assert(
+      amount != null,
+      `token is not accepted for fees: ${note.amount.token}`,
+    );
+    assert(
+      note.amount.amount >= amount,
+      `relayer fee too low: ${note.amount.amount} < ${amount}`,
+    );
+    return ethers.toBeHex(feeNote.noteHash, 32);
+  }
+
+  #feeAmount(token: string) {
+    const entry = Object.entries(this.fees?.amounts ?? {}).find(([address]) =>
+      utils.isAddressEqual(address, token),
+    );
+    return entry?.[1];
+  }
+
+  async #assertNotSpent(
+    nullifiers: string[],
+    pendingTxs: Awaited<ReturnType<PoolERC20["getAllPendingTxs"]>>,
+  ) {
+    const inFlight = new Set(
+      [...this.#txs.values()]
+        .filter((tx) => tx.status === "pending")
+        .flatMap((tx) => tx.nullifiers),
+    );
+    const pending = new Set(
+      pendingTxs
+        .filter((tx) => !tx.rolledUp)
+        .flatMap((tx) => tx.nullifiers.map((n) => ethers.toBeHex(n, 32))),
+    );
+    for (const nullifier of nullifiers) {
+      assert(
+        !inFlight.has(nullifier) && !pending.has(nullifier),
+        `nullifier already pending: ${nullifier}`,
+      );
+      if (this.trees) {
+        const nullified = await this.trees.getNullifiers({
+          prefix: fieldPrefix(nullifier, MAX_FIELD_PREFIX_BITS),
+          prefixBits: MAX_FIELD_PREFIX_BITS,
+        });
+        assert(
+          !nullified.includes(nullifier),
+          `nullifier already spent: ${nullifier}`,
+        );
+      }
+    }
+  }
+
+  #track(tx: TrackedTx) {
+    this.#txs.set(tx.txHash.toLowerCase(), tx);
+    // forget the oldest settled txs
+    for (const [hash, old] of this.#txs) {
+      if (this.#txs.size <= MAX_TRACKED_TXS) {
+        break;
+      }
+      if (old.status !== "pending") {
+        this.#txs.delete(hash);
+      }
+    }
+  }
+}
+
+type TrackedTx = RelayedTxStatus & { nullifiers: string[] };
+
+type NoteInput = { noteHash: string; encryptedNote: string };
+
+const MAX_TRACKED_TXS = 1000;
+
+/** relay requests carry one proof, far below this */
+export const MAX_RELAY_REQUEST_BYTES = 256 * 1024;
+
+/**
+ * Nullifiers spent by a relayable call. Zero nullifiers are padding and skipped
+ */
+function getCallNullifiers(call: ethers.TransactionDescription): string[] {
+  const args = call.args.toObject(true);
+  const nullifiers: string[] =
+    "nullifiers" in args ? args.nullifiers : [args.nullifier];
+  return nullifiers
+    .map((n) => ethers.toBeHex(n, 32))
+    .filter((n) => n !== ethers.ZeroHash);
+}
+
+/**
+ * Serves a {@link RelayerService} for {@link RelayerClient}: `GET /info`, `GET /fee?token=`, `POST /relay` with a {@link RelayRequest} and `GET /txs/:txHash`
+ */
+export async function startRelayerServer({
+  relayer,
+  port = 0,
+  host = "127.0.0.1",
+}: {
+  relayer: RelayerService;
+  port?: number;
+  host?: string;
+}) {
+  const server = http.createServer(async (req, res) => {
+    const respond = (status: number, body: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    try {
+      if (req.method === "GET" && req.url === "/info") {
+        respond(200, await relayer.getInfo());
+        return;
+      }
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (req.method === "GET" && url.pathname === "/fee") {
+        const token = url.searchParams.get("token");
+        assert(token, "token is required");
+        respond(200, await relayer.quoteFee(token));
+        return;
+      }
+      const txMatch = req.url?.match(/^\/txs\/(0x[0-9a-fA-F]{64})$/);
+      if (req.method === "GET" && txMatch) {
+        respond(200, await relayer.getTxStatus(txMatch[1]!));
+        return;
+      }
+      if (req.method === "POST" && req.url === "/relay") {
+        const request = zRelayRequest.parse(
+          await readJsonBody(req, MAX_RELAY_REQUEST_BYTES),
+        );
+        respond(200, await relayer.relay(request));
+        return;
+      }
+      respond(404, { error: "not found" });
+    } catch (e) {
+      respond(e instanceof RequestBodyTooLargeError ? 413 : 400, {
+        error: utils.errorToString(e),
+      });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+  const address = server.address();
+  assert(address != null && typeof address === "object", "server not bound");
+  return {
+    url: `http://${host}:${address.port}`,
+    close: async () => {
+      await new Promise<void>((resolve, reject) =>
+        server.close((e) => (e ? reject(e) : resolve())),
+      );
+    },
+  };
+}
+
+export const zRelayRequest = z.object({
+  to: z.string(),
+  data: z.string(),
+});
@@ -0,0 +1,111 @@
+import type { ProofData } from "@aztec/bb.js";
+import { utils } from "@repo/utils";
+import { ethers } from "ethers";
+import ky from "ky";
+import http from "node:http";
+import { assert } from "ts-essentials";
+import { z } from "zod";
+import type { ProveOptions, ProverBackend } from "./ProvingQueue";
+
+/**
+ * Proves on a prover server started with {@link startProverServer}
+ */
+export class RemoteProverBackend implements ProverBackend {
+  constructor(
+    readonly url: string,
+    readonly circuitName: string,
+  ) {}
+
+  async generateProof(
+    witness: Uint8Array,
+    options: ProveOptions = {},
+  ): Promise<ProofData> {
+    const response = await ky
+      .post(utils.joinUrl(this.url, "prove", this.circuitName), {
+        json: {
+          witness: ethers.hexlify(witness),
+          keccak: options.keccak ?? false,
+        },
+        signal: options.signal,
+        // proving is slow, rely on the caller's timeout instead
+        timeout: false,
+      })
+      .json();
+    const { proof, publicInputs } = zProveResponse.parse(response);
+    return { proof: ethers.getBytes(proof), publicInputs };
+  }
+}
+
+/**
+ * Local stand-in for a remote prover. Serves `POST /prove/:circuitName` with `{witness, keccak}` and responds with `{proof, publicInputs}`. Requests closed by the client cancel their proofs.
+ */
+export async function startProverServer({
+  backends,
+  port = 0,
+  host = "127.0.0.1",
+}: {
+  backends: Record<string, ProverBackend>;
+  port?: number;
+  host?: string;
+}) {
+  const server = http.createServer(async (req, res) => {
+    const respond = (status: number, body: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    const match = req.url?.match(/^\/prove\/([\w-]+)$/);
+    const backend = match ? backends[match[1]!] : undefined;
+    if (req.method !== "POST" || !backend) {
+      respond(404, { error: "not found" });
+      return;
+    }
+
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        controller.abort(new Error("prove request closed"));
+      }
+    });
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      const { witness, keccak } = zProveRequest.parse(
+        JSON.parse(Buffer.concat(chunks).toString()),
+      );
+      const { proof, publicInputs } = await backend.generateProof(
+        ethers.getBytes(witness),
+        { keccak, signal: controller.signal },
+      );
+      respond(200, { proof: ethers.hexlify(proof), publicInputs });
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        respond(500, { error: utils.errorToString(e) });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+  const address = server.address();
+  assert(address != null && typeof address === "object", "server not bound");
+  return {
+    url: `http://${host}:${address.port}`,
+    close: async () => {
+      await new Promise<void>((resolve, reject) =>
+        server.close((e) => (e ? reject(e) : resolve())),
+      );
+    },
+  };
+}
+
+const zProveRequest = z.object({
+  witness: z.string(),
+  keccak: z.boolean().optional(),
+});
+
+const zProveResponse = z.object({
+  proof: z.string(),
+  publicInputs: z.array(z.string()),
+});
@@ -6,12 +6,34 @@ export const REMOTE_TREES_ALLOWED_METHODS = [
   "getTreeRoots",
   "getNoteConsumptionInputs",
   "noteExistsAndNotNullified",
-] satisfies (keyof TreesService)[];
+] as const satisfies readonly (keyof TreesService)[];
 export type ITreesService = Pick<
   TreesService,
   ElementOf<typeof REMOTE_TREES_ALLOWED_METHODS>
 >;
 
+/**
+ * Methods of {@link TreesService} that only return public tree data. Used by {@link ClientTreesService}.
+ */
+export const TREE_DATA_SOURCE_METHODS = [
+  "getTreeRoots",
+  "getNoteHashIndexes",
+  "getNoteHashBucket",
+  "getNullifiers",
+] as const satisfies readonly (keyof TreesService)[];
+export type TreeDataSource = Pick<
+  TreesService,
+  ElementOf<typeof TREE_DATA_SOURCE_METHODS>
+>;
+
+/**
+ * Methods served by the interface's `/api/trees` and by `startPoolIndexerServer`
+ */
+export const TREES_SERVER_METHODS = [
+  ...REMOTE_TREES_ALLOWED_METHODS,
+  ...TREE_DATA_SOURCE_METHODS,
+] as const;
+
 export interface RemoteTreesService extends ITreesService {}
 export class RemoteTreesService {
   constructor(private url: string) {
@@ -29,3 +51,21 @@ export class RemoteTreesService {
     }
   }
 }
+
+export interface RemoteTreeDataSource extends TreeDataSource {}
+export class RemoteTreeDataSource {
+  constructor(private url: string) {
+    for (const method of TREE_DATA_SOURCE_METHODS) {
+      (this as any)[method] = async (...args: any[]) => {
+        return await ky
+          .post(this.url, {
+            json: {
+              method,
+              args,
+            },
+          })
+          .json();
+      };
+    }
+  }
+}
@@ -0,0 +1,259 @@
+import { utils } from "@repo/utils";
+import { orderBy, sum, sumBy } from "lodash";
+import ms from "ms";
+import {
+  MAX_NOTES_PER_ROLLUP,
+  MAX_NULLIFIERS_PER_ROLLUP,
+} from "./PoolErc20Service";
+import type {
+  PendingRollupTx,
+  RollupService,
+  RollupTxsOrder,
+} from "./RollupService";
+
+export type RollupSchedulerPolicy = {
+  /** rolls up once pending txs fill this share(0..1] of a rollup */
+  fillThreshold: number;
+  /** rolls up a partially filled batch once its oldest tx waited this long */
+  maxWait: number | string;
+  /** how often pending txs are checked */
+  pollInterval: number | string;
+  /** order in which pending txs are included */
+  order: RollupTxsOrder;
+  /** how many times a failed rollup(proof or tx) is retried before giving up until the next poll */
+  maxRetries: number;
+  /** delay before the first retry. Doubles with every retry */
+  retryDelay: number | string;
+};
+
+/**
+ * Includes txs in submission order
+ */
+export const fifoRollupOrder: RollupTxsOrder = (txs) => txs;
+
+/**
+ * Includes txs with fewer notes and nullifiers first to fit more txs in a rollup
+ */
+export const smallestFirstRollupOrder: RollupTxsOrder = (txs) =>
+  orderBy(txs, [(tx) => tx.noteHashes.length + tx.nullifiers.length, "index"]);
+
+export const DEFAULT_ROLLUP_SCHEDULER_POLICY: RollupSchedulerPolicy = {
+  fillThreshold: 1,
+  maxWait: "1m",
+  pollInterval: "5s",
+  order: fifoRollupOrder,
+  maxRetries: 3,
+  retryDelay: "2s",
+};
+
+export type RollupSchedulerMetrics = {
+  pendingTxs: number;
+  pendingNoteHashes: number;
+  pendingNullifiers: number;
+  /** ms since the oldest pending tx was first seen */
+  oldestPendingAge: number | undefined;
+  rollups: number;
+  failedAttempts: number;
+  lastRollupAt: number | undefined;
+  lastError: string | undefined;
+  /** ms between a tx being first seen and being rolled up, over the last {@link MAX_INCLUSION_SAMPLES} txs */
+  timeToInclusion: {
+    samples: number;
+    average: number | undefined;
+    max: number | undefined;
+  };
+};
+
+/**
+ * Rolls up pending txs in the background according to a {@link RollupSchedulerPolicy}.
+ *
+ * The pool does not record when a tx was submitted, so waiting times are measured from the poll that first saw the tx.
+ */
+export class RollupSchedulerService {
+  readonly policy: RollupSchedulerPolicy;
+  #firstSeenAt = new Map<number, number>();
+  #pending: PendingRollupTx[] = [];
+  #inclusionTimes: number[] = [];
+  #rollups = 0;
+  #failedAttempts = 0;
+  #lastRollupAt: number | undefined;
+  #lastError: string | undefined;
+  #running: { stopped: boolean; loop: Promise<void> } | undefined;
+
+  constructor(
+    private rollupService: RollupService,
+    policy: Partial<RollupSchedulerPolicy> = {},
+  ) {
+    this.policy = { ...DEFAULT_ROLLUP_SCHEDULER_POLICY, ...policy };
+  }
+
+  start() {
+    if (this.#running) {
+      return;
+    }
+    const running = { stopped: false, loop: Promise.resolve() };
+    running.loop = utils.iife(async () => {
+      while (!running.stopped) {
+        try {
+          await this.tick();
+        } catch (e) {
+          console.error("rollup scheduler tick failed", e);
+        }
+        await utils.sleep(this.policy.pollInterval);
+      }
+    });
+    this.#running = running;
+  }
+
+  /**
+   * Resolves after the current tick finishes
+   */
+  async stop() {
+    const running = this.#running;
+    if (!running) {
+      return;
+    }
+    running.stopped = true;
+    this.#running = undefined;
+    await running.loop;
+  }
+
+  /**
+   * Checks pending txs and rolls them up if the policy says so
+   */
+  async tick() {
+    const pending = await this.#refreshPending();
+    if (pending.length > 0 && this.#shouldRollup(pending)) {
+      await this.#rollupWithRetries();
+    }
+  }
+
+  /**
+   * Rolls up pending txs now regardless of the policy. Returns `undefined` if there is nothing to roll up, also when a concurrent {@link tick} rolled them up first.
+   */
+  async rollupNow() {
+    const pending = await this.#refreshPending();
+    if (pending.length === 0) {
+      return undefined;
+    }
+    return await this.#rollupWithRetries();
+  }
+
+  getMetrics(): RollupSchedulerMetrics {
+    const now = Date.now();
+    const oldest = Math.min(
+      ...this.#pending.map((tx) => this.#firstSeenAt.get(tx.index) ?? now),
+    );
+    return {
+      pendingTxs: this.#pending.length,
+      pendingNoteHashes: sumBy(this.#pending, (tx) => tx.noteHashes.length),
+      pendingNullifiers: sumBy(this.#pending, (tx) => tx.nullifiers.length),
+      oldestPendingAge: this.#pending.length > 0 ? now - oldest : undefined,
+      rollups: this.#rollups,
+      failedAttempts: this.#failedAttempts,
+      lastRollupAt: this.#lastRollupAt,
+      lastError: this.#lastError,
+      timeToInclusion: {
+        samples: this.#inclusionTimes.length,
+        average:
+          this.#inclusionTimes.length > 0
+            ? sum(this.#inclusionTimes) / this.#inclusionTimes.length
+            : undefined,
+        max:
+          this.#inclusionTimes.length > 0
+            ? Math.max(...this.#inclusionTimes)
+            : undefined,
+      },
+    };
+  }
+
+  #shouldRollup(pending: PendingRollupTx[]) {
+    const fill = rollupFill(this.policy.order(pending));
+    if (fill >= this.policy.fillThreshold) {
+      return true;
+    }
+    const now = Date.now();
+    return pending.some(
+      (tx) =>
+        now - (this.#firstSeenAt.get(tx.index) ?? now) >=
+        toMs(this.policy.maxWait),
+    );
+  }
+
+  async #rollupWithRetries() {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const tx = await this.rollupService.rollup({
+          order: this.policy.order,
+        });
+        if (tx) {
+          this.#rollups++;
+          this.#lastRollupAt = Date.now();
+        }
+        this.#lastError = undefined;
+        await this.#refreshPending();
+        return tx;
+      } catch (e) {
+        this.#failedAttempts++;
+        this.#lastError = utils.errorToString(e);
+        console.error(`rollup attempt ${attempt + 1} failed`, e);
+        if (attempt >= this.policy.maxRetries) {
+          throw e;
+        }
+        await utils.sleep(toMs(this.policy.retryDelay) * 2 ** attempt);
+      }
+    }
+  }
+
+  /**
+   * Reloads pending txs and records inclusion times of txs that were rolled up since the last refresh
+   */
+  async #refreshPending() {
+    const pending = await this.rollupService.getPendingTxs();
+    const now = Date.now();
+    const pendingIndices = new Set(pending.map((tx) => tx.index));
+    for (const [index, firstSeenAt] of this.#firstSeenAt) {
+      if (!pendingIndices.has(index)) {
+        this.#firstSeenAt.delete(index);
+        this.#inclusionTimes.push(now - firstSeenAt);
+      }
+    }
+    this.#inclusionTimes = this.#inclusionTimes.slice(-MAX_INCLUSION_SAMPLES);
+    for (const tx of pending) {
+      if (!this.#firstSeenAt.has(tx.index)) {
+        this.#firstSeenAt.set(tx.index, now);
+      }
+    }
+    this.#pending = pending;
+    return pending;
+  }
+}
+
+/**
+ * Share(0..1] of a rollup that `txs` fill when included in this order
+ */
+export function rollupFill(txs: PendingRollupTx[]) {
+  let noteHashes = 0;
+  let nullifiers = 0;
+  for (const tx of txs) {
+    if (
+      noteHashes + tx.noteHashes.length > MAX_NOTES_PER_ROLLUP ||
+      nullifiers + tx.nullifiers.length > MAX_NULLIFIERS_PER_ROLLUP
+    ) {
+      // the next tx does not fit, so the rollup is full
+      return 1;
+    }
+    noteHashes += tx.noteHashes.length;
+    nullifiers += tx.nullifiers.length;
+  }
+  return Math.max(
+    noteHashes / MAX_NOTES_PER_ROLLUP,
+    nullifiers / MAX_NULLIFIERS_PER_ROLLUP,
+  );
+}
+
+const MAX_INCLUSION_SAMPLES = 100;
+
+function toMs(duration: number | string) {
+  return typeof duration === "number" ? duration : ms(duration);
+}
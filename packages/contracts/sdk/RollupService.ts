@@ -13,9 +13,20 @@ import {
   type NoirAndBackend,
 } from "./PoolErc20Service";
 import type { TreesService } from "./TreesService";
-import { prove } from "./utils";
+import { prove, ReadWriteLock } from "./utils";
+
+export type PendingRollupTx = {
+  index: number;
+  noteHashes: string[];
+  nullifiers: string[];
+};
+
+export type RollupTxsOrder = (txs: PendingRollupTx[]) => PendingRollupTx[];
 
 export class RollupService {
+  // two rollups of the same trees would race, so only one runs at a time
+  #lock = new ReadWriteLock();
+
   constructor(
     private contract: PoolERC20,
     private trees: TreesService,
@@ -24,21 +35,38 @@ export class RollupService {
     },
   ) {}
 
-  async rollup() {
+  /**
+   * Rolls up as many pending txs as fit in one rollup. Txs are taken in `order`(defaults to submission order).
+   *
+   * Returns `undefined` without sending anything if no tx is pending, e.g., because a concurrent call rolled them up.
+   */
+  async rollup({ order }: { order?: RollupTxsOrder } = {}) {
+    return await this.#lock.write(async () => await this.#rollup(order));
+  }
+
+  async #rollup(order: RollupTxsOrder | undefined) {
     const { Fr } = await import("@aztec/aztec.js");
 
-    const { noteHashTree, nullifierTree } = await this.trees.getTrees();
-    const pending = await this.selectTxsToRollup();
+    // selected under the lock, so txs rolled up by the previous holder are not submitted again
+    const pending = await this.selectTxsToRollup(order);
+    if (pending.txIndices.length === 0) {
+      return undefined;
+    }
     const pendingNoteHashes = pending.noteHashes.map((h) => new Fr(BigInt(h)));
     const pendingNullifiers = pending.nullifiers.map((h) => new Fr(BigInt(h)));
-    const noteHashTreeInput = await getInsertTreeInput(
-      noteHashTree,
-      pendingNoteHashes,
-    );
-    const nullifierTreeInput = await getInsertTreeInput(
-      nullifierTree._tree,
-      pendingNullifiers.map((n) => n.toBuffer()),
-    );
+    const { noteHashTreeInput, nullifierTreeInput } =
+      await this.trees.writeTrees(async ({ noteHashTree, nullifierTree }) => {
+        return {
+          noteHashTreeInput: await getInsertTreeInput(
+            noteHashTree,
+            pendingNoteHashes,
+          ),
+          nullifierTreeInput: await getInsertTreeInput(
+            nullifierTree._tree,
+            pendingNullifiers.map((n) => n.toBuffer()),
+          ),
+        };
+      });
     assert(
       nullifierTreeInput.batchInsertResult != null,
       "invalid nullifier tree batch insert input",
@@ -106,21 +134,30 @@ export class RollupService {
     return tx;
   }
 
-  async selectTxsToRollup() {
-    const txs = Array.from(
-      (await this.contract.getAllPendingTxs()).entries(),
-    ).filter(([, tx]) => !tx.rolledUp);
-    let batch: {
-      txIndices: number[];
-      noteHashes: string[];
-      nullifiers: string[];
-    } = {
-      txIndices: [],
-      noteHashes: [],
-      nullifiers: [],
+  async getPendingTxs(): Promise<PendingRollupTx[]> {
+    const txs = await this.contract.getAllPendingTxs();
+    return Array.from(txs.entries()).flatMap(([index, tx]) =>
+      tx.rolledUp
+        ? []
+        : [
+            {
+              index,
+              noteHashes: tx.noteHashes.map((h) => h.toString()),
+              nullifiers: tx.nullifiers.map((n) => n.toString()),
+            },
+          ],
+    );
+  }
+
+  async selectTxsToRollup(order: RollupTxsOrder = (txs) => txs) {
+    const txs = order(await this.getPendingTxs());
+    const batch = {
+      txIndices: [] as number[],
+      noteHashes: [] as string[],
+      nullifiers: [] as string[],
     };
 
-    for (const [i, tx] of txs) {
+    for (const tx of txs) {
       if (
         batch.noteHashes.length + tx.noteHashes.length > MAX_NOTES_PER_ROLLUP ||
         batch.nullifiers.length + tx.nullifiers.length >
@@ -128,12 +165,9 @@ export class RollupService {
       ) {
         break;
       }
-      // TODO(perf): this is O(N^2), refactor
-      batch = {
-        txIndices: [...batch.txIndices, i],
-        noteHashes: [...batch.noteHashes, ...tx.noteHashes],
-        nullifiers: [...batch.nullifiers, ...tx.nullifiers],
-      };
+      batch.txIndices.push(tx.index);
+      batch.noteHashes.push(...tx.noteHashes);
+      batch.nullifiers.push(...tx.nullifiers);
     }
     return {
       txIndices: batch.txIndices,
@@ -161,16 +195,24 @@ async function getInsertTreeInput<T extends Fr | Buffer>(
   let batchInsertResult:
     | Awaited<ReturnType<StandardIndexedTree["batchInsert"]>>
     | undefined;
-  if ("batchInsert" in tree) {
-    const subtreeHeight = Math.log2(newLeaves.length);
-    assert(Number.isInteger(subtreeHeight), "subtree height must be integer");
-    // console.log("batch inserting", newLeaves);
-    batchInsertResult = await tree.batchInsert(newLeaves as any, subtreeHeight);
-  } else {
-    await tree.appendLeaves(newLeaves);
+  let newTreeSnapshot: Awaited<ReturnType<typeof treeToSnapshot>>;
+  try {
+    if ("batchInsert" in tree) {
+      const subtreeHeight = Math.log2(newLeaves.length);
+      assert(Number.isInteger(subtreeHeight), "subtree height must be integer");
+      // console.log("batch inserting", newLeaves);
+      batchInsertResult = await tree.batchInsert(
+        newLeaves as any,
+        subtreeHeight,
+      );
+    } else {
+      await tree.appendLeaves(newLeaves);
+    }
+    newTreeSnapshot = await treeToSnapshot(tree as any);
+  } finally {
+    // trees are long-lived, never leave uncommitted leaves behind
+    await tree.rollback();
   }
-  const newTreeSnapshot = await treeToSnapshot(tree as any);
-  await tree.rollback();
 
   return {
     treeSnapshot,
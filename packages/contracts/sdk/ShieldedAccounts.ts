@@ -0,0 +1,49 @@
+import { assert } from "ts-essentials";
+import { poseidon2Hash } from "./PoolErc20Service";
+
+// not used by circuits. Must not collide with other generator indices
+const GENERATOR_INDEX__ACCOUNT_DERIVATION = 6;
+
+/** path of the root secret key itself */
+export const ROOT_ACCOUNT_PATH = "m";
+export const MAX_ACCOUNT_INDEX = 2 ** 31 - 1;
+
+/**
+ * Parses a BIP32-like account path, e.g., `m/1/0`, into its indices
+ */
+export function parseAccountPath(path: string): number[] {
+  const [root, ...segments] = path.split("/");
+  assert(root === ROOT_ACCOUNT_PATH, `invalid account path: ${path}`);
+  return segments.map((segment) => {
+    assert(/^\d+$/.test(segment), `invalid account path: ${path}`);
+    const index = Number(segment);
+    assert(index <= MAX_ACCOUNT_INDEX, `account index out of range: ${path}`);
+    return index;
+  });
+}
+
+export function formatAccountPath(indices: number[]) {
+  return [ROOT_ACCOUNT_PATH, ...indices].join("/");
+}
+
+/**
+ * Derives the secret key of a shielded sub-account, e.g., one per department or payroll run.
+ *
+ * Every level hashes its parent key with the index, so a sub-account key reveals neither its parent nor its siblings (like BIP32 hardened derivation). `m` is the root key itself, so existing accounts keep their notes.
+ */
+export async function deriveAccountSecretKey(
+  rootSecretKey: string,
+  path: string,
+) {
+  let secretKey = rootSecretKey;
+  for (const index of parseAccountPath(path)) {
+    secretKey = (
+      await poseidon2Hash([
+        GENERATOR_INDEX__ACCOUNT_DERIVATION,
+        secretKey,
+        index,
+      ])
+    ).toString();
+  }
+  return secretKey;
+}
@@ -0,0 +1,82 @@
+import { ethers } from "ethers";
+import { assert } from "ts-essentials";
+import { CompleteWaAddress } from "./PoolErc20Service";
+
+/**
+ * Human-readable prefix of encoded shielded addresses, e.g., `wa1...`
+ */
+export const SHIELDED_ADDRESS_PREFIX = "wa1";
+
+// Note: bump when the encoding changes
+const SHIELDED_ADDRESS_VERSION = 1;
+const COMPLETE_ADDRESS_BYTES = 128;
+const CHECKSUM_BYTES = 4;
+const PAYLOAD_BYTES = 1 + COMPLETE_ADDRESS_BYTES + CHECKSUM_BYTES;
+
+/**
+ * Encodes `address` as `wa1<base58(version ++ address ++ checksum)>`. A typo fails the checksum instead of sending notes nobody can spend.
+ */
+export function encodeShieldedAddress(address: CompleteWaAddress) {
+  assert(address.waCoords, "address without coordinates can't receive notes");
+  const body = ethers.concat([
+    ethers.toBeHex(SHIELDED_ADDRESS_VERSION, 1),
+    address.toString(),
+  ]);
+  const payload = ethers.concat([body, checksum(body)]);
+  return `${SHIELDED_ADDRESS_PREFIX}${ethers.encodeBase58(payload)}`;
+}
+
+export function decodeShieldedAddress(str: string) {
+  str = str.trim();
+  assert(
+    str.startsWith(SHIELDED_ADDRESS_PREFIX),
+    `invalid shielded address prefix: ${str}`,
+  );
+  let value: bigint;
+  try {
+    value = ethers.decodeBase58(str.slice(SHIELDED_ADDRESS_PREFIX.length));
+  } catch {
+    throw new Error(`invalid shielded address: ${str}`);
+  }
+  assert(
+    value < 1n << BigInt(PAYLOAD_BYTES * 8),
+    `invalid shielded address length: ${str}`,
+  );
+  const payload = ethers.toBeHex(value, PAYLOAD_BYTES);
+  const body = ethers.dataSlice(payload, 0, PAYLOAD_BYTES - CHECKSUM_BYTES);
+  assert(
+    ethers.dataSlice(payload, PAYLOAD_BYTES - CHECKSUM_BYTES) ===
+      checksum(body),
+    `invalid shielded address checksum: ${str}`,
+  );
+  assert(
+    ethers.getBytes(body)[0] === SHIELDED_ADDRESS_VERSION,
+    `unsupported shielded address version: ${str}`,
+  );
+  return CompleteWaAddress.fromString(ethers.dataSlice(body, 1));
+}
+
+/**
+ * Accepts both {@link encodeShieldedAddress} and the raw hex of {@link CompleteWaAddress.toString}
+ */
+export function parseShieldedAddress(str: string) {
+  str = str.trim();
+  if (str.startsWith(SHIELDED_ADDRESS_PREFIX)) {
+    return decodeShieldedAddress(str);
+  }
+  assert(ethers.isHexString(str), `invalid shielded address: ${str}`);
+  return CompleteWaAddress.fromString(str);
+}
+
+export function isShieldedAddress(str: string) {
+  try {
+    parseShieldedAddress(str);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function checksum(body: ethers.BytesLike) {
+  return ethers.dataSlice(ethers.keccak256(body), 0, CHECKSUM_BYTES);
+}
@@ -1,161 +1,460 @@
 import type { Fr } from "@aztec/aztec.js";
 import type { StandardTree } from "@aztec/merkle-tree";
+import { utils } from "@repo/utils";
 import { ethers } from "ethers";
 import { isEqual, orderBy, range, times } from "lodash";
 import { assert } from "ts-essentials";
 import { z } from "zod";
 import type { PoolERC20 } from "../typechain-types";
+import {
+  fieldPrefix,
+  MAX_FIELD_PREFIX_BITS,
+  type ClientTreesService,
+} from "./ClientTreesService";
 import { NonMembershipTree } from "./NonMembershipTree";
+import { PoolEventIndexerService } from "./PoolEventIndexer";
 import {
   INCLUDE_UNCOMMITTED,
+  MAX_NOTES_PER_ROLLUP,
   MAX_NULLIFIERS_PER_ROLLUP,
   NOTE_HASH_TREE_HEIGHT,
   NULLIFIER_TREE_HEIGHT,
 } from "./PoolErc20Service";
+import { ReadWriteLock } from "./utils";
+
+export type TreesServiceOptions = {
+  /** LMDB data directory. Trees are rebuilt from events on every start if omitted. */
+  dataDir?: string;
+  /** source of `NoteHashes` and `Nullifiers` events. Share it with other services to fetch events once */
+  indexer?: PoolEventIndexerService;
+};
 
+/**
+ * Long-lived note hash and nullifier trees. Only events emitted after the last sync are applied to the trees. Requests are served from a consistent snapshot: reads share the trees, syncs and rollups lock them exclusively.
+ */
 export class TreesService {
-  constructor(private contract: PoolERC20) {}
+  #state: Promise<TreesState> | undefined;
+  #syncing: Promise<void> | undefined;
+  #lock = new ReadWriteLock();
+  readonly indexer: PoolEventIndexerService;
+
+  constructor(
+    contract: PoolERC20,
+    readonly options: TreesServiceOptions = {},
+  ) {
+    this.indexer = options.indexer ?? new PoolEventIndexerService(contract);
+  }
 
   getTreeRoots = z
     .function()
     .args()
     .implement(async () => {
-      const { noteHashTree, nullifierTree } = await this.getTrees();
-      // console.log("nullifier_tree_root", nullifierTree.getRoot());
-      return {
-        note_hash_root: ethers.hexlify(
-          noteHashTree.getRoot(INCLUDE_UNCOMMITTED),
-        ),
-      };
+      return await this.readTrees(async ({ noteHashTree }) => {
+        return {
+          note_hash_root: ethers.hexlify(
+            noteHashTree.getRoot(INCLUDE_UNCOMMITTED),
+          ),
+        };
+      });
     });
 
-  // TODO(security): this reveals link between noteHash and nullifier to the backend. Can we move this to frontend or put backend inside a TEE?
+  // TODO(security): this reveals link between noteHash and nullifier to the backend. Frontends should use ClientTreesService instead.
   getNoteConsumptionInputs = z
     .function()
     .args(z.object({ noteHash: z.string(), nullifier: z.string() }))
     .implement(async (params) => {
       const { Fr } = await import("@aztec/aztec.js");
 
-      const { noteHashTree } = await this.getTrees();
-
-      const noteIndex = noteHashTree.findLeafIndex(
-        new Fr(BigInt(params.noteHash)),
-        INCLUDE_UNCOMMITTED,
-      );
-      assert(noteIndex != null, "note not found");
-      return {
-        note_sibling_path: (
-          await noteHashTree.getSiblingPath(noteIndex, INCLUDE_UNCOMMITTED)
-        )
-          .toTuple()
-          .map((x: Fr) => x.toString()),
-        note_index: ethers.toQuantity(noteIndex),
-      };
+      return await this.readTrees(async ({ noteHashTree }) => {
+        const noteIndex = noteHashTree.findLeafIndex(
+          new Fr(BigInt(params.noteHash)),
+          INCLUDE_UNCOMMITTED,
+        );
+        assert(noteIndex != null, "note not found");
+        return {
+          note_sibling_path: (
+            await noteHashTree.getSiblingPath(noteIndex, INCLUDE_UNCOMMITTED)
+          )
+            .toTuple()
+            .map((x: Fr) => x.toString()),
+          note_index: ethers.toQuantity(noteIndex),
+        };
+      });
     });
 
-  // TODO(security): this reveals link between noteHash and nullifier to the backend. Can we move this to frontend or put backend inside a TEE?
+  // TODO(security): this reveals link between noteHash and nullifier to the backend. Frontends should use ClientTreesService instead.
   noteExistsAndNotNullified = z
     .function()
     .args(z.object({ noteHash: z.string(), nullifier: z.string() }))
     .returns(z.promise(z.boolean()))
     .implement(async ({ noteHash, nullifier }) => {
       const { Fr } = await import("@aztec/aztec.js");
-      const { noteHashTree, nullifierTree } = await this.getTrees();
-      const noteHashIndex = await noteHashTree.findLeafIndex(
-        new Fr(BigInt(noteHash)),
-        INCLUDE_UNCOMMITTED,
-      );
-      if (noteHashIndex == null) {
-        // note does not exist
-        return false;
-      }
-      const nullifierIndex = await nullifierTree.findLeafIndex(
-        new Fr(BigInt(nullifier)),
-      );
-      if (nullifierIndex != null) {
-        // note is nullified
-        return false;
-      }
-      return true;
+      return await this.readTrees(async ({ noteHashTree, nullifierTree }) => {
+        const noteHashIndex = await noteHashTree.findLeafIndex(
+          new Fr(BigInt(noteHash)),
+          INCLUDE_UNCOMMITTED,
+        );
+        if (noteHashIndex == null) {
+          // note does not exist
+          return false;
+        }
+        const nullifierIndex = await nullifierTree.findLeafIndex(
+          new Fr(BigInt(nullifier)),
+        );
+        if (nullifierIndex != null) {
+          // note is nullified
+          return false;
+        }
+        return true;
+      });
+    });
+
+  /**
+   * Public tree data for {@link ClientTreesService}. Returns indexes of all note hashes whose top `prefixBits` bits equal `prefix`.
+   */
+  getNoteHashIndexes = z
+    .function()
+    .args(zFieldPrefix)
+    .implement(async ({ prefix, prefixBits }) => {
+      return await this.readTrees(async ({ leaves }) => {
+        return leaves.noteHashes.flatMap((noteHash, index) =>
+          noteHash !== 0n && fieldPrefix(noteHash, prefixBits) === prefix
+            ? [{ noteHash: ethers.toBeHex(noteHash, 32), index }]
+            : [],
+        );
+      });
+    });
+
+  /**
+   * Public tree data for {@link ClientTreesService}. Returns the leaves of the `bucketIndex`-th subtree of height `bucketHeight` and the sibling path of the subtree root.
+   */
+  getNoteHashBucket = z
+    .function()
+    .args(
+      z.object({
+        bucketIndex: z.number().int().nonnegative(),
+        bucketHeight: z.number().int().min(0).max(NOTE_HASH_TREE_HEIGHT),
+      }),
+    )
+    .implement(async ({ bucketIndex, bucketHeight }) => {
+      return await this.readTrees(async ({ noteHashTree, leaves }) => {
+        const bucketSize = 2 ** bucketHeight;
+        const firstLeaf = bucketIndex * bucketSize;
+        const siblingPath =
+          bucketHeight < NOTE_HASH_TREE_HEIGHT
+            ? (
+                await noteHashTree.getSiblingPath(
+                  BigInt(firstLeaf),
+                  INCLUDE_UNCOMMITTED,
+                )
+              )
+                .toTuple()
+                .slice(bucketHeight)
+                .map((x: Fr) => x.toString())
+            : [];
+        return {
+          leaves: leaves.noteHashes
+            .slice(firstLeaf, firstLeaf + bucketSize)
+            .map((x) => ethers.toBeHex(x, 32)),
+          siblingPath,
+        };
+      });
     });
 
-  async getTrees() {
-    return await ethers.resolveProperties({
-      noteHashTree: this.#getNoteHashTree(),
-      nullifierTree: this.#getNullifierTree(),
+  /**
+   * Public tree data for {@link ClientTreesService}. Returns all nullifiers whose top `prefixBits` bits equal `prefix`.
+   */
+  getNullifiers = z
+    .function()
+    .args(zFieldPrefix)
+    .implement(async ({ prefix, prefixBits }) => {
+      return await this.readTrees(async ({ leaves }) => {
+        return leaves.nullifiers
+          .filter(
+            (nullifier) =>
+              nullifier !== 0n && fieldPrefix(nullifier, prefixBits) === prefix,
+          )
+          .map((x) => ethers.toBeHex(x, 32));
+      });
     });
+
+  /**
+   * Syncs the trees and runs `fn` while no sync or rollup can modify them. `fn` must not modify the trees.
+   */
+  async readTrees<T>(fn: (trees: Trees) => Promise<T>): Promise<T> {
+    await this.sync();
+    return await this.#lock.read(async () => fn(await this.#getTrees()));
+  }
+
+  /**
+   * Syncs the trees and runs `fn` with exclusive access to them. `fn` must roll back or commit its changes before returning.
+   */
+  async writeTrees<T>(fn: (trees: Trees) => Promise<T>): Promise<T> {
+    await this.sync();
+    return await this.#lock.write(async () => fn(await this.#getTrees()));
   }
 
-  async #getNoteHashTree() {
+  /**
+   * Applies events emitted since the last sync. Concurrent calls share the same sync.
+   */
+  async sync() {
+    this.#syncing ??= this.#lock
+      .write(() => this.#applyNewEvents())
+      .finally(() => {
+        this.#syncing = undefined;
+      });
+    await this.#syncing;
+  }
+
+  async #applyNewEvents() {
     const { Fr } = await import("@aztec/aztec.js");
+    let state = await this.#getState();
+    if (
+      state.checkpoint.lastBlock >= 0 &&
+      !(await this.indexer.isCanonical({
+        number: state.checkpoint.lastBlock,
+        hash: state.checkpoint.lastBlockHash,
+      }))
+    ) {
+      console.log("reorg detected, rebuilding trees");
+      await state.store.clear();
+      state = await this.#resetState(state.store);
+    }
+
+    const head = await this.indexer.sync();
+    const fromBlock = state.checkpoint.lastBlock + 1;
+    if (!head || fromBlock > head.number) {
+      return;
+    }
+
+    const blocks = { fromBlock, toBlock: head.number };
     const noteHashes = sortEventsWithIndex(
-      await this.contract.queryFilter(this.contract.filters.NoteHashes()),
+      await this.indexer.getEvents(["NoteHashes"], blocks),
+      state.checkpoint.noteHashBatches,
     ).map((x) => x.noteHashes);
+    const nullifiers = sortEventsWithIndex(
+      await this.indexer.getEvents(["Nullifiers"], blocks),
+      state.checkpoint.nullifierBatches,
+    ).map((x) => x.nullifiers.map((n) => new Fr(BigInt(n))));
 
-    const noteHashTree = await createMerkleTree(NOTE_HASH_TREE_HEIGHT);
-    if (noteHashes.length > 0) {
-      await noteHashTree.appendLeaves(
-        noteHashes.flat().map((h) => new Fr(BigInt(h))),
+    // the trees are committed before the checkpoint is written. Batches that a crash left in between are already in the trees: skip them instead of inserting them twice
+    const newNoteHashes = noteHashes.slice(
+      countBatchesAfterCheckpoint(
+        state.noteHashTree.getNumLeaves(INCLUDE_UNCOMMITTED),
+        state.checkpoint.noteHashLeaves,
+        MAX_NOTES_PER_ROLLUP,
+      ),
+    );
+    const newNullifiers = nullifiers.slice(
+      countBatchesAfterCheckpoint(
+        state.nullifierTree.getNumLeaves(),
+        state.checkpoint.nullifierLeaves,
+        MAX_NULLIFIERS_PER_ROLLUP,
+      ),
+    );
+
+    if (newNoteHashes.length > 0) {
+      await state.noteHashTree.appendLeaves(
+        newNoteHashes.flat().map((h) => new Fr(BigInt(h))),
+      );
+      await state.noteHashTree.commit();
+      state.leaves.noteHashes.push(
+        ...newNoteHashes.flat().map((h) => BigInt(h)),
       );
-      await noteHashTree.commit();
     }
-    return noteHashTree;
+    for (const batch of newNullifiers) {
+      await state.nullifierTree.insert(batch);
+      state.leaves.nullifiers.push(...batch.map((n) => n.toBigInt()));
+    }
+
+    state.checkpoint = {
+      lastBlock: head.number,
+      lastBlockHash: head.hash,
+      noteHashBatches: state.checkpoint.noteHashBatches + noteHashes.length,
+      nullifierBatches: state.checkpoint.nullifierBatches + nullifiers.length,
+      ...countLeaves(state),
+    };
+    await state.checkpointSingleton.set(JSON.stringify(state.checkpoint));
   }
 
-  async #getNullifierTree() {
-    const { Fr } = await import("@aztec/aztec.js");
+  async #getTrees(): Promise<Trees> {
+    const { noteHashTree, nullifierTree, leaves } = await this.#getState();
+    return { noteHashTree, nullifierTree, leaves };
+  }
 
-    const nullifiers = sortEventsWithIndex(
-      await this.contract.queryFilter(this.contract.filters.Nullifiers()),
-    ).map((x) => x.nullifiers.map((n) => new Fr(BigInt(n))));
+  #getState() {
+    this.#state ??= utils.iife(async () => {
+      // @ts-ignore hardhat does not support ESM
+      const { AztecLmdbStore } = await import("@aztec/kv-store/lmdb");
+      const store = AztecLmdbStore.open(this.options.dataDir);
+      const checkpointSingleton = store.openSingleton(TREES_CHECKPOINT_KEY);
+      const checkpoint: string | undefined = await checkpointSingleton.get();
+      if (checkpoint == null) {
+        return await this.#resetState(store);
+      }
+      const noteHashTree = await loadMerkleTree(store);
+      const nullifierTree = await NonMembershipTree.load(store);
+      return {
+        store,
+        checkpointSingleton,
+        checkpoint: JSON.parse(checkpoint) as TreesCheckpoint,
+        noteHashTree,
+        nullifierTree,
+        leaves: {
+          noteHashes: await readNoteHashLeaves(noteHashTree),
+          nullifiers: await nullifierTree.getLeaves(),
+        },
+      };
+    });
+    return this.#state;
+  }
 
+  async #resetState(store: any): Promise<TreesState> {
+    const { Fr } = await import("@aztec/aztec.js");
     // add 1 to the nullifier tree, so it's possible to add new nullifiers to it(adding requires a non-zero low leaf)
     const initialNullifiers = [new Fr(1)].concat(
       // sub 2 because `0` and `1` are the first 2 leaves
       times(MAX_NULLIFIERS_PER_ROLLUP - 2, () => new Fr(0)),
     );
-    const allNullifiers = initialNullifiers.concat(nullifiers.flat());
-    const nullifierTree = await NonMembershipTree.new(
-      allNullifiers,
-      NULLIFIER_TREE_HEIGHT,
-    );
-    return nullifierTree;
+    const trees: Trees = {
+      noteHashTree: await createMerkleTree(NOTE_HASH_TREE_HEIGHT, store),
+      nullifierTree: await NonMembershipTree.new(
+        initialNullifiers,
+        NULLIFIER_TREE_HEIGHT,
+        store,
+      ),
+      leaves: {
+        noteHashes: [],
+        nullifiers: initialNullifiers.map((n) => n.toBigInt()),
+      },
+    };
+    const state: TreesState = {
+      ...trees,
+      store,
+      checkpointSingleton: store.openSingleton(TREES_CHECKPOINT_KEY),
+      checkpoint: {
+        lastBlock: -1,
+        lastBlockHash: ethers.ZeroHash,
+        noteHashBatches: 0,
+        nullifierBatches: 0,
+        ...countLeaves(trees),
+      },
+    };
+    this.#state = Promise.resolve(state);
+    return state;
   }
 }
 
-function sortEventsWithIndex<T extends { args: { index: bigint } }>(
+export type Trees = {
+  noteHashTree: StandardTree<Fr>;
+  nullifierTree: NonMembershipTree;
+  /** leaves of both trees in insertion order */
+  leaves: {
+    noteHashes: bigint[];
+    nullifiers: bigint[];
+  };
+};
+
+type TreesCheckpoint = {
+  lastBlock: number;
+  lastBlockHash: string;
+  noteHashBatches: number;
+  nullifierBatches: number;
+  /** committed leaves of the trees when the checkpoint was written */
+  noteHashLeaves: number;
+  nullifierLeaves: number;
+};
+
+type TreesState = Trees & {
+  store: any;
+  checkpointSingleton: any;
+  checkpoint: TreesCheckpoint;
+};
+
+const zFieldPrefix = z.object({
+  prefix: z.number().int().nonnegative(),
+  prefixBits: z.number().int().min(0).max(MAX_FIELD_PREFIX_BITS),
+});
+
+const TREES_CHECKPOINT_KEY = "trees-checkpoint";
+const NOTE_HASH_TREE_NAME = "note-hash-tree";
+
+function sortEventsWithIndex<T extends { index: number }>(
   events: T[],
-): T["args"][] {
-  const ordered = orderBy(
-    events.map((e) => e.args),
-    (x) => x.index,
-  );
+  firstIndex = 0,
+): T[] {
+  const ordered = orderBy(events, (x) => x.index);
   assert(
     isEqual(
       ordered.map((x) => x.index),
-      range(0, ordered.length).map((x) => BigInt(x)),
+      range(firstIndex, firstIndex + ordered.length),
     ),
     `missing some events: ${ordered.map((x) => x.index).join(", ")} | ${ordered.length}`,
   );
   return ordered;
 }
 
-async function createMerkleTree(height: number) {
+function countLeaves({ noteHashTree, nullifierTree }: Trees) {
+  return {
+    noteHashLeaves: Number(noteHashTree.getNumLeaves(INCLUDE_UNCOMMITTED)),
+    nullifierLeaves: Number(nullifierTree.getNumLeaves()),
+  };
+}
+
+/**
+ * Number of batches committed to a tree of `numLeaves` leaves after the checkpoint
+ */
+function countBatchesAfterCheckpoint(
+  numLeaves: bigint,
+  checkpointLeaves: number,
+  batchSize: number,
+) {
+  const leaves = Number(numLeaves) - checkpointLeaves;
+  assert(
+    leaves >= 0 && leaves % batchSize === 0,
+    `tree does not match the checkpoint: ${numLeaves} | ${checkpointLeaves}`,
+  );
+  return leaves / batchSize;
+}
+
+async function createMerkleTree(height: number, store: any) {
   const { StandardTree, newTree, Poseidon } = await import(
     "@aztec/merkle-tree"
   );
 
   const { Fr } = await import("@aztec/aztec.js");
-  // @ts-ignore hardhat does not support ESM
-  const { AztecLmdbStore } = await import("@aztec/kv-store/lmdb");
-  const store = AztecLmdbStore.open();
   const tree: StandardTree<Fr> = await newTree(
     StandardTree,
     store,
     new Poseidon(),
-    `tree-name`,
+    NOTE_HASH_TREE_NAME,
     Fr,
     height,
   );
   return tree;
 }
+
+async function readNoteHashLeaves(tree: StandardTree<Fr>) {
+  const leaves: bigint[] = [];
+  for (let i = 0n; i < tree.getNumLeaves(INCLUDE_UNCOMMITTED); i++) {
+    const leaf = await tree.getLeafValue(i, INCLUDE_UNCOMMITTED);
+    leaves.push(leaf?.toBigInt() ?? 0n);
+  }
+  return leaves;
+}
+
+async function loadMerkleTree(store: any) {
+  const { StandardTree, loadTree, Poseidon } = await import(
+    "@aztec/merkle-tree"
+  );
+
+  const { Fr } = await import("@aztec/aztec.js");
+  const tree: StandardTree<Fr> = await loadTree(
+    StandardTree,
+    store,
+    new Poseidon(),
+    NOTE_HASH_TREE_NAME,
+    Fr,
+  );
+  return tree;
+}
@@ -1,33 +1,71 @@
 import { UltraHonkBackend } from "@aztec/bb.js";
 import type { CompiledCircuit } from "@noir-lang/noir_js";
 import { utils } from "@repo/utils";
+import { times } from "lodash";
 import os from "node:os";
 import type { AsyncOrSync } from "ts-essentials";
 import { NativeUltraHonkBackend } from "./NativeUltraHonkBackend";
+import { ProvingQueue, type ProverBackend } from "./ProvingQueue";
+import { RemoteProverBackend } from "./RemoteProver";
+import {
+  RollupSchedulerService,
+  type RollupSchedulerPolicy,
+} from "./RollupSchedulerService";
 import { RollupService } from "./RollupService";
 import { createCoreSdk } from "./sdk";
 import type { TreesService } from "./TreesService";
 
+export type RollupProverOptions = {
+  /** how many rollup proofs are generated in parallel. Defaults to 1 */
+  workers?: number;
+  /** max proving time of a single rollup proof */
+  timeout?: number | string;
+  /** prove on a prover server (see `startProverServer`) instead of locally */
+  remoteUrl?: string;
+};
+
 export function createBackendSdk(
   coreSdk: ReturnType<typeof createCoreSdk>,
   trees: TreesService,
   compiledCircuits: Record<"rollup", AsyncOrSync<CompiledCircuit>>,
+  options: {
+    rollupScheduler?: Partial<RollupSchedulerPolicy>;
+    prover?: RollupProverOptions;
+  } = {},
 ) {
   const rollup = new RollupService(coreSdk.contract, trees, {
     rollup: utils.iife(async () => {
       const { Noir } = await import("@noir-lang/noir_js");
       const circuit = await compiledCircuits.rollup;
       const noir = new Noir(circuit);
-      const backend = process.env.CI
-        ? new UltraHonkBackend(circuit.bytecode, { threads: os.cpus().length })
-        : (new NativeUltraHonkBackend(
-            `${process.env.HOME}/.bb/bb`,
-            circuit,
-          ) as unknown as UltraHonkBackend);
-      return { circuit, noir, backend };
+      const backend = createRollupProver(circuit, options.prover);
+      return { circuit, noir, backend: backend as unknown as UltraHonkBackend };
     }),
   });
+  const rollupScheduler = new RollupSchedulerService(
+    rollup,
+    options.rollupScheduler,
+  );
   return {
     rollup,
+    rollupScheduler,
+  };
+}
+
+export function createRollupProver(
+  circuit: CompiledCircuit,
+  { workers = 1, timeout, remoteUrl }: RollupProverOptions = {},
+) {
+  const createWorker = (): ProverBackend => {
+    if (remoteUrl) {
+      return new RemoteProverBackend(remoteUrl, "rollup");
+    }
+    if (process.env.CI) {
+      return new UltraHonkBackend(circuit.bytecode, {
+        threads: Math.max(1, Math.floor(os.cpus().length / workers)),
+      });
+    }
+    return new NativeUltraHonkBackend(`${process.env.HOME}/.bb/bb`, circuit);
   };
+  return new ProvingQueue(times(workers, createWorker), { timeout });
 }
@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+/**
+ * Standalone pool indexer
+ *
+ * Usage:
+ *   pnpm indexer:serve                       # Index localhost into a temporary store, listen on a random port
+ *   pnpm indexer:serve --port=8091 --data-dir=./indexer-data
+ *   pnpm indexer:serve --rpc-url=https://... --chain-id=84532 --challenge=0x... --confirmations=12 --from-block=123
+ *
+ * Contract addresses come from deployments.json. Point the interface at it with POOL_INDEXER_URL=http://127.0.0.1:8091
+ */
+
+import { ethers } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AuditLog__factory,
+  PoolERC20__factory,
+  RlweAuditChallenge__factory,
+} from "../../typechain-types";
+import {
+  PoolIndexerService,
+  startPoolIndexerServer,
+} from "../PoolIndexerService";
+
+const args = process.argv.slice(2);
+function getArg(name: string) {
+  return args
+    .find((arg) => arg.startsWith(`--${name}=`))
+    ?.slice(name.length + 3);
+}
+
+const deployments = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "../../deployments.json"), "utf-8"),
+);
+async function main() {
+  const chainId = getArg("chain-id") ?? "31337";
+  const contracts = deployments[chainId]?.contracts;
+  if (!contracts?.PoolERC20) {
+    throw new Error(`PoolERC20 is not deployed on chain ${chainId}`);
+  }
+  const provider = new ethers.JsonRpcProvider(
+    getArg("rpc-url") ?? "http://127.0.0.1:8545",
+  );
+  const challengeAddress = getArg("challenge");
+
+  const indexer = new PoolIndexerService(
+    PoolERC20__factory.connect(contracts.PoolERC20, provider),
+    {
+      dataDir: getArg("data-dir"),
+      challenge: challengeAddress
+        ? RlweAuditChallenge__factory.connect(challengeAddress, provider)
+        : undefined,
+      auditLog: contracts.AuditLog
+        ? AuditLog__factory.connect(contracts.AuditLog, provider)
+        : undefined,
+      events: {
+        ...(getArg("confirmations") && {
+          confirmations: Number(getArg("confirmations")),
+        }),
+        ...(getArg("from-block") && {
+          fromBlock: Number(getArg("from-block")),
+        }),
+      },
+    },
+  );
+  indexer.start();
+  const server = await startPoolIndexerServer({
+    indexer,
+    port: Number(getArg("port") ?? 0),
+  });
+  console.log(`pool indexer listening on ${server.url}`);
+
+  process.on("SIGINT", async () => {
+    await server.close();
+    await indexer.stop();
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+#!/usr/bin/env tsx
+/**
+ * Local stand-in for a remote rollup prover
+ *
+ * Usage:
+ *   pnpm prover:serve                        # Listen on a random port with 1 worker
+ *   pnpm prover:serve --port=8090 --workers=2
+ *
+ * Point the interface at it with ROLLUP_PROVER_URL=http://127.0.0.1:8090
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { createRollupProver } from "../backendSdk";
+import { startProverServer } from "../RemoteProver";
+
+const args = process.argv.slice(2);
+const portArg = args.find((arg) => arg.startsWith("--port="));
+const workersArg = args.find((arg) => arg.startsWith("--workers="));
+
+const circuit = JSON.parse(
+  fs.readFileSync(
+    path.join(__dirname, "../../noir/target/rollup.json"),
+    "utf-8",
+  ),
+);
+async function main() {
+  const rollup = createRollupProver(circuit, {
+    workers: workersArg ? Number(workersArg.split("=")[1]) : 1,
+  });
+  const server = await startProverServer({
+    backends: { rollup },
+    port: portArg ? Number(portArg.split("=")[1]) : 0,
+  });
+  console.log(`prover server listening on ${server.url}`);
+
+  process.on("SIGINT", async () => {
+    await server.close();
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
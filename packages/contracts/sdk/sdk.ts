@@ -4,14 +4,38 @@ import { mapValues } from "lodash";
 import type { AsyncOrSync } from "ts-essentials";
 import type { PoolERC20 } from "../typechain-types";
 import { EncryptionService } from "./EncryptionService";
+import { KeyMigrationService } from "./KeyMigrationService";
 import { LobService } from "./LobService";
 import { MpcProverService } from "./mpc/MpcNetworkService";
+import type { NoteStore } from "./NoteStore";
 import { PoolErc20Service } from "./PoolErc20Service";
+import { PoolEventIndexerService } from "./PoolEventIndexer";
+import { PoolTxTrackerService } from "./PoolTxTracker";
 import { type ITreesService } from "./RemoteTreesService";
 
+export * from "./ClientTreesService";
+export * from "./Cron";
+export * from "./EmployeeRegistry";
 export * from "./EncryptionService";
+export * from "./History";
+export * from "./IncomeProof";
+export * from "./KeyDerivation";
+export * from "./KeyMigrationService";
+export * from "./NoteConsolidationService";
+export * from "./NoteMemo";
+export * from "./NoteSelection";
+export * from "./NoteStore";
+export * from "./PayrollScheduleService";
+export * from "./Payslip";
 export * from "./PoolErc20Service";
+export * from "./PoolEventIndexer";
+export * from "./PoolIndexerClient";
+export * from "./PoolTxTracker";
+export * from "./ProvingQueue";
+export * from "./RelayerClient";
 export * from "./RemoteTreesService";
+export * from "./ShieldedAccounts";
+export * from "./ShieldedAddress";
 export * from "./AuditLogService";
 export * from "./RlweKeygenService";
 export * from "./RlweAuditService";
@@ -21,9 +45,11 @@ export * from "./RlweAuditService";
 
 export function createCoreSdk(contract: PoolERC20) {
   const encryption = EncryptionService.getSingleton();
+  const indexer = new PoolEventIndexerService(contract);
   return {
     contract,
     encryption,
+    indexer,
   };
 }
 
@@ -31,9 +57,17 @@ export function createInterfaceSdk(
   coreSdk: ReturnType<typeof createCoreSdk>,
   trees: ITreesService,
   compiledCircuits: Record<
-    "shield" | "unshield" | "join" | "transfer" | "swap",
+    | "shield"
+    | "unshield"
+    | "join"
+    | "transfer"
+    | "transfer1x3"
+    | "transfer2x4"
+    | "transfer4x8"
+    | "swap",
     AsyncOrSync<CompiledCircuit>
   >,
+  noteStore?: NoteStore,
 ) {
   const circuits = ethers.resolveProperties(
     mapValues(compiledCircuits, getCircuit),
@@ -43,6 +77,8 @@ export function createInterfaceSdk(
     coreSdk.encryption,
     trees,
     circuits,
+    noteStore,
+    coreSdk.indexer,
   );
   const mpcProver = new MpcProverService();
   const lob = new LobService(
@@ -53,13 +89,22 @@ export function createInterfaceSdk(
     circuits,
   );
 
+  const keyMigration = new KeyMigrationService(poolErc20);
+  const txTracker = new PoolTxTrackerService(
+    coreSdk.contract,
+    {},
+    coreSdk.indexer,
+  );
+
   return {
     poolErc20,
     lob,
+    keyMigration,
+    txTracker,
   };
 }
 
-async function getCircuit(artifact: AsyncOrSync<CompiledCircuit>) {
+export async function getCircuit(artifact: AsyncOrSync<CompiledCircuit>) {
   const { Noir } = await import("@noir-lang/noir_js");
   const { UltraHonkBackend } = await import("@aztec/bb.js");
   artifact = await artifact;
@@ -3,3 +3,8 @@
 
 export * from "./NonMembershipTree";
 export * from "./TreesService";
+export * from "./LmdbNoteStore";
+export * from "./LmdbPoolEventStore";
+export * from "./PoolIndexerService";
+export * from "./RemoteProver";
+export * from "./RelayerService";
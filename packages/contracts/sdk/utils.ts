@@ -1,8 +1,10 @@
 import type { Fr } from "@aztec/aztec.js";
 import type { InputMap } from "@noir-lang/noir_js";
 import { ethers } from "ethers";
+import { HTTPError, type ResponsePromise } from "ky";
 import { chunk } from "lodash";
 import fs from "node:fs";
+import type http from "node:http";
 import path from "node:path";
 import { Hex } from "ox";
 import { assert } from "ts-essentials";
@@ -95,6 +97,66 @@ export function promiseWithResolvers<T>(): {
   return ret;
 }
 
+/**
+ * Lets many readers or a single writer in at a time. Waiters are served in FIFO order, so writers are not starved.
+ */
+export class ReadWriteLock {
+  #readers = 0;
+  #writer = false;
+  #waiting: { exclusive: boolean; resolve: () => void }[] = [];
+
+  async read<T>(fn: () => Promise<T>): Promise<T> {
+    return await this.#run(false, fn);
+  }
+
+  async write<T>(fn: () => Promise<T>): Promise<T> {
+    return await this.#run(true, fn);
+  }
+
+  async #run<T>(exclusive: boolean, fn: () => Promise<T>): Promise<T> {
+    if (this.#waiting.length === 0 && this.#canAcquire(exclusive)) {
+      this.#acquire(exclusive);
+    } else {
+      const { promise, resolve } = promiseWithResolvers<void>();
+      this.#waiting.push({ exclusive, resolve });
+      await promise;
+    }
+    try {
+      return await fn();
+    } finally {
+      this.#release(exclusive);
+    }
+  }
+
+  #canAcquire(exclusive: boolean) {
+    return exclusive ? !this.#writer && this.#readers === 0 : !this.#writer;
+  }
+
+  #acquire(exclusive: boolean) {
+    if (exclusive) {
+      this.#writer = true;
+    } else {
+      this.#readers++;
+    }
+  }
+
+  #release(exclusive: boolean) {
+    if (exclusive) {
+      this.#writer = false;
+    } else {
+      this.#readers--;
+    }
+    while (
+      this.#waiting.length > 0 &&
+      this.#canAcquire(this.#waiting[0]!.exclusive)
+    ) {
+      const next = this.#waiting.shift()!;
+      this.#acquire(next.exclusive);
+      next.resolve();
+    }
+  }
+}
+
 export function readNativeHonkProof(pathToProofDir: string) {
   const proof = fs.readFileSync(path.join(pathToProofDir, "proof"));
   const publicInputs = fs.readFileSync(
@@ -112,3 +174,49 @@ export function readNativeHonkProof(pathToProofDir: string) {
     ),
   };
 }
+
+/**
+ * Surfaces the error message of an SDK server(relayer, indexer) instead of a bare HTTP status
+ */
+export async function parseResponse<T>(response: ResponsePromise): Promise<T> {
+  try {
+    return await response.json<T>();
+  } catch (e) {
+    if (e instanceof HTTPError) {
+      const body = await e.response
+        .json<{ error?: string }>()
+        .catch(() => undefined);
+      throw new Error(body?.error ?? e.message);
+    }
+    throw e;
+  }
+}
+
+/**
+ * Thrown by {@link readJsonBody} when a request body exceeds its limit. Servers respond with 413.
+ */
+export class RequestBodyTooLargeError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`request body exceeds ${maxBytes} bytes`);
+    this.name = "RequestBodyTooLargeError";
+  }
+}
+
+/**
+ * Reads and parses the JSON body of a request to an SDK server. Stops reading after `maxBytes`
+ */
+export async function readJsonBody(
+  req: http.IncomingMessage,
+  maxBytes: number,
+): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new RequestBodyTooLargeError(maxBytes);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString());
+}
@@ -0,0 +1,51 @@
+import { expect } from "chai";
+import { nextCronDate, parseCron } from "../sdk/Cron";
+
+describe("Cron", () => {
+  const next = (expression: string, after: string) =>
+    nextCronDate(parseCron(expression), new Date(after)).toISOString();
+
+  it("finds the next matching time", () => {
+    expect(next("0 9 * * *", "2025-01-01T08:59:00Z")).to.equal(
+      "2025-01-01T09:00:00.000Z",
+    );
+    expect(next("0 9 * * *", "2025-01-01T09:00:00Z")).to.equal(
+      "2025-01-02T09:00:00.000Z",
+    );
+    expect(next("*/15 * * * *", "2025-01-01T10:07:30Z")).to.equal(
+      "2025-01-01T10:15:00.000Z",
+    );
+    // days 25-31 OR any Friday: Jan 3rd is a Friday
+    expect(next("30 12 25-31 1 5", "2025-01-01T00:00:00Z")).to.equal(
+      "2025-01-03T12:30:00.000Z",
+    );
+  });
+
+  it("matches either day field if both are restricted", () => {
+    expect(next("0 0 15 * 1", "2025-01-01T00:00:00Z")).to.equal(
+      "2025-01-06T00:00:00.000Z",
+    );
+    expect(next("0 0 15 * *", "2025-01-01T00:00:00Z")).to.equal(
+      "2025-01-15T00:00:00.000Z",
+    );
+    expect(next("0 0 * * 7", "2025-01-01T00:00:00Z")).to.equal(
+      "2025-01-05T00:00:00.000Z",
+    );
+  });
+
+  it("rejects invalid expressions", () => {
+    for (const expression of [
+      "* * * *",
+      "60 * * * *",
+      "* * 0 * *",
+      "5-1 * * * *",
+      "*/0 * * * *",
+      "a * * * *",
+    ]) {
+      expect(() => parseCron(expression), expression).to.throw("invalid cron");
+    }
+    expect(() => next("0 0 31 2 *", "2025-01-01T00:00:00Z")).to.throw(
+      "never matches",
+    );
+  });
+});
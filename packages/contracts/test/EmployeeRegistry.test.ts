@@ -0,0 +1,113 @@
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { ethers } from "ethers";
+import {
+  attestShieldedAddress,
+  EmployeeRegistryService,
+  verifyAddressAttestation,
+} from "../sdk/EmployeeRegistry";
+import { CompleteWaAddress } from "../sdk/PoolErc20Service";
+import {
+  decodeShieldedAddress,
+  encodeShieldedAddress,
+  parseShieldedAddress,
+} from "../sdk/ShieldedAddress";
+chai.use(chaiAsPromised);
+
+describe("EmployeeRegistry", () => {
+  const bob = new ethers.Wallet(
+    "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  );
+  const mallory = new ethers.Wallet(
+    "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+  );
+  const domain = {
+    chainId: 31337,
+    pool: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+  };
+  const address = (i: number) =>
+    new CompleteWaAddress(ethers.toBeHex(i, 32), ethers.toBeHex(i + 1, 32), {
+      x: ethers.toBeHex(i + 2, 32),
+      y: ethers.toBeHex(i + 3, 32),
+    });
+
+  it("encodes checksummed addresses", () => {
+    const encoded = encodeShieldedAddress(address(1));
+    expect(encoded).to.match(/^wa1/);
+    expect(decodeShieldedAddress(encoded).toString()).to.equal(
+      address(1).toString(),
+    );
+    expect(parseShieldedAddress(address(1).toString()).toString()).to.equal(
+      address(1).toString(),
+    );
+
+    const i = encoded.length - 5;
+    const typo =
+      encoded.slice(0, i) +
+      (encoded[i] === "a" ? "b" : "a") +
+      encoded.slice(i + 1);
+    expect(() => decodeShieldedAddress(typo)).to.throw(
+      "invalid shielded address",
+    );
+  });
+
+  it("registers, resolves and rotates addresses", async () => {
+    const registry = new EmployeeRegistryService(domain);
+    const attest = (signer: ethers.Signer, i: number, issuedAt: number) =>
+      attestShieldedAddress(
+        signer,
+        { employeeId: "e1", name: "Bob", address: address(i), issuedAt },
+        domain,
+      );
+
+    await registry.register(await attest(bob, 1, 1000));
+    expect((await registry.resolve("bob")).toString()).to.equal(
+      address(1).toString(),
+    );
+
+    await expect(
+      registry.rotate(await attest(mallory, 666, 3000)),
+    ).to.be.rejectedWith("different wallet");
+    await expect(registry.rotate(await attest(bob, 2, 500))).to.be.rejectedWith(
+      "older",
+    );
+    await registry.rotate(await attest(bob, 2, 2000));
+    expect((await registry.resolve("e1")).toString()).to.equal(
+      address(2).toString(),
+    );
+    expect(
+      (await registry.addressAt("e1", new Date(1500_000)))?.toString(),
+    ).to.equal(address(1).toString());
+    expect(await registry.addressAt("e1", new Date(0))).to.equal(undefined);
+    await expect(registry.resolve("alice")).to.be.rejectedWith(
+      "unknown employee",
+    );
+  });
+
+  it("rejects forged attestations", async () => {
+    const attestation = await attestShieldedAddress(
+      bob,
+      { employeeId: "e1", name: "Bob", address: address(1) },
+      domain,
+    );
+    expect(verifyAddressAttestation(attestation, domain)).to.equal(true);
+    expect(
+      verifyAddressAttestation(
+        {
+          ...attestation,
+          shieldedAddress: encodeShieldedAddress(address(666)),
+        },
+        domain,
+      ),
+    ).to.equal(false);
+    expect(
+      verifyAddressAttestation(attestation, { ...domain, chainId: 1 }),
+    ).to.equal(false);
+    await expect(
+      new EmployeeRegistryService(domain).register({
+        ...attestation,
+        name: "Alice",
+      }),
+    ).to.be.rejectedWith("invalid address attestation");
+  });
+});
@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import { buildHistory, historyToCsv, type HistoryTx } from "../sdk/History";
+import { toFieldKey, type StoredNote } from "../sdk/NoteStore";
+
+describe("History", () => {
+  const usdc = "0x" + "a".repeat(40);
+  const btc = "0x" + "b".repeat(40);
+  const note = (
+    id: number,
+    token: string,
+    amount: bigint,
+    extra: Partial<StoredNote> = {},
+  ): StoredNote => ({
+    noteHash: toFieldKey(id),
+    nullifier: toFieldKey(1000 + id),
+    token,
+    amount: amount.toString(),
+    randomness: toFieldKey(0),
+    blockNumber: id,
+    ...extra,
+  });
+  const tx = (
+    blockNumber: number,
+    noteHashes: number[],
+    nullifiers: number[],
+    extra: Partial<HistoryTx> = {},
+  ): HistoryTx => ({
+    txHash: toFieldKey(blockNumber),
+    blockNumber,
+    timestamp: 1_700_000_000 + blockNumber,
+    rolledUp: true,
+    noteHashes: noteHashes.map((h) => toFieldKey(h)),
+    nullifiers: nullifiers.map((n) => toFieldKey(n)),
+    ...extra,
+  });
+
+  it("classifies own txs", () => {
+    const notes = [
+      note(1, usdc, 100n),
+      note(2, usdc, 50n, { memo: { payPeriod: "2025-01" } }),
+      note(3, usdc, 150n),
+      note(4, usdc, 120n),
+      note(5, usdc, 90n),
+      note(6, btc, 7n),
+    ];
+    const entries = buildHistory(notes, [
+      tx(1, [1], [], { from: "0xalice" }),
+      tx(2, [2], [2001]),
+      tx(3, [3], [1001, 1002]),
+      tx(4, [4, 99], [1003]),
+      tx(5, [5], [1004], { unshield: { to: "0xbob" } }),
+      tx(6, [88, 6, 77, 66], [1005, 2002]),
+      tx(7, [42], [2003]),
+    ]);
+    expect(entries.map((e) => e.kind)).to.deep.equal([
+      "shield",
+      "transfer-in",
+      "join",
+      "transfer-out",
+      "unshield",
+      "swap",
+    ]);
+    expect(entries.map((e) => e.amounts)).to.deep.equal([
+      [{ token: usdc, amount: "100" }],
+      [{ token: usdc, amount: "50" }],
+      [{ token: usdc, amount: "0" }],
+      [{ token: usdc, amount: "-30" }],
+      [{ token: usdc, amount: "-30" }],
+      [
+        { token: usdc, amount: "-90" },
+        { token: btc, amount: "7" },
+      ],
+    ]);
+    expect(entries[0]!.counterparty).to.equal("0xalice");
+    expect(entries[1]!.memo).to.deep.equal({ payPeriod: "2025-01" });
+    expect(entries[4]!.counterparty).to.equal("0xbob");
+    expect(entries[3]!.spentNotes.map((n) => n.noteHash)).to.deep.equal([
+      toFieldKey(3),
+    ]);
+  });
+
+  it("exports csv", () => {
+    const entries = buildHistory(
+      [note(1, usdc, 100n, { memo: { text: 'salary, "bonus"' } })],
+      [tx(1, [1], [2001])],
+    );
+    expect(historyToCsv(entries).split("\n")).to.deep.equal([
+      "timestamp,kind,token,amount,counterparty,txHash,rolledUp,payPeriod,referenceId,memo",
+      `2023-11-14T22:13:21.000Z,transfer-in,${usdc},100,,${toFieldKey(1)},true,,,"salary, ""bonus"""`,
+    ]);
+  });
+
+  it("neutralizes formulas in csv", () => {
+    const entries = buildHistory(
+      [note(1, usdc, 100n, { memo: { text: "=HYPERLINK()" } })],
+      [tx(1, [1], [2001])],
+    );
+    expect(historyToCsv(entries)).to.contain(",'=HYPERLINK()");
+  });
+});
@@ -0,0 +1,49 @@
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { ethers } from "ethers";
+import {
+  deriveLegacySecretKey,
+  deriveSecretKey,
+  type SecretKeyDomain,
+} from "../sdk/KeyDerivation";
+chai.use(chaiAsPromised);
+
+describe("KeyDerivation", () => {
+  const wallet = new ethers.Wallet(
+    "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  );
+  const domain: SecretKeyDomain = {
+    chainId: 31337,
+    pool: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+  };
+
+  it("derives the same key every time", async () => {
+    expect(await deriveSecretKey(wallet, domain)).to.equal(
+      await deriveSecretKey(wallet, domain),
+    );
+  });
+
+  it("binds the key to the chain, pool and version", async () => {
+    const keys = await Promise.all([
+      deriveSecretKey(wallet, domain),
+      deriveSecretKey(wallet, { ...domain, chainId: 1 }),
+      deriveSecretKey(wallet, {
+        ...domain,
+        pool: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+      }),
+      deriveSecretKey(wallet, { ...domain, version: 2 }),
+      deriveLegacySecretKey(wallet),
+    ]);
+    expect(new Set(keys).size).to.equal(keys.length);
+  });
+
+  it("rejects wallets with randomized signatures", async () => {
+    let nonce = 0;
+    const signer = {
+      signTypedData: async () => ethers.toBeHex(++nonce, 65),
+    } as unknown as ethers.Signer;
+    await expect(deriveSecretKey(signer, domain)).to.be.rejectedWith(
+      "not deterministic",
+    );
+  });
+});
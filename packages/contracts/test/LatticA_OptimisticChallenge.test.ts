@@ -97,6 +97,9 @@ describe("LatticA: Optimistic Challenge Flow", () => {
       unshield: getCircuitJson("erc20_unshield"),
       join: getCircuitJson("erc20_join"),
       transfer: getCircuitJson("erc20_transfer"),
+      transfer1x3: getCircuitJson("erc20_transfer_1x3"),
+      transfer2x4: getCircuitJson("erc20_transfer_2x4"),
+      transfer4x8: getCircuitJson("erc20_transfer_4x8"),
       swap: getCircuitJson("lob_router_swap"),
     });
 
@@ -92,6 +92,9 @@ describe("__LatticA__ Complete Scenario Test", () => {
       unshield: noir.getCircuitJson("erc20_unshield"),
       join: noir.getCircuitJson("erc20_join"),
       transfer: noir.getCircuitJson("erc20_transfer"),
+      transfer1x3: noir.getCircuitJson("erc20_transfer_1x3"),
+      transfer2x4: noir.getCircuitJson("erc20_transfer_2x4"),
+      transfer4x8: noir.getCircuitJson("erc20_transfer_4x8"),
       swap: noir.getCircuitJson("lob_router_swap"),
     });
 
@@ -0,0 +1,134 @@
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { ethers } from "ethers";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  BbCommandError,
+  NativeUltraHonkBackend,
+} from "../sdk/NativeUltraHonkBackend";
+chai.use(chaiAsPromised);
+
+// fake bb that logs its commands and writes fixed artifacts
+const FAKE_BB = `#!/bin/bash
+cmd=$1; shift
+while [ $# -gt 0 ]; do
+  case $1 in
+    -o) out=$2; shift ;;
+    -w) witness=$2; shift ;;
+    -p) proof=$2; shift ;;
+  esac
+  shift
+done
+echo "$cmd" >> "$FAKE_BB_LOG"
+case $cmd in
+  prove)
+    if [ "$(cat "$witness")" = "bad" ]; then
+      echo "proving..." >&2
+      echo "Failed to solve witness" >&2
+      exit 1
+    fi
+    printf "proof-%s" "$(cat "$witness")" > "$out/proof"
+    head -c 32 /dev/zero > "$out/public_inputs" ;;
+  write_vk)
+    printf "vk" > "$out/vk" ;;
+  verify)
+    [ "$(head -c 5 "$proof")" = "proof" ] || exit 1 ;;
+esac
+`;
+
+describe("NativeUltraHonkBackend", () => {
+  let dir: string;
+  let bbPath: string;
+  const circuit = { bytecode: "circuit" } as any;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "native-bb-"));
+    bbPath = path.join(dir, "bb");
+    fs.writeFileSync(bbPath, FAKE_BB, { mode: 0o755 });
+    process.env.FAKE_BB_LOG = path.join(dir, "log");
+  });
+
+  afterEach(() => {
+    delete process.env.FAKE_BB_LOG;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function bbCommands() {
+    return fs
+      .readFileSync(process.env.FAKE_BB_LOG!, "utf-8")
+      .trim()
+      .split("\n");
+  }
+
+  it("caches proofs by witness", async () => {
+    const backend = new NativeUltraHonkBackend(bbPath, circuit, {
+      targetDir: path.join(dir, "target"),
+    });
+    const witness = new TextEncoder().encode("a");
+
+    const proof = await backend.generateProof(witness);
+    expect(Buffer.from(proof.proof).toString()).to.equal("proof-a");
+    expect(proof.publicInputs).to.deep.equal([ethers.ZeroHash]);
+    expect(await backend.generateProof(witness)).to.deep.equal(proof);
+    expect(bbCommands()).to.deep.equal(["prove"]);
+  });
+
+  it("caches verification key and verifies proofs", async () => {
+    const backend = new NativeUltraHonkBackend(bbPath, circuit, {
+      targetDir: path.join(dir, "target"),
+    });
+    const proof = await backend.generateProof(new TextEncoder().encode("a"));
+
+    expect(Buffer.from(await backend.getVerificationKey()).toString()).to.equal(
+      "vk",
+    );
+    expect(await backend.verifyProof(proof)).to.equal(true);
+    expect(
+      await backend.verifyProof({
+        ...proof,
+        proof: new TextEncoder().encode("forged"),
+      }),
+    ).to.equal(false);
+    expect(bbCommands()).to.deep.equal([
+      "prove",
+      "write_vk",
+      "verify",
+      "verify",
+    ]);
+  });
+
+  it("reports bb stderr", async () => {
+    const backend = new NativeUltraHonkBackend(bbPath, circuit, {
+      targetDir: path.join(dir, "target"),
+    });
+    const error = await backend
+      .generateProof(new TextEncoder().encode("bad"))
+      .catch((e) => e);
+    expect(error).to.be.instanceOf(BbCommandError);
+    expect(error.message).to.equal(
+      "bb prove exited with code 1: Failed to solve witness",
+    );
+    expect(error.stderr).to.equal("proving...\nFailed to solve witness\n");
+  });
+
+  it("evicts least recently used artifacts", async () => {
+    const targetDir = path.join(dir, "target");
+    const backend = new NativeUltraHonkBackend(bbPath, circuit, {
+      targetDir,
+      maxCacheBytes: 100,
+    });
+    for (const witness of ["a", "b", "c", "d"]) {
+      await backend.generateProof(new TextEncoder().encode(witness));
+    }
+
+    const proofs = fs
+      .readdirSync(targetDir)
+      .filter((x) => x.endsWith("_proof"));
+    expect(proofs.length).to.be.lessThan(4);
+    // the newest proof is kept
+    await backend.generateProof(new TextEncoder().encode("d"));
+    expect(bbCommands().filter((x) => x === "prove")).to.have.length(4);
+  });
+});
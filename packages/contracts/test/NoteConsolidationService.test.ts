@@ -0,0 +1,55 @@
+import { expect } from "chai";
+import { planNoteConsolidation } from "../sdk/NoteConsolidationService";
+import type { Erc20Note } from "../sdk/PoolErc20Service";
+
+describe("NoteConsolidationService", () => {
+  const usdc = "0x0000000000000000000000000000000000000001";
+  const btc = "0x0000000000000000000000000000000000000002";
+
+  function note(amount: bigint, token = usdc) {
+    return { amount: { token, amount } } as Erc20Note;
+  }
+  function amounts(pairs: [Erc20Note, Erc20Note][]) {
+    return pairs.map((pair) => pair.map((n) => n.amount.amount));
+  }
+
+  it("joins the smallest notes above max notes", () => {
+    const notes = [50n, 10n, 40n, 20n, 30n].map((x) => note(x));
+    const pairs = planNoteConsolidation(notes, {
+      maxNotes: 3,
+      maxJoinsPerSweep: 10,
+    });
+    expect(amounts(pairs)).to.deep.equal([
+      [10n, 20n],
+      [30n, 40n],
+    ]);
+  });
+
+  it("joins dust per token", () => {
+    const notes = [
+      note(1n),
+      note(2n),
+      note(1000n),
+      note(1n, btc),
+      note(5n, btc),
+    ];
+    const pairs = planNoteConsolidation(notes, {
+      maxNotes: 10,
+      maxJoinsPerSweep: 10,
+      minNoteAmounts: { [usdc.toUpperCase()]: 10n },
+    });
+    expect(amounts(pairs)).to.deep.equal([[1n, 2n]]);
+  });
+
+  it("limits joins per sweep", () => {
+    const notes = [1n, 2n, 3n, 4n, 5n, 6n].map((x) => note(x));
+    const pairs = planNoteConsolidation(notes, {
+      maxNotes: 1,
+      maxJoinsPerSweep: 2,
+    });
+    expect(amounts(pairs)).to.deep.equal([
+      [1n, 2n],
+      [3n, 4n],
+    ]);
+  });
+});
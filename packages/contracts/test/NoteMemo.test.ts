@@ -0,0 +1,41 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { times } from "lodash";
+import { encodeNoteMemo, tryDecodeNoteMemo } from "../sdk/NoteMemo";
+
+describe("NoteMemo", () => {
+  it("round-trips a memo", () => {
+    const memo = { payPeriod: "2025-01", referenceId: "INV-42", text: "bonus" };
+    expect(tryDecodeNoteMemo(encodeNoteMemo(memo))).to.deep.equal(memo);
+    expect(tryDecodeNoteMemo(encodeNoteMemo({ text: "hi" }))).to.deep.equal({
+      text: "hi",
+    });
+  });
+
+  it("keeps notes readable by decoders that don't know about memos", () => {
+    const fields = [1n, 2n, 3n, 4n];
+    const types = times(fields.length, () => "uint256");
+    const encoded = ethers.concat([
+      ethers.AbiCoder.defaultAbiCoder().encode(types, fields),
+      encodeNoteMemo({ text: "hi" }),
+    ]);
+    expect(
+      ethers.AbiCoder.defaultAbiCoder().decode(types, encoded).toArray(),
+    ).to.deep.equal(fields);
+  });
+
+  it("ignores malformed memos", () => {
+    expect(tryDecodeNoteMemo("0x1234")).to.equal(undefined);
+    const unknownVersion = ethers.AbiCoder.defaultAbiCoder().encode(
+      ["uint8", "string", "string", "string"],
+      [99, "", "", ""],
+    );
+    expect(tryDecodeNoteMemo(unknownVersion)).to.equal(undefined);
+  });
+
+  it("limits memo size", () => {
+    expect(() => encodeNoteMemo({ text: "x".repeat(1000) })).to.throw(
+      "note memo is too long",
+    );
+  });
+});
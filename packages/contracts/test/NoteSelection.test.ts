@@ -0,0 +1,64 @@
+import { expect } from "chai";
+import { planSpend, selectNotes } from "../sdk/NoteSelection";
+import type { Erc20Note, TokenAmount } from "../sdk/PoolErc20Service";
+
+describe("NoteSelection", () => {
+  const token = "0x0000000000000000000000000000000000000001";
+  const otherToken = "0x0000000000000000000000000000000000000002";
+
+  function note(amount: bigint, noteToken = token) {
+    return { amount: { token: noteToken, amount } } as Erc20Note;
+  }
+  function tokenAmount(amount: bigint) {
+    return { token, amount } as TokenAmount;
+  }
+
+  it("prefers the smallest single note", () => {
+    const notes = [note(500n), note(100n), note(200n), note(1000n, otherToken)];
+    expect(selectNotes(notes, tokenAmount(150n))).to.deep.equal([notes[2]]);
+  });
+
+  it("selects the biggest notes if no single note is enough", () => {
+    const notes = [note(100n), note(300n), note(50n), note(200n)];
+    expect(selectNotes(notes, tokenAmount(450n))).to.deep.equal([
+      notes[1],
+      notes[3],
+    ]);
+  });
+
+  it("fails if balance is not enough", () => {
+    const notes = [note(100n), note(1000n, otherToken)];
+    expect(() => selectNotes(notes, tokenAmount(200n))).to.throw(
+      "not enough balance",
+    );
+  });
+
+  it("plans a balanced tree of joins", () => {
+    const notes = [10n, 20n, 30n, 40n, 50n].map((x) => note(x));
+    const plan = planSpend(notes, tokenAmount(150n));
+
+    expect(
+      plan.levels.map((level) => level.map((j) => j.amount)),
+    ).to.deep.equal([[90n, 50n], [140n], [150n]]);
+    expect(plan.root).to.equal(plan.levels[2]![0]);
+    expect(plan.levels.flat().map((j) => j.level)).to.deep.equal([1, 1, 2, 3]);
+  });
+
+  it("pays a fee out of every join", () => {
+    const notes = [100n, 100n, 100n].map((x) => note(x));
+    const plan = planSpend(notes, tokenAmount(195n), 10n);
+
+    // 2 notes are worth 200n, but their join only 190n
+    expect(plan.notes).to.have.length(3);
+    expect(
+      plan.levels.map((level) => level.map((j) => j.amount)),
+    ).to.deep.equal([[190n], [280n]]);
+  });
+
+  it("does not join if a single note is enough", () => {
+    const notes = [note(100n)];
+    const plan = planSpend(notes, tokenAmount(100n));
+    expect(plan.levels).to.deep.equal([]);
+    expect(plan.root).to.deep.equal({ kind: "note", note: notes[0] });
+  });
+});
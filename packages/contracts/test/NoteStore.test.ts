@@ -0,0 +1,63 @@
+import { expect } from "chai";
+import {
+  InMemoryNoteStore,
+  rewindNoteStoreState,
+  type NoteStoreState,
+  type StoredNote,
+} from "../sdk/NoteStore";
+
+describe("NoteStore", () => {
+  function storedNote(params: Partial<StoredNote>): StoredNote {
+    return {
+      noteHash: "0x01",
+      nullifier: "0x02",
+      token: "0x0000000000000000000000000000000000000001",
+      amount: "100",
+      randomness: "0x03",
+      blockNumber: 1,
+      ...params,
+    };
+  }
+
+  it("rewinds notes, roll ups and nullifications after a block", () => {
+    const state: NoteStoreState = {
+      scannedBlocks: [
+        { number: 5, hash: "0x05" },
+        { number: 10, hash: "0x10" },
+      ],
+      notes: [
+        storedNote({ blockNumber: 2, rolledUpAtBlock: 3, nullifiedAtBlock: 8 }),
+        storedNote({ blockNumber: 4, rolledUpAtBlock: 7 }),
+        storedNote({ blockNumber: 9 }),
+      ],
+    };
+
+    expect(rewindNoteStoreState(state, 5)).to.deep.equal({
+      scannedBlocks: [{ number: 5, hash: "0x05" }],
+      notes: [
+        storedNote({
+          blockNumber: 2,
+          rolledUpAtBlock: 3,
+          nullifiedAtBlock: undefined,
+        }),
+        storedNote({
+          blockNumber: 4,
+          rolledUpAtBlock: undefined,
+          nullifiedAtBlock: undefined,
+        }),
+      ],
+    });
+  });
+
+  it("stores states per owner", async () => {
+    const store = new InMemoryNoteStore();
+    const state: NoteStoreState = {
+      scannedBlocks: [{ number: 1, hash: "0x01" }],
+      notes: [storedNote({})],
+    };
+    await store.save("0xAB", state);
+
+    expect(await store.load("0xab")).to.deep.equal(state);
+    expect(await store.load("0xcd")).to.equal(undefined);
+  });
+});
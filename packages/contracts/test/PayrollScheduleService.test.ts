@@ -0,0 +1,265 @@
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { ethers } from "ethers";
+import {
+  getPayDates,
+  getPayrollRunId,
+  InMemoryPayrollRunStore,
+  PayrollScheduleService,
+  type PayrollSchedule,
+} from "../sdk/PayrollScheduleService";
+import type {
+  PayrollBatchReport,
+  PayrollEntryReport,
+  PayrollPayment,
+  PoolErc20Service,
+} from "../sdk/PoolErc20Service";
+chai.use(chaiAsPromised);
+
+describe("PayrollScheduleService", () => {
+  const usdc = "0x" + "a".repeat(40);
+  const address = (i: number) => ethers.toBeHex(i, 128);
+  const schedule: PayrollSchedule = {
+    id: "acme",
+    cadence: { kind: "monthly", dayOfMonth: 31 },
+    employees: [
+      {
+        id: "bob",
+        address: address(1),
+        token: usdc,
+        amount: "30",
+        effectiveFrom: "2025-01-01",
+      },
+      {
+        id: "charlie",
+        address: address(2),
+        token: usdc,
+        amount: "20",
+        effectiveFrom: "2025-02-01",
+        effectiveUntil: "2025-03-01",
+      },
+    ],
+  };
+  const dates = (cadence: PayrollSchedule["cadence"]) =>
+    getPayDates(
+      cadence,
+      new Date("2025-01-01T00:00:00Z"),
+      new Date("2025-03-31T00:00:00Z"),
+    ).map((d) => d.toISOString().slice(0, 10));
+
+  it("computes pay dates", () => {
+    expect(dates({ kind: "monthly", dayOfMonth: 31 })).to.deep.equal([
+      "2025-01-31",
+      "2025-02-28",
+      "2025-03-31",
+    ]);
+    expect(
+      dates({ kind: "biweekly", anchor: "2025-01-10T00:00:00Z" }),
+    ).to.deep.equal([
+      "2025-01-10",
+      "2025-01-24",
+      "2025-02-07",
+      "2025-02-21",
+      "2025-03-07",
+      "2025-03-21",
+    ]);
+    expect(dates({ kind: "cron", expression: "0 0 1,15 * *" })).to.deep.equal([
+      "2025-01-15",
+      "2025-02-01",
+      "2025-02-15",
+      "2025-03-01",
+      "2025-03-15",
+    ]);
+  });
+
+  function fakePool(noteAmounts: bigint[], failing = new Set<string>()) {
+    const paid: string[] = [];
+    const poolErc20 = {
+      async getSpendableNotesOf() {
+        return noteAmounts.map((amount) => ({
+          amount: { token: usdc, amount },
+        }));
+      },
+      async payrollBatch({
+        payments,
+        previousReport,
+        onProgress,
+      }: {
+        payments: PayrollPayment[];
+        previousReport?: PayrollBatchReport;
+        onProgress?: (report: PayrollBatchReport) => Promise<void>;
+      }) {
+        const entries = payments.map((payment): PayrollEntryReport => {
+          const previous = previousReport?.entries.find(
+            (e) => e.id === payment.id,
+          );
+          if (previous?.status === "succeeded") {
+            return previous;
+          }
+          const ok = !failing.has(payment.id);
+          if (ok) {
+            paid.push(payment.id);
+          }
+          return {
+            id: payment.id,
+            to: payment.to.toString(),
+            token: payment.amount.token,
+            amount: payment.amount.amount.toString(),
+            status: ok ? "succeeded" : "failed",
+          };
+        });
+        const report = {
+          entries,
+          succeeded: entries.filter((e) => e.status === "succeeded"),
+          failed: entries.filter((e) => e.status === "failed"),
+          retryable: [],
+          unresolved: [],
+        };
+        await onProgress?.(report);
+        return report;
+      },
+    };
+    return { poolErc20: poolErc20 as unknown as PoolErc20Service, paid };
+  }
+
+  it("freezes run plans", async () => {
+    const store = new InMemoryPayrollRunStore();
+    const { poolErc20 } = fakePool([100n]);
+    const service = new PayrollScheduleService(poolErc20, store);
+    const payDate = new Date("2025-02-28T00:00:00Z");
+
+    const plan = await service.planRun(schedule, payDate);
+    expect(plan.payments.map((p) => p.employeeId)).to.deep.equal([
+      "bob",
+      "charlie",
+    ]);
+    expect(plan.totals).to.deep.equal({ [usdc]: "50" });
+
+    await service.executeRun({ schedule, payDate, secretKey: "0x01" });
+    const raised: PayrollSchedule = {
+      ...schedule,
+      employees: schedule.employees.map((e) => ({ ...e, amount: "999" })),
+    };
+    expect(await service.planRun(raised, payDate)).to.deep.equal(plan);
+  });
+
+  it("dry runs", async () => {
+    const { poolErc20, paid } = fakePool([40n, 5n]);
+    const service = new PayrollScheduleService(poolErc20);
+    const result = await service.dryRun({
+      schedule,
+      payDate: new Date("2025-02-28T00:00:00Z"),
+      secretKey: "0x01",
+    });
+    expect(result.balances).to.deep.equal({ [usdc]: "45" });
+    expect(result.shortfalls).to.deep.equal({ [usdc]: "5" });
+    expect(result.unpayable.map((p) => p.employeeId)).to.deep.equal([
+      "charlie",
+    ]);
+    expect(paid).to.deep.equal([]);
+  });
+
+  it("executes runs idempotently", async () => {
+    const store = new InMemoryPayrollRunStore();
+    const failing = new Set(["acme/2025-02-28T00:00:00.000Z/charlie"]);
+    const { poolErc20, paid } = fakePool([100n], failing);
+    const service = new PayrollScheduleService(poolErc20, store);
+    const runDue = () =>
+      service.runDue({
+        schedule,
+        secretKey: "0x01",
+        after: new Date("2025-01-01T00:00:00Z"),
+        now: new Date("2025-03-01T00:00:00Z"),
+      });
+
+    const records = await runDue();
+    expect(records.map((r) => r.status)).to.deep.equal(["succeeded", "failed"]);
+    expect(paid).to.deep.equal([
+      "acme/2025-01-31T00:00:00.000Z/bob",
+      "acme/2025-02-28T00:00:00.000Z/bob",
+    ]);
+
+    failing.clear();
+    const retried = await runDue();
+    expect(retried.map((r) => r.status)).to.deep.equal([
+      "succeeded",
+      "succeeded",
+    ]);
+    expect(retried[1]!.attempts.length).to.equal(2);
+    expect(paid.slice(2)).to.deep.equal([
+      "acme/2025-02-28T00:00:00.000Z/charlie",
+    ]);
+  });
+
+  it("refuses overlapping runs", async () => {
+    const store = new InMemoryPayrollRunStore();
+    const { poolErc20, paid } = fakePool([100n]);
+    const service = new PayrollScheduleService(poolErc20, store);
+    const payDate = new Date("2025-01-31T00:00:00Z");
+    const execute = () =>
+      service.executeRun({ schedule, payDate, secretKey: "0x01" });
+
+    const [first, second] = await Promise.allSettled([execute(), execute()]);
+    expect(first).to.deep.include({ status: "fulfilled" });
+    expect(second.status).to.equal("rejected");
+    expect((second as PromiseRejectedResult).reason.message).to.include(
+      "already running",
+    );
+    expect(paid).to.deep.equal(["acme/2025-01-31T00:00:00.000Z/bob"]);
+
+    // a lease that expired belongs to a crashed call
+    const february = new Date("2025-02-28T00:00:00Z");
+    const runId = getPayrollRunId(schedule, february);
+    const crashed = {
+      plan: await service.planRun(schedule, february),
+      status: "running" as const,
+      attempts: [{ startedAt: Date.now() }],
+    };
+    const executeFebruary = () =>
+      service.executeRun({ schedule, payDate: february, secretKey: "0x01" });
+    await store.save({
+      ...crashed,
+      lease: { id: "crashed", expiresAt: Date.now() + 60_000 },
+    });
+    await expect(executeFebruary()).to.be.rejectedWith("already running");
+    await store.save({
+      ...crashed,
+      lease: { id: "crashed", expiresAt: Date.now() - 1 },
+    });
+    const record = await executeFebruary();
+    expect((await store.load(runId))?.attempts).to.have.length(2);
+    expect(record.status).to.equal("succeeded");
+    expect(record.lease).to.equal(undefined);
+  });
+
+  it("marks runs failed when the batch throws", async () => {
+    const store = new InMemoryPayrollRunStore();
+    const { poolErc20 } = fakePool([100n]);
+    poolErc20.payrollBatch = async () => {
+      throw new Error("rpc is down");
+    };
+    const service = new PayrollScheduleService(poolErc20, store);
+    const payDate = new Date("2025-01-31T00:00:00Z");
+    await expect(
+      service.executeRun({ schedule, payDate, secretKey: "0x01" }),
+    ).to.be.rejectedWith("rpc is down");
+
+    const record = await store.load(getPayrollRunId(schedule, payDate));
+    expect(record?.status).to.equal("failed");
+    expect(record?.lease).to.equal(undefined);
+    expect(record?.attempts[0]?.error).to.include("rpc is down");
+  });
+
+  it("refuses altered plans", async () => {
+    const store = new InMemoryPayrollRunStore();
+    const { poolErc20 } = fakePool([100n]);
+    const service = new PayrollScheduleService(poolErc20, store);
+    const payDate = new Date("2025-01-31T00:00:00Z");
+    const plan = await service.planRun(schedule, payDate);
+    plan.payments[0]!.amount = "1000";
+    await store.save({ plan, status: "failed", attempts: [] });
+    await expect(
+      service.executeRun({ schedule, payDate, secretKey: "0x01" }),
+    ).to.be.rejectedWith("altered");
+  });
+});
@@ -3,6 +3,7 @@ import { expect } from "chai";
 import { ethers, noir, typedDeployments } from "hardhat";
 import { sdk as interfaceSdkModule } from "../sdk";
 import { createBackendSdk as createBackendSdkFn } from "../sdk/backendSdk";
+import type { PayrollBatchReport } from "../sdk/PoolErc20Service";
 import { TreesService } from "../sdk/serverSdk";
 import { SwapResult } from "../sdk/LobService";
 import { parseUnits, snapshottedBeforeEach } from "../shared/utils";
@@ -28,7 +29,8 @@ describe("PoolERC20", () => {
   let btc: MockERC20;
   let sdk: ReturnType<typeof interfaceSdkModule.createInterfaceSdk>;
   let backendSdk: ReturnType<typeof createBackendSdkFn>;
-  const { CompleteWaAddress, TokenAmount } = interfaceSdkModule;
+  let trees: TreesService;
+  const { CompleteWaAddress, TokenAmount, ViewingKey } = interfaceSdkModule;
 
   snapshottedBeforeEach(async () => {
     [alice, bob, charlie] = await ethers.getSigners();
@@ -52,12 +54,15 @@ describe("PoolERC20", () => {
   before(async () => {
     const coreSdk = interfaceSdkModule.createCoreSdk(pool);
 
-    const trees = new TreesService(pool);
+    trees = new TreesService(pool);
     sdk = interfaceSdkModule.createInterfaceSdk(coreSdk, trees, {
       shield: noir.getCircuitJson("erc20_shield"),
       unshield: noir.getCircuitJson("erc20_unshield"),
       join: noir.getCircuitJson("erc20_join"),
       transfer: noir.getCircuitJson("erc20_transfer"),
+      transfer1x3: noir.getCircuitJson("erc20_transfer_1x3"),
+      transfer2x4: noir.getCircuitJson("erc20_transfer_2x4"),
+      transfer4x8: noir.getCircuitJson("erc20_transfer_4x8"),
       swap: noir.getCircuitJson("lob_router_swap"),
     });
 
@@ -218,6 +223,7 @@ describe("PoolERC20", () => {
           // note hashes
           await changeNote.hash(),
           await toNote.hash(),
+          ethers.ZeroHash, // no relayer fee
         ],
         [
           // nullifiers
@@ -236,6 +242,505 @@ describe("PoolERC20", () => {
     );
   });
 
+  it("transfers with a memo", async () => {
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 500n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+
+    const memo = { payPeriod: "2025-01", referenceId: "payslip-1" };
+    const { toNote, changeNote } = await sdk.poolErc20.transfer({
+      secretKey: aliceSecretKey,
+      fromNote: note,
+      to: await CompleteWaAddress.fromSecretKey(bobSecretKey),
+      amount: await TokenAmount.from({
+        token: await usdc.getAddress(),
+        amount: 123n,
+      }),
+      memo,
+    });
+    await backendSdk.rollup.rollup();
+
+    expect(toNote.memo).to.deep.equal(memo);
+    expect(
+      await sdk.poolErc20.getBalanceNotesOf(usdc, bobSecretKey),
+    ).to.deep.equal([toNote]);
+    expect(
+      await sdk.poolErc20.getBalanceNotesOf(usdc, aliceSecretKey),
+    ).to.deep.equal([changeNote]);
+  });
+
+  it("transfers to many recipients with one proof", async () => {
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 1000n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+
+    const token = await usdc.getAddress();
+    // net salary to bob, tax withholding to charlie
+    const { nullifiers, changeNote, toNotes } =
+      await sdk.poolErc20.transferMany({
+        secretKey: aliceSecretKey,
+        fromNotes: [note],
+        outputs: [
+          {
+            to: await CompleteWaAddress.fromSecretKey(bobSecretKey),
+            amount: await TokenAmount.from({ token, amount: 600n }),
+            memo: { payPeriod: "2025-01", text: "net" },
+          },
+          {
+            to: await CompleteWaAddress.fromSecretKey(charlieSecretKey),
+            amount: await TokenAmount.from({ token, amount: 250n }),
+            memo: { payPeriod: "2025-01", text: "tax" },
+          },
+        ],
+      });
+    expect(toNotes).to.have.length(2);
+
+    const [pendingTx] = (await pool.getAllPendingTxs()).slice(-1);
+    // 1x3 circuit: the unused output is a zero note hash
+    expect(pendingTx![1]).to.deep.equal([
+      await changeNote.hash(),
+      await toNotes[0]!.hash(),
+      await toNotes[1]!.hash(),
+      ethers.ZeroHash,
+    ]);
+    expect(pendingTx![2]).to.deep.equal(nullifiers);
+
+    await backendSdk.rollup.rollup();
+
+    expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(600n);
+    expect(await sdk.poolErc20.balanceOf(usdc, charlieSecretKey)).to.equal(
+      250n,
+    );
+    expect(changeNote.amount.amount).to.equal(150n);
+    expect(await sdk.poolErc20.balanceOf(usdc, aliceSecretKey)).to.equal(150n);
+  });
+
+  it("transfers many notes to many recipients", async () => {
+    for (const amount of [100n, 200n, 300n]) {
+      await sdk.poolErc20.shield({
+        account: alice,
+        token: usdc,
+        amount,
+        secretKey: aliceSecretKey,
+      });
+    }
+    await backendSdk.rollup.rollup();
+
+    const token = await usdc.getAddress();
+    const bobAddress = await CompleteWaAddress.fromSecretKey(bobSecretKey);
+    const amounts = [100n, 110n, 110n, 110n, 120n];
+    // 3 notes and 5 outputs only fit the 4x8 circuit
+    const { nullifiers, toNotes, joinNotes } =
+      await sdk.poolErc20.transferManyFromBalance({
+        secretKey: aliceSecretKey,
+        outputs: await Promise.all(
+          amounts.map(async (amount) => ({
+            to: bobAddress,
+            amount: await TokenAmount.from({ token, amount }),
+          })),
+        ),
+      });
+    expect(joinNotes).to.deep.equal([]);
+    expect(nullifiers).to.have.length(3);
+    expect(toNotes).to.have.length(amounts.length);
+
+    const [pendingTx] = (await pool.getAllPendingTxs()).slice(-1);
+    expect(pendingTx![1]).to.have.length(1 + 8);
+    expect(pendingTx![2]).to.deep.equal([...nullifiers, ethers.ZeroHash]);
+
+    await backendSdk.rollup.rollup();
+
+    expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(550n);
+    expect(await sdk.poolErc20.balanceOf(usdc, aliceSecretKey)).to.equal(50n);
+  });
+
+  it("fails to transfer with an unsupported arity", async () => {
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 1000n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+
+    const to = await CompleteWaAddress.fromSecretKey(bobSecretKey);
+    const amount = await TokenAmount.from({
+      token: await usdc.getAddress(),
+      amount: 1n,
+    });
+    await expect(
+      sdk.poolErc20.transferMany({
+        secretKey: aliceSecretKey,
+        fromNotes: [note],
+        outputs: Array(9).fill({ to, amount }),
+      }),
+    ).to.be.rejectedWith("unsupported transfer arity");
+  });
+
+  it("generates verifiable payslips", async () => {
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 500n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+
+    const { tx, toNote } = await sdk.poolErc20.transfer({
+      secretKey: aliceSecretKey,
+      fromNote: note,
+      to: await CompleteWaAddress.fromSecretKey(bobSecretKey),
+      amount: await TokenAmount.from({
+        token: await usdc.getAddress(),
+        amount: 123n,
+      }),
+      memo: { payPeriod: "2025-01" },
+    });
+    await backendSdk.rollup.rollup();
+
+    const payslips = new interfaceSdkModule.PayslipService(pool, trees);
+    const payslip = await payslips.generate({
+      signer: alice,
+      toNote,
+      txHash: tx.hash,
+      employeeName: "Bob",
+    });
+    expect(payslip.amount).to.equal("123");
+    expect(
+      await interfaceSdkModule.verifyPayslip(payslip, {
+        pool,
+        employer: alice.address,
+      }),
+    ).to.deep.equal({ valid: true, errors: [] });
+    expect(interfaceSdkModule.renderPayslip(payslip)).to.contain(
+      "Pay period:   2025-01",
+    );
+
+    const forged = await interfaceSdkModule.verifyPayslip(
+      { ...payslip, amount: "1230" },
+      { pool },
+    );
+    expect(forged.errors).to.deep.equal([
+      "invalid employer signature",
+      "note does not match the payslip",
+    ]);
+  });
+
+  it("proves income from an employer without revealing notes", async () => {
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 500n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+    const fromBlock = await ethers.provider.getBlockNumber();
+
+    const payslipService = new interfaceSdkModule.PayslipService(pool, trees);
+    const payslips = [];
+    let fromNote = note;
+    for (const amount of [100n, 50n]) {
+      const { tx, toNote, changeNote } = await sdk.poolErc20.transfer({
+        secretKey: aliceSecretKey,
+        fromNote,
+        to: await CompleteWaAddress.fromSecretKey(bobSecretKey),
+        amount: await TokenAmount.from({
+          token: await usdc.getAddress(),
+          amount,
+        }),
+      });
+      await backendSdk.rollup.rollup();
+      payslips.push(
+        await payslipService.generate({
+          signer: alice,
+          toNote,
+          txHash: tx.hash,
+        }),
+      );
+      fromNote = changeNote;
+    }
+    const toBlock = await ethers.provider.getBlockNumber();
+
+    const circuit = interfaceSdkModule.getCircuit(
+      noir.getCircuitJson("erc20_income_proof"),
+    );
+    const incomeProofs = new interfaceSdkModule.IncomeProofService(
+      pool,
+      trees,
+      circuit,
+    );
+    const proof = await incomeProofs.prove({
+      secretKey: bobSecretKey,
+      payslips,
+      token: await usdc.getAddress(),
+      minAmount: 150n,
+      fromBlock,
+      toBlock,
+    });
+    expect(proof.statement.employer).to.equal(alice.address);
+    expect(
+      await interfaceSdkModule.verifyIncomeProof(proof, circuit, {
+        pool,
+        employer: alice.address,
+      }),
+    ).to.deep.equal({ valid: true, errors: [] });
+    expect(
+      (
+        await interfaceSdkModule.verifyIncomeProof(proof, circuit, {
+          employer: bob.address,
+        })
+      ).errors,
+    ).to.deep.equal(["unexpected employer"]);
+
+    const inflated = await interfaceSdkModule.verifyIncomeProof(
+      { ...proof, statement: { ...proof.statement, minAmount: "151" } },
+      circuit,
+    );
+    expect(inflated.errors).to.deep.equal(["invalid proof"]);
+
+    // the proof only holds for the employer key it was made with
+    const impersonated = await interfaceSdkModule.verifyIncomeProof(
+      {
+        ...proof,
+        statement: {
+          ...proof.statement,
+          employer: bob.address,
+          employerPublicKey: ethers.SigningKey.computePublicKey(
+            ethers.SigningKey.recoverPublicKey(
+              ethers.hashMessage("x"),
+              await bob.signMessage("x"),
+            ),
+          ),
+        },
+      },
+      circuit,
+    );
+    expect(impersonated.errors).to.deep.equal(["invalid proof"]);
+
+    // the employee can't sign their own notes in the employer's name
+    await expect(
+      incomeProofs.prove({
+        secretKey: bobSecretKey,
+        payslips: [
+          {
+            ...payslips[0]!,
+            noteSignature: await bob.signMessage(
+              interfaceSdkModule.getPayslipNoteMessage(
+                payslips[0]!.note.noteHash,
+              ),
+            ),
+          },
+        ],
+        token: await usdc.getAddress(),
+        minAmount: 100n,
+        fromBlock,
+        toBlock,
+      }),
+    ).to.be.rejectedWith("payslip is not signed by its employer");
+
+    await expect(
+      incomeProofs.prove({
+        secretKey: bobSecretKey,
+        payslips,
+        token: await usdc.getAddress(),
+        minAmount: 100n,
+        // skips the first payment
+        fromBlock: toBlock - 1,
+        toBlock,
+      }),
+    ).to.be.rejectedWith("not enough income");
+  });
+
+  it("reads balances with a viewing key", async () => {
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 500n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+    // the encoded address carries everything a sender needs
+    const bobAddress = CompleteWaAddress.fromString(
+      (await CompleteWaAddress.fromSecretKey(bobSecretKey)).toString(),
+    );
+    await sdk.poolErc20.transfer({
+      secretKey: aliceSecretKey,
+      fromNote: note,
+      to: bobAddress,
+      amount: await TokenAmount.from({
+        token: await usdc.getAddress(),
+        amount: 123n,
+      }),
+    });
+    await backendSdk.rollup.rollup();
+
+    // fresh SDK, so nothing was synced with the spending key
+    const viewerSdk = interfaceSdkModule.createInterfaceSdk(
+      interfaceSdkModule.createCoreSdk(pool),
+      trees,
+      {
+        shield: noir.getCircuitJson("erc20_shield"),
+        unshield: noir.getCircuitJson("erc20_unshield"),
+        join: noir.getCircuitJson("erc20_join"),
+        transfer: noir.getCircuitJson("erc20_transfer"),
+        transfer1x3: noir.getCircuitJson("erc20_transfer_1x3"),
+        transfer2x4: noir.getCircuitJson("erc20_transfer_2x4"),
+        transfer4x8: noir.getCircuitJson("erc20_transfer_4x8"),
+        swap: noir.getCircuitJson("lob_router_swap"),
+      },
+    );
+    const viewingKey = ViewingKey.fromString(
+      (await ViewingKey.fromSecretKey(aliceSecretKey)).toString(),
+    );
+    expect(viewingKey.nullifierKey).to.not.equal(aliceSecretKey);
+    expect(viewingKey.incomingViewingKey).to.not.equal(aliceSecretKey);
+    expect(await viewerSdk.poolErc20.balanceOf(usdc, viewingKey)).to.equal(
+      500n - 123n,
+    );
+    expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(123n);
+  });
+
+  it("migrates notes to a new key", async () => {
+    const newSecretKey =
+      "0x0b3ee1c3d5e4a7c6f4a1d2e0f9b8c7a6d5e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0";
+    for (const amount of [100n, 200n]) {
+      await sdk.poolErc20.shield({
+        account: alice,
+        token: usdc,
+        amount,
+        secretKey: aliceSecretKey,
+      });
+    }
+    await backendSdk.rollup.rollup();
+
+    const tokens = [await usdc.getAddress()];
+    const report = await sdk.keyMigration.migrate({
+      oldSecretKey: aliceSecretKey,
+      newSecretKey,
+      tokens,
+    });
+    expect(report.migrated).to.have.length(2);
+    expect(report.failed).to.deep.equal([]);
+    // spent notes are not offered again while the migration is pending
+    expect(
+      await sdk.keyMigration.getNotesToMigrate(aliceSecretKey, tokens),
+    ).to.deep.equal([]);
+    await backendSdk.rollup.rollup();
+
+    expect(await sdk.poolErc20.balanceOf(usdc, aliceSecretKey)).to.equal(0n);
+    expect(await sdk.poolErc20.balanceOf(usdc, newSecretKey)).to.equal(300n);
+  });
+
+  it("migrates notes encrypted under the baseline derivation", async () => {
+    const newSecretKey =
+      "0x0b3ee1c3d5e4a7c6f4a1d2e0f9b8c7a6d5e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0";
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 500n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+    // the baseline encrypted notes to the spending key itself
+    const bob = await CompleteWaAddress.fromSecretKey(bobSecretKey);
+    const legacyBob = new CompleteWaAddress(
+      bob.address,
+      await interfaceSdkModule.EncryptionService.getSingleton().derivePublicKey(
+        bobSecretKey,
+      ),
+      bob.waCoords,
+    );
+    await sdk.poolErc20.transfer({
+      secretKey: aliceSecretKey,
+      fromNote: note,
+      to: legacyBob,
+      amount: await TokenAmount.from({
+        token: await usdc.getAddress(),
+        amount: 200n,
+      }),
+    });
+    await backendSdk.rollup.rollup();
+
+    // a shared viewing key can't decrypt them, the spending key can
+    const bobViewingKey = ViewingKey.fromString(
+      (await ViewingKey.fromSecretKey(bobSecretKey)).toString(),
+    );
+    expect(await sdk.poolErc20.balanceOf(usdc, bobViewingKey)).to.equal(0n);
+    expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(200n);
+
+    const report = await sdk.keyMigration.migrate({
+      oldSecretKey: bobSecretKey,
+      newSecretKey,
+      tokens: [await usdc.getAddress()],
+    });
+    expect(report.migrated).to.have.length(1);
+    await backendSdk.rollup.rollup();
+
+    expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(0n);
+    expect(await sdk.poolErc20.balanceOf(usdc, newSecretKey)).to.equal(200n);
+  });
+
+  it("reports the expected viewing key length", async () => {
+    expect(() => ViewingKey.fromString("0x1234")).to.throw(
+      "invalid viewing key: expected 192 bytes, got 2",
+    );
+    expect(() => ViewingKey.fromString("not a key")).to.throw(
+      "invalid viewing key: expected a 0x-prefixed hex string",
+    );
+  });
+
+  it("reconstructs history", async () => {
+    const token = await usdc.getAddress();
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 200n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+    const { changeNote } = await sdk.poolErc20.transfer({
+      secretKey: aliceSecretKey,
+      fromNote: note,
+      to: await CompleteWaAddress.fromSecretKey(bobSecretKey),
+      amount: await TokenAmount.from({ token, amount: 50n }),
+      memo: { referenceId: "invoice-1" },
+    });
+    await backendSdk.rollup.rollup();
+    await sdk.poolErc20.unshield({
+      secretKey: aliceSecretKey,
+      fromNote: changeNote,
+      token,
+      to: await charlie.getAddress(),
+      amount: 30n,
+    });
+
+    const aliceHistory = await sdk.poolErc20.getHistory(aliceSecretKey);
+    expect(
+      aliceHistory.map((e) => [e.kind, e.amounts[0]!.amount, e.rolledUp]),
+    ).to.deep.equal([
+      ["shield", "200", true],
+      ["transfer-out", "-50", true],
+      ["unshield", "-30", false],
+    ]);
+    expect(aliceHistory[0]!.counterparty).to.equal(await alice.getAddress());
+    expect(aliceHistory[2]!.counterparty).to.equal(await charlie.getAddress());
+
+    const [bobEntry] = await sdk.poolErc20.getHistory(bobSecretKey);
+    expect(bobEntry!.kind).to.equal("transfer-in");
+    expect(bobEntry!.amounts).to.deep.equal([
+      { token: token.toLowerCase(), amount: "50" },
+    ]);
+    expect(bobEntry!.memo).to.deep.equal({ referenceId: "invoice-1" });
+  });
+
   it("transfers many", async () => {
     await sdk.poolErc20.shield({
       account: alice,
@@ -288,6 +793,174 @@ describe("PoolERC20", () => {
     expect(await sdk.poolErc20.balanceOf(usdc, charlieSecretKey)).to.equal(10n);
   });
 
+  it("transfers from balance by joining notes", async () => {
+    for (const amount of [100n, 200n, 300n]) {
+      await sdk.poolErc20.shield({
+        account: alice,
+        token: usdc,
+        amount,
+        secretKey: aliceSecretKey,
+      });
+    }
+    await backendSdk.rollup.rollup();
+
+    const { plan, joinNotes, changeNote } =
+      await sdk.poolErc20.transferFromBalance({
+        secretKey: aliceSecretKey,
+        to: await CompleteWaAddress.fromSecretKey(bobSecretKey),
+        amount: await TokenAmount.from({
+          token: await usdc.getAddress(),
+          amount: 550n,
+        }),
+        onJoinsSent: async () => {
+          await backendSdk.rollup.rollup();
+        },
+      });
+    expect(plan.notes.map((note) => note.amount.amount)).to.deep.equal([
+      300n,
+      200n,
+      100n,
+    ]);
+    expect(plan.levels.map((level) => level.length)).to.deep.equal([1, 1]);
+    expect(joinNotes.map((note) => note.amount.amount)).to.deep.equal([
+      500n,
+      600n,
+    ]);
+    expect(changeNote.amount.amount).to.equal(50n);
+
+    await backendSdk.rollup.rollup();
+    expect(await sdk.poolErc20.balanceOf(usdc, aliceSecretKey)).to.equal(50n);
+    expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(550n);
+  });
+
+  it("pays payroll batch", async () => {
+    await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 100n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+
+    const payments = [
+      {
+        id: "bob",
+        to: await CompleteWaAddress.fromSecretKey(bobSecretKey),
+        amount: await TokenAmount.from({
+          token: await usdc.getAddress(),
+          amount: 30n,
+        }),
+      },
+      {
+        id: "charlie",
+        to: await CompleteWaAddress.fromSecretKey(charlieSecretKey),
+        amount: await TokenAmount.from({
+          token: await usdc.getAddress(),
+          amount: 20n,
+        }),
+      },
+    ];
+    const report = await sdk.poolErc20.payrollBatch({
+      secretKey: aliceSecretKey,
+      payments,
+      // change note of the first payment pays for the second one
+      waitForNote: () => backendSdk.rollup.rollup(),
+    });
+    expect(report.succeeded.map((e) => e.id)).to.deep.equal(["bob", "charlie"]);
+    expect(report.failed).to.deep.equal([]);
+    await backendSdk.rollup.rollup();
+
+    expect(await sdk.poolErc20.balanceOf(usdc, aliceSecretKey)).to.equal(50n);
+    expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(30n);
+    expect(await sdk.poolErc20.balanceOf(usdc, charlieSecretKey)).to.equal(20n);
+
+    // resuming a finished run does not pay twice
+    const resumed = await sdk.poolErc20.payrollBatch({
+      secretKey: aliceSecretKey,
+      payments,
+      previousReport: report,
+    });
+    expect(resumed.succeeded.length).to.equal(2);
+    expect(await sdk.poolErc20.balanceOf(usdc, aliceSecretKey)).to.equal(50n);
+  });
+
+  it("resumes payroll batch from submitted entries", async () => {
+    await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 100n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+
+    const payment = async (id: string, secretKey: string, amount: bigint) => ({
+      id,
+      to: await CompleteWaAddress.fromSecretKey(secretKey),
+      amount: await TokenAmount.from({
+        token: await usdc.getAddress(),
+        amount,
+      }),
+    });
+    const bob = await payment("bob", bobSecretKey, 30n);
+    // crash right after the entry was persisted as submitted
+    let persisted: PayrollBatchReport | undefined;
+    await sdk.poolErc20.payrollBatch({
+      secretKey: aliceSecretKey,
+      payments: [bob],
+      onProgress: (report) => {
+        persisted ??= report.unresolved.length > 0 ? report : undefined;
+      },
+    });
+    expect(persisted!.entries[0]).to.deep.include({ status: "submitted" });
+    expect(persisted!.entries[0]!.txHash).to.equal(undefined);
+
+    // the tx landed, so bob is not paid twice
+    const resumed = await sdk.poolErc20.payrollBatch({
+      secretKey: aliceSecretKey,
+      payments: [bob],
+      previousReport: persisted,
+    });
+    expect(resumed.succeeded.map((e) => e.id)).to.deep.equal(["bob"]);
+    await backendSdk.rollup.rollup();
+    expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(30n);
+
+    // a lost tx is never found, so its source note is returned to the owner and the entry is paid again
+    const [changeNote] = await sdk.poolErc20.getBalanceNotesOf(
+      usdc,
+      aliceSecretKey,
+    );
+    const charlie = await payment("charlie", charlieSecretKey, 20n);
+    const lost = await sdk.poolErc20.payrollBatch({
+      secretKey: aliceSecretKey,
+      payments: [charlie],
+      txTimeout: "1s",
+      waitForNote: () => backendSdk.rollup.rollup(),
+      previousReport: {
+        entries: [
+          {
+            id: charlie.id,
+            to: charlie.to.toString(),
+            token: charlie.amount.token,
+            amount: charlie.amount.amount.toString(),
+            status: "submitted",
+            nullifier: (
+              await changeNote!.computeNullifier(aliceSecretKey)
+            ).toString(),
+            toNoteHash: ethers.toBeHex(1, 32),
+          },
+        ],
+      },
+    });
+    expect(lost.succeeded.map((e) => e.id)).to.deep.equal(["charlie"]);
+    expect(lost.unresolved).to.deep.equal([]);
+    expect(lost.entries[0]!.nullifier).to.not.equal(
+      (await changeNote!.computeNullifier(aliceSecretKey)).toString(),
+    );
+    await backendSdk.rollup.rollup();
+    expect(await sdk.poolErc20.balanceOf(usdc, aliceSecretKey)).to.equal(50n);
+    expect(await sdk.poolErc20.balanceOf(usdc, charlieSecretKey)).to.equal(20n);
+  });
+
   it("can't double spend a note", async () => {
     const amount = await TokenAmount.from({
       token: await usdc.getAddress(),
@@ -364,6 +1037,40 @@ describe("PoolERC20", () => {
     ).to.deep.equal([changeNote]);
   });
 
+  it("computes note consumption inputs on the client", async () => {
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 100n,
+      secretKey: aliceSecretKey,
+    });
+    await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 200n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+
+    const params = {
+      noteHash: await note.hash(),
+      nullifier: (await note.computeNullifier(aliceSecretKey)).toString(),
+    };
+    const expected = await trees.getNoteConsumptionInputs(params);
+    for (const options of [{}, { bucketHeight: 2, prefixBits: 8 }]) {
+      const clientTrees = new interfaceSdkModule.ClientTreesService(
+        trees,
+        options,
+      );
+      expect(await clientTrees.getNoteConsumptionInputs(params)).to.deep.equal(
+        expected,
+      );
+      expect(await clientTrees.noteExistsAndNotNullified(params)).to.equal(
+        true,
+      );
+    }
+  });
+
   it("swaps", async () => {
     const { note: aliceNote } = await sdk.poolErc20.shield({
       account: alice,
@@ -0,0 +1,173 @@
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, noir, typedDeployments } from "hardhat";
+import { sdk as interfaceSdkModule } from "../sdk";
+import { LmdbPoolEventStore, TreesService } from "../sdk/serverSdk";
+import { parseUnits, snapshottedBeforeEach } from "../shared/utils";
+import {
+  MockERC20,
+  MockERC20__factory,
+  PoolERC20,
+  PoolERC20__factory,
+} from "../typechain-types";
+
+describe("PoolEventIndexerService", () => {
+  let alice: SignerWithAddress;
+  const aliceSecretKey =
+    "0x118f09bc73ec486db2030077142f2bceba2a4d4c9e0f6147d776f8ca8ec02ff1";
+  let pool: PoolERC20;
+  let usdc: MockERC20;
+  let sdk: ReturnType<typeof interfaceSdkModule.createInterfaceSdk>;
+
+  snapshottedBeforeEach(async () => {
+    [alice] = await ethers.getSigners();
+    await typedDeployments.fixture();
+    pool = PoolERC20__factory.connect(
+      (await typedDeployments.get("PoolERC20")).address,
+      alice,
+    );
+    usdc = await new MockERC20__factory(alice).deploy("USD Coin", "USDC");
+    await usdc.mintForTests(alice, await parseUnits(usdc, "1000000"));
+    await usdc.connect(alice).approve(pool, ethers.MaxUint256);
+  });
+
+  before(async () => {
+    sdk = interfaceSdkModule.createInterfaceSdk(
+      interfaceSdkModule.createCoreSdk(pool),
+      new TreesService(pool),
+      {
+        shield: noir.getCircuitJson("erc20_shield"),
+        unshield: noir.getCircuitJson("erc20_unshield"),
+        join: noir.getCircuitJson("erc20_join"),
+        transfer: noir.getCircuitJson("erc20_transfer"),
+        transfer1x3: noir.getCircuitJson("erc20_transfer_1x3"),
+        transfer2x4: noir.getCircuitJson("erc20_transfer_2x4"),
+        transfer4x8: noir.getCircuitJson("erc20_transfer_4x8"),
+        swap: noir.getCircuitJson("lob_router_swap"),
+      },
+    );
+  });
+
+  async function shield(amount: bigint) {
+    return await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount,
+      secretKey: aliceSecretKey,
+    });
+  }
+
+  it("indexes events in pages", async () => {
+    const indexer = new interfaceSdkModule.PoolEventIndexerService(pool, {
+      maxBlockRange: 2,
+    });
+    const shields = [await shield(1n), await shield(2n), await shield(3n)];
+    await ethers.provider.send("hardhat_mine", ["0x5"]);
+
+    const head = await indexer.sync();
+    expect(head?.number).to.equal(await ethers.provider.getBlockNumber());
+    const events = await indexer.getEvents(["EncryptedNotes"]);
+    expect(events.map((e) => e.transactionHash)).to.deep.equal(
+      shields.map(({ tx }) => tx.hash),
+    );
+    expect(events[0]!.encryptedNotes[0]!.noteHash).to.equal(
+      ethers.toBeHex(await shields[0]!.note.hash(), 32),
+    );
+    expect(
+      await indexer.getEvents(["EncryptedNotes"], {
+        fromBlock: events[1]!.blockNumber,
+        toBlock: events[1]!.blockNumber,
+      }),
+    ).to.deep.equal([events[1]]);
+  });
+
+  it("only indexes confirmed blocks", async () => {
+    const indexer = new interfaceSdkModule.PoolEventIndexerService(pool, {
+      confirmations: 3,
+    });
+    await shield(1n);
+
+    const head = await indexer.sync();
+    expect(head?.number).to.equal((await ethers.provider.getBlockNumber()) - 2);
+    expect(await indexer.getEvents(["EncryptedNotes"])).to.have.length(0);
+
+    await ethers.provider.send("hardhat_mine", ["0x2"]);
+    await indexer.sync();
+    expect(await indexer.getEvents(["EncryptedNotes"])).to.have.length(1);
+  });
+
+  it("rolls back reorged events", async () => {
+    const indexer = new interfaceSdkModule.PoolEventIndexerService(pool);
+    const rollbacks: number[] = [];
+    const indexed: string[] = [];
+    indexer.subscribe({
+      onEvents: (events) => {
+        indexed.push(...events.map((e) => e.transactionHash));
+      },
+      onRollback: (blockNumber) => {
+        rollbacks.push(blockNumber);
+      },
+    });
+    await indexer.sync();
+    const forkBlock = await ethers.provider.getBlockNumber();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    const { tx: reorged } = await shield(1n);
+    await indexer.sync();
+    expect(indexed).to.deep.equal([reorged.hash]);
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await ethers.provider.send("hardhat_mine", ["0x3"]);
+    const { tx } = await shield(2n);
+    await indexer.sync();
+
+    expect(rollbacks).to.deep.equal([forkBlock]);
+    expect(
+      (await indexer.getEvents(["EncryptedNotes"])).map(
+        (e) => e.transactionHash,
+      ),
+    ).to.deep.equal([tx.hash]);
+    expect(indexed).to.deep.equal([reorged.hash, tx.hash]);
+  });
+
+  it("appends to and rolls back an LMDB store", async () => {
+    const store = new LmdbPoolEventStore();
+    const first = new interfaceSdkModule.PoolEventIndexerService(
+      pool,
+      { maxBlockRange: 2 },
+      store,
+    );
+    const { tx: kept } = await shield(1n);
+    await first.sync();
+    const forkBlock = await ethers.provider.getBlockNumber();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await shield(2n);
+    await first.sync();
+    expect(await first.getEvents(["EncryptedNotes"])).to.have.length(2);
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await ethers.provider.send("hardhat_mine", ["0x3"]);
+    const { tx } = await shield(3n);
+    // a restarted indexer continues from the stored checkpoints
+    const restarted = new interfaceSdkModule.PoolEventIndexerService(
+      pool,
+      {},
+      store,
+    );
+    await restarted.sync();
+
+    const events = await restarted.getEvents(["EncryptedNotes"]);
+    expect(events.map((e) => e.transactionHash)).to.deep.equal([
+      kept.hash,
+      tx.hash,
+    ]);
+    expect(
+      (
+        await restarted.getEvents(["EncryptedNotes"], {
+          fromBlock: forkBlock + 1,
+        })
+      ).map((e) => e.transactionHash),
+    ).to.deep.equal([tx.hash]);
+  });
+});
@@ -0,0 +1,172 @@
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, noir, typedDeployments } from "hardhat";
+import { sdk as interfaceSdkModule } from "../sdk";
+import { createBackendSdk as createBackendSdkFn } from "../sdk/backendSdk";
+import {
+  PoolIndexerService,
+  startPoolIndexerServer,
+  TreesService,
+} from "../sdk/serverSdk";
+import { parseUnits, snapshottedBeforeEach } from "../shared/utils";
+import {
+  MockERC20,
+  MockERC20__factory,
+  MockVerifier__factory,
+  PoolERC20,
+  PoolERC20__factory,
+  RlweAuditChallenge,
+  RlweAuditChallenge__factory,
+} from "../typechain-types";
+
+describe("PoolIndexerService", () => {
+  let alice: SignerWithAddress, relayer: SignerWithAddress;
+  const aliceSecretKey =
+    "0x118f09bc73ec486db2030077142f2bceba2a4d4c9e0f6147d776f8ca8ec02ff1";
+  let pool: PoolERC20;
+  let usdc: MockERC20;
+  let challenge: RlweAuditChallenge;
+  let sdk: ReturnType<typeof interfaceSdkModule.createInterfaceSdk>;
+  let backendSdk: ReturnType<typeof createBackendSdkFn>;
+  let indexer: PoolIndexerService;
+  let server: Awaited<ReturnType<typeof startPoolIndexerServer>>;
+  const { PoolIndexerClient, RemoteTreesService } = interfaceSdkModule;
+
+  snapshottedBeforeEach(async () => {
+    [alice, , relayer] = await ethers.getSigners();
+    await typedDeployments.fixture();
+    pool = PoolERC20__factory.connect(
+      (await typedDeployments.get("PoolERC20")).address,
+      alice,
+    );
+    usdc = await new MockERC20__factory(alice).deploy("USD Coin", "USDC");
+    await usdc.mintForTests(alice, await parseUnits(usdc, "1000000"));
+    await usdc.connect(alice).approve(pool, ethers.MaxUint256);
+    challenge = await new RlweAuditChallenge__factory(alice).deploy(
+      await new MockVerifier__factory(alice).deploy(),
+    );
+    await challenge
+      .connect(relayer)
+      .registerRelayer({ value: ethers.parseEther("1") });
+  });
+
+  before(async () => {
+    const coreSdk = interfaceSdkModule.createCoreSdk(pool);
+    const trees = new TreesService(pool);
+    sdk = interfaceSdkModule.createInterfaceSdk(coreSdk, trees, {
+      shield: noir.getCircuitJson("erc20_shield"),
+      unshield: noir.getCircuitJson("erc20_unshield"),
+      join: noir.getCircuitJson("erc20_join"),
+      transfer: noir.getCircuitJson("erc20_transfer"),
+      transfer1x3: noir.getCircuitJson("erc20_transfer_1x3"),
+      transfer2x4: noir.getCircuitJson("erc20_transfer_2x4"),
+      transfer4x8: noir.getCircuitJson("erc20_transfer_4x8"),
+      swap: noir.getCircuitJson("lob_router_swap"),
+    });
+    backendSdk = createBackendSdkFn(coreSdk, trees, {
+      rollup: noir.getCircuitJson("rollup"),
+    });
+  });
+
+  beforeEach(async () => {
+    indexer = new PoolIndexerService(pool, { challenge });
+    server = await startPoolIndexerServer({ indexer });
+  });
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  it("serves notes, roots and nullifiers", async () => {
+    const client = new PoolIndexerClient(server.url);
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 100n,
+      secretKey: aliceSecretKey,
+    });
+    await indexer.events.sync();
+    expect(await client.getTreeRoots()).to.equal(null);
+    expect(await client.getPendingTxs()).to.have.length(1);
+    const beforeRollup = (await client.getHead())!.number;
+
+    await backendSdk.rollup.rollup();
+    await indexer.events.sync();
+
+    const page = await client.getNotes();
+    expect(page.notes.map((n) => n.noteHash)).to.deep.equal([
+      ethers.toBeHex(await note.hash(), 32),
+    ]);
+    expect(await client.getNotes({ cursor: page.cursor! })).to.deep.equal({
+      notes: [],
+      cursor: page.cursor,
+    });
+
+    const roots = await client.getTreeRoots();
+    expect(roots?.noteHashTree.root).to.equal(
+      (await pool.getNoteHashTree()).root,
+    );
+    expect(await client.getTreeRoots(beforeRollup)).to.equal(null);
+    expect(await client.getPendingTxs()).to.deep.equal([]);
+    expect(
+      (await new RemoteTreesService(client.treesUrl).getTreeRoots())
+        .note_hash_root,
+    ).to.equal(roots?.noteHashTree.root);
+
+    const nullifier = (await note.computeNullifier(aliceSecretKey)).toString();
+    expect(await client.getNullifier(nullifier)).to.deep.equal({
+      nullifier: ethers.toBeHex(nullifier, 32),
+      status: "none",
+    });
+    await expect(
+      client.getNotes({ cursor: "1-0-" + ethers.ZeroHash }),
+    ).to.be.rejectedWith("cursor was reorged out");
+  });
+
+  it("follows the challenge period of audit entries", async () => {
+    const client = new PoolIndexerClient(server.url);
+    const nullifiers = [1, 2].map((i) => ethers.toBeHex(i, 32));
+    for (const nullifier of nullifiers) {
+      await challenge
+        .connect(relayer)
+        .submitAuditEntry(
+          nullifier,
+          ethers.ZeroHash,
+          ethers.ZeroHash,
+          "QmTestCid123",
+        );
+    }
+    await indexer.events.sync();
+    expect(await client.getChallengeStatus(nullifiers[0]!)).to.deep.include({
+      status: "challengeable",
+    });
+    expect(
+      await client.getChallengeStatus(ethers.toBeHex(3, 32)),
+    ).to.deep.include({ status: "none" });
+
+    await challenge.challenge(nullifiers[1]!, "0x");
+    await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60 + 1]);
+    await ethers.provider.send("evm_mine", []);
+    await indexer.events.sync();
+    expect(await client.getChallengeStatus(nullifiers[0]!)).to.deep.include({
+      status: "valid",
+    });
+    expect(await client.getChallengeStatus(nullifiers[1]!)).to.deep.include({
+      status: "slashed",
+      winner: alice.address,
+    });
+  });
+
+  it("responds 400 to invalid requests", async () => {
+    const trees = await fetch(`${server.url}/trees`, {
+      method: "POST",
+      body: JSON.stringify({ method: "addNewEvents", args: [] }),
+    });
+    expect(trees.status).to.equal(400);
+    const notes = await fetch(`${server.url}/notes?cursor=invalid`);
+    expect(notes.status).to.equal(400);
+    expect(await notes.json()).to.deep.equal({
+      error: "invalid cursor: invalid",
+    });
+  });
+});
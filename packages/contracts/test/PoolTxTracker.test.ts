@@ -0,0 +1,116 @@
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, noir, typedDeployments } from "hardhat";
+import { sdk as interfaceSdkModule } from "../sdk";
+import { createBackendSdk as createBackendSdkFn } from "../sdk/backendSdk";
+import { TreesService } from "../sdk/serverSdk";
+import { parseUnits, snapshottedBeforeEach } from "../shared/utils";
+import {
+  MockERC20,
+  MockERC20__factory,
+  PoolERC20,
+  PoolERC20__factory,
+} from "../typechain-types";
+
+describe("PoolTxTrackerService", () => {
+  let alice: SignerWithAddress;
+  const aliceSecretKey =
+    "0x118f09bc73ec486db2030077142f2bceba2a4d4c9e0f6147d776f8ca8ec02ff1";
+  let pool: PoolERC20;
+  let usdc: MockERC20;
+  let trees: TreesService;
+  let sdk: ReturnType<typeof interfaceSdkModule.createInterfaceSdk>;
+  let backendSdk: ReturnType<typeof createBackendSdkFn>;
+
+  snapshottedBeforeEach(async () => {
+    [alice] = await ethers.getSigners();
+    await typedDeployments.fixture();
+    pool = PoolERC20__factory.connect(
+      (await typedDeployments.get("PoolERC20")).address,
+      alice,
+    );
+    usdc = await new MockERC20__factory(alice).deploy("USD Coin", "USDC");
+    await usdc.mintForTests(alice, await parseUnits(usdc, "1000000"));
+    await usdc.connect(alice).approve(pool, ethers.MaxUint256);
+  });
+
+  before(async () => {
+    const coreSdk = interfaceSdkModule.createCoreSdk(pool);
+    trees = new TreesService(pool);
+    sdk = interfaceSdkModule.createInterfaceSdk(coreSdk, trees, {
+      shield: noir.getCircuitJson("erc20_shield"),
+      unshield: noir.getCircuitJson("erc20_unshield"),
+      join: noir.getCircuitJson("erc20_join"),
+      transfer: noir.getCircuitJson("erc20_transfer"),
+      transfer1x3: noir.getCircuitJson("erc20_transfer_1x3"),
+      transfer2x4: noir.getCircuitJson("erc20_transfer_2x4"),
+      transfer4x8: noir.getCircuitJson("erc20_transfer_4x8"),
+      swap: noir.getCircuitJson("lob_router_swap"),
+    });
+    backendSdk = createBackendSdkFn(coreSdk, trees, {
+      rollup: noir.getCircuitJson("rollup"),
+    });
+  });
+
+  function createTracker() {
+    return new interfaceSdkModule.PoolTxTrackerService(pool, {
+      pollInterval: "100ms",
+      finalityConfirmations: 3,
+    });
+  }
+
+  it("follows a tx until its rollup is final", async () => {
+    const tracker = createTracker();
+    const updates: string[] = [];
+    const unsubscribe = tracker.subscribe((txs) =>
+      updates.push(txs[0]?.status ?? "none"),
+    );
+
+    const { tx } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 100n,
+      secretKey: aliceSecretKey,
+    });
+    tracker.track(tx);
+    const rolledUp = tracker.waitForRollup(tx.hash);
+    await backendSdk.rollup.rollup();
+
+    const state = await rolledUp;
+    expect(state.status).to.equal("rolledUp");
+    expect(state.pendingTxIndex).to.equal(
+      (await pool.getAllPendingTxs()).length - 1,
+    );
+    expect(state.rollupTxHash).to.be.a("string");
+
+    await ethers.provider.send("hardhat_mine", ["0x2"]);
+    expect(await tracker.waitForFinality(tx.hash)).to.deep.include({
+      status: "finalized",
+      rollupTxHash: state.rollupTxHash,
+    });
+    unsubscribe();
+    expect(updates).to.include.members([
+      "none",
+      "submitted",
+      "pending",
+      "rolledUp",
+      "finalized",
+    ]);
+  });
+
+  it("fails if the tx reverts", async () => {
+    const tracker = createTracker();
+    const tx = await pool.join(
+      "0x",
+      [ethers.ZeroHash, ethers.ZeroHash],
+      { noteHash: ethers.ZeroHash, encryptedNote: "0x" },
+      // skips the gas estimation, so the tx is mined and reverts
+      { gasLimit: 1_000_000 },
+    );
+    tracker.track(tx);
+    await expect(tracker.waitForRollup(tx.hash)).to.be.rejectedWith(
+      "tx failed",
+    );
+    expect(tracker.get(tx.hash)?.status).to.equal("failed");
+  });
+});
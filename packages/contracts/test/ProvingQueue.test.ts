@@ -0,0 +1,104 @@
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { ProvingQueue, type ProverBackend } from "../sdk/ProvingQueue";
+import { RemoteProverBackend, startProverServer } from "../sdk/RemoteProver";
+import { promiseWithResolvers } from "../sdk/utils";
+chai.use(chaiAsPromised);
+
+describe("ProvingQueue", () => {
+  function fakeBackend(delay: number) {
+    const state = { running: 0, maxRunning: 0, aborted: 0 };
+    const backend: ProverBackend = {
+      async generateProof(witness, options) {
+        state.running++;
+        state.maxRunning = Math.max(state.maxRunning, state.running);
+        try {
+          await new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(resolve, delay);
+            options?.signal?.addEventListener("abort", () => {
+              clearTimeout(timer);
+              state.aborted++;
+              reject(options.signal!.reason);
+            });
+          });
+          return { proof: witness, publicInputs: ["0x01"] };
+        } finally {
+          state.running--;
+        }
+      },
+    };
+    return { backend, state };
+  }
+
+  it("runs one job per worker", async () => {
+    const a = fakeBackend(20);
+    const b = fakeBackend(20);
+    const queue = new ProvingQueue([a.backend, b.backend]);
+
+    const proofs = await Promise.all(
+      [1, 2, 3, 4, 5].map((i) => queue.generateProof(Uint8Array.from([i]))),
+    );
+
+    expect(proofs.map((p) => p.proof[0])).to.deep.equal([1, 2, 3, 4, 5]);
+    expect(a.state.maxRunning).to.equal(1);
+    expect(b.state.maxRunning).to.equal(1);
+    expect(queue.getStats()).to.deep.equal({
+      queued: 0,
+      running: 0,
+      succeeded: 5,
+      failed: 0,
+    });
+  });
+
+  it("times out and cancels jobs", async () => {
+    const worker = fakeBackend(1000);
+    const queue = new ProvingQueue([worker.backend], { timeout: 20 });
+
+    const controller = new AbortController();
+    const timedOut = queue.generateProof(Uint8Array.from([1]));
+    const cancelled = queue.generateProof(Uint8Array.from([2]), {
+      signal: controller.signal,
+    });
+    controller.abort(new Error("cancelled"));
+
+    await Promise.all([
+      expect(timedOut).to.be.rejectedWith("timed out"),
+      expect(cancelled).to.be.rejectedWith("cancelled"),
+    ]);
+    expect(worker.state.aborted).to.equal(1);
+    expect(queue.getStats().failed).to.equal(2);
+  });
+
+  it("proves on a prover server", async () => {
+    const started = promiseWithResolvers<void>();
+    const server = await startProverServer({
+      backends: {
+        rollup: {
+          async generateProof(witness, options) {
+            started.resolve();
+            expect(options?.keccak).to.equal(true);
+            return { proof: witness, publicInputs: ["0x02"] };
+          },
+        },
+      },
+    });
+    try {
+      const remote = new RemoteProverBackend(server.url, "rollup");
+      const proof = await remote.generateProof(Uint8Array.from([1, 2]), {
+        keccak: true,
+      });
+      await started.promise;
+      expect(proof).to.deep.equal({
+        proof: Uint8Array.from([1, 2]),
+        publicInputs: ["0x02"],
+      });
+      await expect(
+        new RemoteProverBackend(server.url, "unknown").generateProof(
+          Uint8Array.from([1]),
+        ),
+      ).to.be.rejected;
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import chai, { expect } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { promiseWithResolvers, ReadWriteLock } from "../sdk/utils";
+chai.use(chaiAsPromised);
+
+describe("ReadWriteLock", () => {
+  function recorder(lock: ReadWriteLock) {
+    const log: string[] = [];
+    const run = (kind: "read" | "write", name: string, until?: Promise<void>) =>
+      lock[kind](async () => {
+        log.push(`${name} start`);
+        await until;
+        log.push(`${name} end`);
+      });
+    return { log, run };
+  }
+
+  it("runs readers concurrently", async () => {
+    const { log, run } = recorder(new ReadWriteLock());
+    const { promise, resolve } = promiseWithResolvers<void>();
+    const a = run("read", "a", promise);
+    const b = run("read", "b");
+    await b;
+    expect(log).to.deep.equal(["a start", "b start", "b end"]);
+    resolve();
+    await a;
+  });
+
+  it("runs writers exclusively in order", async () => {
+    const { log, run } = recorder(new ReadWriteLock());
+    const { promise, resolve } = promiseWithResolvers<void>();
+    const reader = run("read", "r1", promise);
+    const writer = run("write", "w");
+    // queued behind the writer, so writers are not starved by new readers
+    const lateReader = run("read", "r2");
+    await new Promise((r) => setTimeout(r, 10));
+    expect(log).to.deep.equal(["r1 start"]);
+
+    resolve();
+    await Promise.all([reader, writer, lateReader]);
+    expect(log).to.deep.equal([
+      "r1 start",
+      "r1 end",
+      "w start",
+      "w end",
+      "r2 start",
+      "r2 end",
+    ]);
+  });
+
+  it("releases the lock if fn throws", async () => {
+    const lock = new ReadWriteLock();
+    await expect(
+      lock.write(async () => {
+        throw new Error("boom");
+      }),
+    ).to.be.rejectedWith("boom");
+    expect(await lock.write(async () => 1)).to.equal(1);
+    expect(await lock.read(async () => 2)).to.equal(2);
+  });
+});
@@ -0,0 +1,304 @@
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { ContractRunner } from "ethers";
+import { ethers, noir, typedDeployments } from "hardhat";
+import { sdk as interfaceSdkModule } from "../sdk";
+import { createBackendSdk as createBackendSdkFn } from "../sdk/backendSdk";
+import {
+  MAX_RELAY_REQUEST_BYTES,
+  RelayerService,
+  startRelayerServer,
+  TreesService,
+} from "../sdk/serverSdk";
+import { parseUnits, snapshottedBeforeEach } from "../shared/utils";
+import {
+  MockERC20,
+  MockERC20__factory,
+  PoolERC20,
+  PoolERC20__factory,
+} from "../typechain-types";
+
+describe("RelayerService", () => {
+  let alice: SignerWithAddress, relayerAccount: SignerWithAddress;
+  const aliceSecretKey =
+    "0x118f09bc73ec486db2030077142f2bceba2a4d4c9e0f6147d776f8ca8ec02ff1";
+  const bobSecretKey =
+    "0x2120f33c0d324bfe571a18c1d5a1c9cdc6db60621e35bc78be1ced339f936a71";
+  const relayerSecretKey =
+    "0x038c0439a42280637b202fd2f0d25d6e8e3c11908eab966a6d85bd6797eed5d5";
+  let pool: PoolERC20;
+  let usdc: MockERC20;
+  let trees: TreesService;
+  let relayer: RelayerService;
+  let server: Awaited<ReturnType<typeof startRelayerServer>>;
+  const { CompleteWaAddress, TokenAmount, RelayerClient, ViewingKey } =
+    interfaceSdkModule;
+
+  snapshottedBeforeEach(async () => {
+    [alice, , , relayerAccount] = await ethers.getSigners();
+    await typedDeployments.fixture();
+    pool = PoolERC20__factory.connect(
+      (await typedDeployments.get("PoolERC20")).address,
+      alice,
+    );
+    usdc = await new MockERC20__factory(alice).deploy("USD Coin", "USDC");
+    await usdc.mintForTests(alice, await parseUnits(usdc, "1000000"));
+    await usdc.connect(alice).approve(pool, ethers.MaxUint256);
+  });
+
+  before(async () => {
+    trees = new TreesService(pool);
+    relayer = new RelayerService(pool, relayerAccount, trees);
+    server = await startRelayerServer({ relayer });
+  });
+
+  after(async () => {
+    await server?.close();
+  });
+
+  function createSdk(runner: ContractRunner) {
+    return interfaceSdkModule.createInterfaceSdk(
+      interfaceSdkModule.createCoreSdk(pool.connect(runner)),
+      trees,
+      {
+        shield: noir.getCircuitJson("erc20_shield"),
+        unshield: noir.getCircuitJson("erc20_unshield"),
+        join: noir.getCircuitJson("erc20_join"),
+        transfer: noir.getCircuitJson("erc20_transfer"),
+        transfer1x3: noir.getCircuitJson("erc20_transfer_1x3"),
+        transfer2x4: noir.getCircuitJson("erc20_transfer_2x4"),
+        transfer4x8: noir.getCircuitJson("erc20_transfer_4x8"),
+        swap: noir.getCircuitJson("lob_router_swap"),
+      },
+    );
+  }
+
+  it("only relays shielded txs to its pool", async () => {
+    await expect(
+      relayer.relay({
+        to: await usdc.getAddress(),
+        data: pool.interface.encodeFunctionData("getAllPendingTxs"),
+      }),
+    ).to.be.rejectedWith("relayer only submits to its pool");
+    await expect(
+      relayer.relay({
+        to: await pool.getAddress(),
+        data: pool.interface.encodeFunctionData("shield", [
+          "0x",
+          await usdc.getAddress(),
+          1n,
+          { noteHash: ethers.ZeroHash, encryptedNote: "0x" },
+        ]),
+      }),
+    ).to.be.rejectedWith("method is not relayable: shield");
+  });
+
+  it("rejects oversized requests", async () => {
+    const response = await fetch(`${server.url}/relay`, {
+      method: "POST",
+      body: JSON.stringify({
+        to: await pool.getAddress(),
+        data: "0x" + "00".repeat(MAX_RELAY_REQUEST_BYTES),
+      }),
+    });
+    expect(response.status).to.equal(413);
+  });
+
+  it("rejects calls that revert", async () => {
+    const client = new RelayerClient(server.url);
+    await expect(
+      client.relay({
+        to: await pool.getAddress(),
+        data: pool.interface.encodeFunctionData("transfer", [
+          "0x",
+          ethers.toBeHex(1, 32),
+          { noteHash: ethers.ZeroHash, encryptedNote: "0x" },
+          { noteHash: ethers.ZeroHash, encryptedNote: "0x" },
+          { noteHash: ethers.ZeroHash, encryptedNote: "0x" },
+        ]),
+      }),
+    ).to.be.rejected;
+  });
+
+  it("transfers through the relayer", async () => {
+    const client = new RelayerClient(server.url);
+    const sdk = createSdk(client.connect(ethers.provider));
+    const backendSdk = createBackendSdkFn(
+      interfaceSdkModule.createCoreSdk(pool),
+      trees,
+      { rollup: noir.getCircuitJson("rollup") },
+    );
+    const { note } = await createSdk(alice).poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount: 500n,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+
+    const relayerBalance = await ethers.provider.getBalance(relayerAccount);
+    const { tx } = await sdk.poolErc20.transfer({
+      secretKey: aliceSecretKey,
+      fromNote: note,
+      to: await CompleteWaAddress.fromSecretKey(bobSecretKey),
+      amount: await TokenAmount.from({
+        token: await usdc.getAddress(),
+        amount: 123n,
+      }),
+    });
+    expect(tx.from).to.equal(relayerAccount.address);
+    expect(await ethers.provider.getBalance(relayerAccount)).to.be.lessThan(
+      relayerBalance,
+    );
+    expect(await client.waitForTx(tx.hash)).to.deep.include({
+      txHash: tx.hash,
+      status: "confirmed",
+    });
+
+    // the same note can't be spent twice
+    await expect(
+      client.relay({ to: await pool.getAddress(), data: tx.data }),
+    ).to.be.rejectedWith("nullifier already pending");
+
+    await backendSdk.rollup.rollup();
+    expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(123n);
+  });
+
+  async function startPaidRelayerServer() {
+    const paidRelayer = new RelayerService(pool, relayerAccount, trees, {
+      viewingKey: await ViewingKey.fromSecretKey(relayerSecretKey),
+      amounts: { [await usdc.getAddress()]: 5n },
+    });
+    return await startRelayerServer({ relayer: paidRelayer });
+  }
+
+  it("requires a fee note if it charges fees", async () => {
+    const paidServer = await startPaidRelayerServer();
+    try {
+      const client = new RelayerClient(paidServer.url);
+      const sdk = createSdk(client.connect(ethers.provider));
+      const backendSdk = createBackendSdkFn(
+        interfaceSdkModule.createCoreSdk(pool),
+        trees,
+        { rollup: noir.getCircuitJson("rollup") },
+      );
+      const { note } = await createSdk(alice).poolErc20.shield({
+        account: alice,
+        token: usdc,
+        amount: 500n,
+        secretKey: aliceSecretKey,
+      });
+      await backendSdk.rollup.rollup();
+
+      const fee = await client.getFeeQuote(await usdc.getAddress());
+      expect(fee?.amount.amount).to.equal(5n);
+      expect(
+        fee?.to.equal(await CompleteWaAddress.fromSecretKey(relayerSecretKey)),
+      ).to.equal(true);
+      await expect(
+        client.getFeeQuote(await alice.getAddress()),
+      ).to.be.rejectedWith("token is not accepted for fees");
+
+      const transfer = {
+        secretKey: aliceSecretKey,
+        fromNote: note,
+        to: await CompleteWaAddress.fromSecretKey(bobSecretKey),
+        amount: await TokenAmount.from({
+          token: await usdc.getAddress(),
+          amount: 100n,
+        }),
+      };
+      await expect(sdk.poolErc20.transfer(transfer)).to.be.rejectedWith(
+        "relayer fee is not paid",
+      );
+      await expect(
+        sdk.poolErc20.transfer({
+          ...transfer,
+          fee: {
+            to: fee!.to,
+            amount: await TokenAmount.from({
+              token: await usdc.getAddress(),
+              amount: 4n,
+            }),
+          },
+        }),
+      ).to.be.rejectedWith("relayer fee too low");
+      await sdk.poolErc20.transfer({ ...transfer, fee });
+
+      await backendSdk.rollup.rollup();
+      expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(100n);
+      expect(await sdk.poolErc20.balanceOf(usdc, relayerSecretKey)).to.equal(
+        5n,
+      );
+      expect(await sdk.poolErc20.balanceOf(usdc, aliceSecretKey)).to.equal(
+        395n,
+      );
+    } finally {
+      await paidServer.close();
+    }
+  });
+
+  it("charges fees for every relayed tx", async () => {
+    const paidServer = await startPaidRelayerServer();
+    try {
+      const client = new RelayerClient(paidServer.url);
+      const sdk = createSdk(client.connect(ethers.provider));
+      const backendSdk = createBackendSdkFn(
+        interfaceSdkModule.createCoreSdk(pool),
+        trees,
+        { rollup: noir.getCircuitJson("rollup") },
+      );
+      const notes = [];
+      for (let i = 0; i < 3; i++) {
+        const { note } = await createSdk(alice).poolErc20.shield({
+          account: alice,
+          token: usdc,
+          amount: 100n,
+          secretKey: aliceSecretKey,
+        });
+        notes.push(note);
+      }
+      await backendSdk.rollup.rollup();
+      const fee = await client.getFeeQuote(await usdc.getAddress());
+      const bob = await CompleteWaAddress.fromSecretKey(bobSecretKey);
+      const token = await usdc.getAddress();
+      const amount = (value: bigint) =>
+        TokenAmount.from({ token, amount: value });
+
+      await expect(
+        sdk.poolErc20.join({
+          secretKey: aliceSecretKey,
+          notes: notes.slice(0, 2),
+        }),
+      ).to.be.rejectedWith("method does not pay a relayer fee: join");
+      const transferMany = {
+        secretKey: aliceSecretKey,
+        fromNotes: notes.slice(0, 2),
+        outputs: [{ to: bob, amount: await amount(50n) }],
+      };
+      await expect(sdk.poolErc20.transferMany(transferMany)).to.be.rejectedWith(
+        "relayer fee is not paid",
+      );
+
+      // 100n notes are joined twice to pay 200n, every join pays a fee
+      await sdk.poolErc20.transferFromBalance({
+        secretKey: aliceSecretKey,
+        to: bob,
+        amount: await amount(200n),
+        fee,
+        onJoinsSent: async () => {
+          await backendSdk.rollup.rollup();
+        },
+      });
+      await backendSdk.rollup.rollup();
+
+      expect(await sdk.poolErc20.balanceOf(usdc, bobSecretKey)).to.equal(200n);
+      expect(await sdk.poolErc20.balanceOf(usdc, relayerSecretKey)).to.equal(
+        15n,
+      );
+      expect(await sdk.poolErc20.balanceOf(usdc, aliceSecretKey)).to.equal(85n);
+    } finally {
+      await paidServer.close();
+    }
+  });
+});
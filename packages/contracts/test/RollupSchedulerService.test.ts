@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { range } from "lodash";
+import { MAX_NOTES_PER_ROLLUP } from "../sdk/PoolErc20Service";
+import {
+  RollupSchedulerService,
+  rollupFill,
+  smallestFirstRollupOrder,
+} from "../sdk/RollupSchedulerService";
+import type { PendingRollupTx, RollupService } from "../sdk/RollupService";
+
+describe("RollupSchedulerService", () => {
+  function pendingTx(index: number, notes: number): PendingRollupTx {
+    return {
+      index,
+      noteHashes: range(notes).map((i) => `0x${i}`),
+      nullifiers: ["0x01"],
+    };
+  }
+
+  function fakeRollupService(pending: PendingRollupTx[], failures = 0) {
+    const calls: unknown[] = [];
+    const service = {
+      async getPendingTxs() {
+        return pending;
+      },
+      async rollup(options: unknown) {
+        calls.push(options);
+        if (failures-- > 0) {
+          throw new Error("proof failed");
+        }
+        if (pending.length === 0) {
+          return undefined;
+        }
+        pending = [];
+        return { hash: "0xabc" };
+      },
+    } as unknown as RollupService;
+    return { service, calls };
+  }
+
+  it("computes fill of a rollup", () => {
+    expect(rollupFill([])).to.equal(0);
+    expect(rollupFill([pendingTx(0, MAX_NOTES_PER_ROLLUP / 2)])).to.equal(0.5);
+    expect(
+      rollupFill([pendingTx(0, MAX_NOTES_PER_ROLLUP - 1), pendingTx(1, 2)]),
+    ).to.equal(1);
+  });
+
+  it("orders smallest txs first", () => {
+    const txs = [pendingTx(0, 3), pendingTx(1, 1), pendingTx(2, 1)];
+    expect(smallestFirstRollupOrder(txs).map((tx) => tx.index)).to.deep.equal([
+      1, 2, 0,
+    ]);
+  });
+
+  it("waits for fill threshold or max wait", async () => {
+    const { service, calls } = fakeRollupService([pendingTx(0, 2)]);
+    const scheduler = new RollupSchedulerService(service, {
+      fillThreshold: 0.5,
+      maxWait: 50,
+    });
+
+    await scheduler.tick();
+    expect(calls).to.have.length(0);
+    expect(scheduler.getMetrics().pendingTxs).to.equal(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await scheduler.tick();
+    expect(calls).to.have.length(1);
+    const metrics = scheduler.getMetrics();
+    expect(metrics.pendingTxs).to.equal(0);
+    expect(metrics.rollups).to.equal(1);
+    expect(metrics.timeToInclusion.samples).to.equal(1);
+    expect(metrics.timeToInclusion.max).to.be.gte(50);
+  });
+
+  it("retries failed rollups", async () => {
+    const { service, calls } = fakeRollupService([pendingTx(0, 2)], 2);
+    const scheduler = new RollupSchedulerService(service, {
+      maxRetries: 2,
+      retryDelay: 1,
+    });
+
+    expect(await scheduler.rollupNow()).to.deep.equal({ hash: "0xabc" });
+    expect(calls).to.have.length(3);
+    expect(scheduler.getMetrics()).to.include({
+      rollups: 1,
+      failedAttempts: 2,
+      lastError: undefined,
+    });
+  });
+
+  it("does not count rollups that found nothing pending", async () => {
+    const { service, calls } = fakeRollupService([pendingTx(0, 2)]);
+    const scheduler = new RollupSchedulerService(service, {
+      fillThreshold: 0.01,
+    });
+
+    // both see the pending tx, the tick rolls it up first
+    const [, tx] = await Promise.all([scheduler.tick(), scheduler.rollupNow()]);
+    expect(tx).to.equal(undefined);
+    expect(calls).to.have.length(2);
+    expect(scheduler.getMetrics().rollups).to.equal(1);
+  });
+});
@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import {
+  deriveAccountSecretKey,
+  formatAccountPath,
+  parseAccountPath,
+} from "../sdk/ShieldedAccounts";
+
+describe("ShieldedAccounts", () => {
+  const rootSecretKey =
+    "0x118f09bc73ec486db2030077142f2bceba2a4d4c9e0f6147d776f8ca8ec02ff1";
+
+  it("parses and formats paths", () => {
+    expect(parseAccountPath("m")).to.deep.equal([]);
+    expect(parseAccountPath("m/1/0")).to.deep.equal([1, 0]);
+    expect(formatAccountPath([1, 0])).to.equal("m/1/0");
+    for (const path of ["", "1/0", "m/", "m/-1", "m/1'", "m/2147483648"]) {
+      expect(() => parseAccountPath(path), path).to.throw();
+    }
+  });
+
+  it("derives the root key at m", async () => {
+    expect(await deriveAccountSecretKey(rootSecretKey, "m")).to.equal(
+      rootSecretKey,
+    );
+  });
+
+  it("derives distinct deterministic keys", async () => {
+    const paths = ["m/0", "m/1", "m/0/1", "m/1/0"];
+    const keys = await Promise.all(
+      paths.map((path) => deriveAccountSecretKey(rootSecretKey, path)),
+    );
+    expect(new Set([rootSecretKey, ...keys]).size).to.equal(paths.length + 1);
+    expect(await deriveAccountSecretKey(rootSecretKey, "m/0/1")).to.equal(
+      keys[2],
+    );
+  });
+
+  it("derives nested paths level by level", async () => {
+    const parent = await deriveAccountSecretKey(rootSecretKey, "m/3");
+    expect(await deriveAccountSecretKey(parent, "m/7")).to.equal(
+      await deriveAccountSecretKey(rootSecretKey, "m/3/7"),
+    );
+  });
+});
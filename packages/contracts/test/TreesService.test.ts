@@ -0,0 +1,116 @@
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, noir, typedDeployments } from "hardhat";
+import { sdk as interfaceSdkModule } from "../sdk";
+import { createBackendSdk as createBackendSdkFn } from "../sdk/backendSdk";
+import { TreesService } from "../sdk/serverSdk";
+import { parseUnits, snapshottedBeforeEach } from "../shared/utils";
+import {
+  MockERC20,
+  MockERC20__factory,
+  PoolERC20,
+  PoolERC20__factory,
+} from "../typechain-types";
+
+describe("TreesService", () => {
+  let alice: SignerWithAddress;
+  const aliceSecretKey =
+    "0x118f09bc73ec486db2030077142f2bceba2a4d4c9e0f6147d776f8ca8ec02ff1";
+  let pool: PoolERC20;
+  let usdc: MockERC20;
+  let trees: TreesService;
+  let sdk: ReturnType<typeof interfaceSdkModule.createInterfaceSdk>;
+  let backendSdk: ReturnType<typeof createBackendSdkFn>;
+
+  snapshottedBeforeEach(async () => {
+    [alice] = await ethers.getSigners();
+    await typedDeployments.fixture();
+    pool = PoolERC20__factory.connect(
+      (await typedDeployments.get("PoolERC20")).address,
+      alice,
+    );
+    usdc = await new MockERC20__factory(alice).deploy("USD Coin", "USDC");
+    await usdc.mintForTests(alice, await parseUnits(usdc, "1000000"));
+    await usdc.connect(alice).approve(pool, ethers.MaxUint256);
+  });
+
+  beforeEach(() => {
+    const coreSdk = interfaceSdkModule.createCoreSdk(pool);
+    trees = new TreesService(pool);
+    sdk = interfaceSdkModule.createInterfaceSdk(coreSdk, trees, {
+      shield: noir.getCircuitJson("erc20_shield"),
+      unshield: noir.getCircuitJson("erc20_unshield"),
+      join: noir.getCircuitJson("erc20_join"),
+      transfer: noir.getCircuitJson("erc20_transfer"),
+      transfer1x3: noir.getCircuitJson("erc20_transfer_1x3"),
+      transfer2x4: noir.getCircuitJson("erc20_transfer_2x4"),
+      transfer4x8: noir.getCircuitJson("erc20_transfer_4x8"),
+      swap: noir.getCircuitJson("lob_router_swap"),
+    });
+    backendSdk = createBackendSdkFn(coreSdk, trees, {
+      rollup: noir.getCircuitJson("rollup"),
+    });
+  });
+
+  async function shieldAndRollup(amount: bigint) {
+    const { note } = await sdk.poolErc20.shield({
+      account: alice,
+      token: usdc,
+      amount,
+      secretKey: aliceSecretKey,
+    });
+    await backendSdk.rollup.rollup();
+    return note;
+  }
+
+  async function expectSyncedRoots() {
+    expect((await trees.getTreeRoots()).note_hash_root).to.equal(
+      (await pool.getNoteHashTree()).root,
+    );
+    expect(
+      await trees.readTrees(async ({ nullifierTree }) =>
+        nullifierTree.getRoot(),
+      ),
+    ).to.equal((await pool.getNullifierTree()).root);
+  }
+
+  it("syncs incrementally", async () => {
+    await shieldAndRollup(1n);
+    await expectSyncedRoots();
+    const note = await shieldAndRollup(2n);
+    await expectSyncedRoots();
+    expect(
+      await trees.readTrees(async ({ leaves }) => leaves.noteHashes.length),
+    ).to.equal(2 * 64);
+    expect(
+      await trees.noteExistsAndNotNullified({
+        noteHash: (await note.hash()).toString(),
+        nullifier: (await note.computeNullifier(aliceSecretKey)).toString(),
+      }),
+    ).to.equal(true);
+  });
+
+  it("syncs incrementally after a rollback", async () => {
+    await shieldAndRollup(1n);
+    await expectSyncedRoots();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    const reorged = await shieldAndRollup(2n);
+    await expectSyncedRoots();
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await ethers.provider.send("hardhat_mine", ["0x3"]);
+    const note = await shieldAndRollup(3n);
+    await expectSyncedRoots();
+    await shieldAndRollup(4n);
+    await expectSyncedRoots();
+
+    const exists = async (n: typeof note) =>
+      await trees.noteExistsAndNotNullified({
+        noteHash: (await n.hash()).toString(),
+        nullifier: (await n.computeNullifier(aliceSecretKey)).toString(),
+      });
+    expect(await exists(reorged)).to.equal(false);
+    expect(await exists(note)).to.equal(true);
+  });
+});